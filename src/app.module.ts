@@ -17,6 +17,7 @@ import { HandlerExecutorModule } from './infrastructure/handler-executor/handler
 import { QueryEngineModule } from './infrastructure/query-engine/query-engine.module';
 import { RedisPubSubService } from './infrastructure/redis/services/redis-pubsub.service';
 import { RouteCacheService } from './infrastructure/redis/services/route-cache.service';
+import { QueryCacheService } from './infrastructure/redis/services/query-cache.service';
 import { SqlFunctionService } from './infrastructure/sql/services/sql-function.service';
 import { AutoModule } from './modules/code-generation/auto.module';
 import { DynamicModule } from './modules/dynamic-api/dynamic.module';
@@ -30,6 +31,7 @@ import { CommonModule } from './shared/common/common.module';
 import { NotFoundDetectGuard } from './shared/guards/not-found-detect.guard';
 import { DynamicInterceptor } from './shared/interceptors/dynamic.interceptor';
 import { HideFieldInterceptor } from './shared/interceptors/hidden-field.interceptor';
+import { ImportUploadInterceptor } from './shared/interceptors/import-upload.interceptor';
 import { FileUploadMiddleware } from './shared/middleware/file-upload.middleware';
 import { ParseQueryMiddleware } from './shared/middleware/parse-query.middleware';
 import { RouteDetectMiddleware } from './shared/middleware/route-detect.middleware';
@@ -91,11 +93,13 @@ import { FileManagementModule } from './modules/file-management/file-management.
     RedisPubSubService,
     SqlFunctionService,
     RouteCacheService,
+    QueryCacheService,
     SystemProtectionService,
     FileManagementService,
     { provide: APP_GUARD, useClass: NotFoundDetectGuard },
     { provide: APP_GUARD, useClass: JwtAuthGuard },
     { provide: APP_GUARD, useClass: RoleGuard },
+    { provide: APP_INTERCEPTOR, useClass: ImportUploadInterceptor },
     { provide: APP_INTERCEPTOR, useClass: DynamicInterceptor },
     { provide: APP_INTERCEPTOR, useClass: HideFieldInterceptor },
   ],
@@ -104,6 +108,7 @@ import { FileManagementModule } from './modules/file-management/file-management.
     JwtModule,
     RedisPubSubService,
     RouteCacheService,
+    QueryCacheService,
     SchemaManagementModule,
     SystemProtectionService,
   ],
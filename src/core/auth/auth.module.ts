@@ -1,12 +1,14 @@
 import { Global, Module } from '@nestjs/common';
 import { AuthService } from './services/auth.service';
 import { AuthController } from './controllers/auth.controller';
+import { AuthorizationController } from './controllers/authorization.controller';
+import { AuthorizationService } from './services/authorization.service';
 import { BcryptService } from './services/bcrypt.service';
 
 @Global()
 @Module({
-  controllers: [AuthController],
-  providers: [AuthService, BcryptService],
-  exports: [BcryptService],
+  controllers: [AuthController, AuthorizationController],
+  providers: [AuthService, AuthorizationService, BcryptService],
+  exports: [AuthorizationService, BcryptService],
 })
 export class AuthModule {}
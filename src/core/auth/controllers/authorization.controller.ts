@@ -0,0 +1,20 @@
+import { Controller, Get, Query, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { Public } from '../../../shared/decorators/public-route.decorator';
+import { AuthorizationService } from '../services/authorization.service';
+
+@Controller('authorization')
+export class AuthorizationController {
+  constructor(private authorizationService: AuthorizationService) {}
+
+  // Root admins only, checked by the service
+  @Public()
+  @Get('explain')
+  explain(
+    @Query()
+    query: { userId?: string; route?: string; table?: string; action?: string },
+    @Req() req: Request & { user: any },
+  ) {
+    return this.authorizationService.explain(query, req.user);
+  }
+}
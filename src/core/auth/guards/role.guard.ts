@@ -6,10 +6,14 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../../../shared/utils/constant';
+import { AuthorizationService } from '../services/authorization.service';
 
 @Injectable()
 export class RoleGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private authorizationService: AuthorizationService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const req = context.switchToHttp().getRequest();
@@ -24,24 +28,10 @@ export class RoleGuard implements CanActivate {
     if (!req.user) throw new UnauthorizedException();
     if (req.user.isRootAdmin) return true;
 
-    if (!req.routeData?.routePermissions) return false;
-
-    const canPass = req.routeData.routePermissions.find(
-      (permission: any) => {
-        // First check if this permission covers the current method
-        const hasMethodAccess = permission.methods.some((item: any) => item.method === req.method);
-        if (!hasMethodAccess) return false;
-        
-        // Check user-specific access first
-        if (permission?.allowedUsers?.some((user: any) => user.id === req.user.id)) {
-          return true; // User is in allowed list and method is allowed
-        }
-        
-        // Then check role-based access (existing logic)
-        return permission?.role?.id === req.user.role.id;
-      }
-    );
-
-    return !!canPass;
+    return this.authorizationService.checkRoute(
+      req.routeData,
+      req.user,
+      req.method,
+    ).allowed;
   }
 }
@@ -1,8 +1,10 @@
 // Auth module barrel export
 export * from './auth.module';
 export * from './services/auth.service';
+export * from './services/authorization.service';
 export * from './services/bcrypt.service';
 export * from './services/jwt.strategy';
 export * from './guards/jwt-auth.guard';
 export * from './guards/role.guard';
 export * from './controllers/auth.controller';
+export * from './controllers/authorization.controller';
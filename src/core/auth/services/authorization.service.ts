@@ -0,0 +1,243 @@
+// @nestjs packages
+import { BadRequestException, Injectable } from '@nestjs/common';
+
+// Internal imports
+import { DataSourceService } from '../../../core/database/data-source/data-source.service';
+import { RouteCacheService } from '../../../infrastructure/redis/services/route-cache.service';
+import {
+  AuthenticationException,
+  AuthorizationException,
+  ResourceNotFoundException,
+} from '../../exceptions/custom-exceptions';
+
+export type TAuthorizationRule =
+  | 'not-found'
+  | 'published'
+  | 'unauthenticated'
+  | 'root-admin'
+  | 'allowed-user'
+  | 'role'
+  | 'no-permission';
+
+export type TAuthorizationDecision = {
+  allowed: boolean;
+  // Which check decided
+  rule: TAuthorizationRule;
+  // Human-readable, for debugging
+  reason: string;
+  // The route or file permission that let the user in
+  permissionId?: number | string;
+};
+
+// Shorthands accepted by explain(), next to the HTTP methods and GQL_QUERY
+const ACTION_METHODS: Record<string, string> = {
+  read: 'GET',
+  create: 'POST',
+  update: 'PATCH',
+  delete: 'DELETE',
+};
+
+const DECISION_TTL = 10000;
+const MAX_CACHED_DECISIONS = 10000;
+
+/**
+ * Decides whether a user may call a route with a method (an HTTP method or
+ * `GQL_QUERY`) or open a file, for the REST RoleGuard, the GraphQL resolver
+ * and file assets alike. Route decisions are cached for a few seconds and
+ * dropped whenever the route cache reloads.
+ */
+@Injectable()
+export class AuthorizationService {
+  private decisions = new Map<
+    string,
+    { decision: TAuthorizationDecision; expiresAt: number }
+  >();
+
+  constructor(
+    private dataSourceService: DataSourceService,
+    private routeCacheService: RouteCacheService,
+  ) {
+    this.routeCacheService.onReload(async () => this.clearCache());
+  }
+
+  checkRoute(route: any, user: any, method: string): TAuthorizationDecision {
+    if (!route?.isEnabled) {
+      return this.deny('not-found', 'Route does not exist or is disabled');
+    }
+    const key = [
+      route.id,
+      method,
+      user?.id ?? '',
+      user?.role?.id ?? '',
+      user?.isRootAdmin ? 'root' : '',
+    ].join(':');
+    const cached = this.decisions.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.decision;
+
+    const decision = this.decideRoute(route, user, method);
+    if (this.decisions.size >= MAX_CACHED_DECISIONS) this.decisions.clear();
+    this.decisions.set(key, { decision, expiresAt: Date.now() + DECISION_TTL });
+    return decision;
+  }
+
+  // Files are checked on every download, their permissions are loaded with them
+  checkFile(file: any, user: any): TAuthorizationDecision {
+    if (file?.isPublished === true) {
+      return this.allow('published', 'File is published');
+    }
+    if (!user?.id) {
+      return this.deny('unauthenticated', 'Authentication required');
+    }
+    if (user.isRootAdmin) return this.allow('root-admin', 'User is root admin');
+
+    for (const permission of file?.permissions ?? []) {
+      if (permission.isEnabled === false) continue;
+      if (this.sameId(permission.allowedUsers?.id, user.id)) {
+        return this.allow(
+          'allowed-user',
+          `User #${user.id} is allowed by file permission #${permission.id}`,
+          permission.id,
+        );
+      }
+      if (permission.role && this.sameId(permission.role.id, user.role?.id)) {
+        return this.allow(
+          'role',
+          `Role #${user.role.id} is allowed by file permission #${permission.id}`,
+          permission.id,
+        );
+      }
+    }
+    return this.deny(
+      'no-permission',
+      `No file permission covers user #${user.id} or role #${user.role?.id ?? 'none'}`,
+    );
+  }
+
+  // For the admin endpoint: the decision for any user on a route or table
+  async explain(
+    query: { userId?: string; route?: string; table?: string; action?: string },
+    currentUser: any,
+  ) {
+    if (!currentUser) throw new AuthenticationException();
+    if (!currentUser.isRootAdmin) {
+      throw new AuthorizationException(
+        'Only root admins can inspect authorization',
+      );
+    }
+    if (!query.route && !query.table) {
+      throw new BadRequestException('route or table is required');
+    }
+    const action = (query.action || 'GET').trim();
+    const method = ACTION_METHODS[action.toLowerCase()] ?? action.toUpperCase();
+
+    const routes = await this.routeCacheService.getRoutesWithSWR();
+    const path = query.route
+      ? `/${query.route.replace(/^\/+/, '')}`
+      : undefined;
+    const route = path
+      ? routes.find((candidate) => candidate.path === path)
+      : (routes.find(
+          (candidate) =>
+            candidate.mainTable?.name === query.table &&
+            candidate.path === `/${query.table}`,
+        ) ??
+        routes.find((candidate) => candidate.mainTable?.name === query.table));
+
+    let user = null;
+    if (query.userId) {
+      user = await this.dataSourceService
+        .getRepository('user_definition')
+        .findOne({ where: { id: query.userId }, relations: ['role'] });
+      if (!user) throw new ResourceNotFoundException('User', query.userId);
+    }
+
+    return {
+      ...this.checkRoute(route, user, method),
+      route: route?.path ?? path ?? null,
+      table: route?.mainTable?.name ?? query.table ?? null,
+      method,
+      user: user && {
+        id: user.id,
+        email: user.email,
+        isRootAdmin: user.isRootAdmin,
+        role: user.role ? { id: user.role.id, name: user.role.name } : null,
+      },
+    };
+  }
+
+  clearCache() {
+    this.decisions.clear();
+  }
+
+  private decideRoute(
+    route: any,
+    user: any,
+    method: string,
+  ): TAuthorizationDecision {
+    if (route.publishedMethods?.some((item: any) => item.method === method)) {
+      return this.allow('published', `${method} is published on ${route.path}`);
+    }
+    if (!user?.id) {
+      return this.deny('unauthenticated', 'Authentication required');
+    }
+    if (user.isRootAdmin) return this.allow('root-admin', 'User is root admin');
+
+    const permissions = (route.routePermissions ?? []).filter(
+      (permission: any) =>
+        permission.isEnabled !== false &&
+        permission.methods?.some((item: any) => item.method === method),
+    );
+    // Users listed on a permission pass whatever their role
+    const forUser = permissions.find((permission: any) =>
+      permission.allowedUsers?.some((allowed: any) =>
+        this.sameId(allowed.id, user.id),
+      ),
+    );
+    if (forUser) {
+      return this.allow(
+        'allowed-user',
+        `User #${user.id} is allowed ${method} by route permission #${forUser.id}`,
+        forUser.id,
+      );
+    }
+    const forRole = permissions.find(
+      (permission: any) =>
+        permission.role && this.sameId(permission.role.id, user.role?.id),
+    );
+    if (forRole) {
+      return this.allow(
+        'role',
+        `Role #${user.role.id} is allowed ${method} by route permission #${forRole.id}`,
+        forRole.id,
+      );
+    }
+    return this.deny(
+      'no-permission',
+      `No route permission of ${route.path} grants ${method} to user #${user.id} or role #${user.role?.id ?? 'none'}`,
+    );
+  }
+
+  private sameId(a: any, b: any) {
+    return a !== undefined && a !== null && String(a) === String(b);
+  }
+
+  private allow(
+    rule: TAuthorizationRule,
+    reason: string,
+    permissionId?: number | string,
+  ): TAuthorizationDecision {
+    return {
+      allowed: true,
+      rule,
+      reason,
+      ...(permissionId !== undefined && { permissionId }),
+    };
+  }
+
+  private deny(
+    rule: TAuthorizationRule,
+    reason: string,
+  ): TAuthorizationDecision {
+    return { allowed: false, rule, reason };
+  }
+}
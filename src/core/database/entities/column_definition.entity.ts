@@ -31,6 +31,8 @@ export class Column_definition {
     placeholder: string;
     @Column({ type: "varchar", nullable: false })
     type: string;
+    @Column({ type: "simple-json", nullable: true })
+    validation: any;
     @ManyToOne('Table_definition', (rel: any) => rel.columns, { nullable: true, onDelete: 'SET NULL', onUpdate: 'CASCADE' })
     @JoinColumn()
     table: any;
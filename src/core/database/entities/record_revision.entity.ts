@@ -0,0 +1,29 @@
+import { Entity, Index, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { User_definition } from './user_definition.entity';
+
+@Entity('record_revision')
+@Index(['tableName', 'recordId'])
+@Index(['user'])
+export class Record_revision {
+    @PrimaryGeneratedColumn('increment')
+    id: number;
+    @Column({ type: "enum", nullable: false, enum: ['create', 'update', 'delete', 'restore', 'revert'] })
+    action: 'create' | 'update' | 'delete' | 'restore' | 'revert';
+    @Column({ type: "simple-json", nullable: true })
+    changes: any;
+    @Column({ type: "simple-json", nullable: true })
+    data: any;
+    @Column({ type: "varchar", nullable: false })
+    recordId: string;
+    @Column({ type: "varchar", nullable: true })
+    route: string;
+    @Column({ type: "varchar", nullable: false })
+    tableName: string;
+    @ManyToOne('User_definition', { nullable: true, onDelete: 'SET NULL', onUpdate: 'CASCADE' })
+    @JoinColumn()
+    user: any;
+    @CreateDateColumn()
+    createdAt: Date;
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -10,6 +10,8 @@ export class Role_definition {
     description: string;
     @Column({ type: "varchar", nullable: false })
     name: string;
+    @Column({ type: "simple-json", nullable: true })
+    queryLimits: any;
     @OneToMany('Route_permission_definition', (rel: any) => rel.role, { cascade: true })
     routePermissions: any;
     @CreateDateColumn()
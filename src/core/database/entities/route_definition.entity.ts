@@ -11,6 +11,8 @@ import { Method_definition } from './method_definition.entity';
 export class Route_definition {
     @PrimaryGeneratedColumn('increment')
     id: number;
+    @Column({ type: "int", nullable: true })
+    cacheTtl: number;
     @Column({ type: "text", nullable: true })
     description: string;
     @Column({ type: "varchar", nullable: false, default: "lucide:route" })
@@ -21,6 +23,8 @@ export class Route_definition {
     isSystem: boolean;
     @Column({ type: "varchar", nullable: false })
     path: string;
+    @Column({ type: "boolean", nullable: false, default: false })
+    useTransaction: boolean;
     @ManyToOne('Table_definition', { nullable: true, onDelete: 'SET NULL', onUpdate: 'CASCADE' })
     @JoinColumn()
     mainTable: any;
@@ -0,0 +1,29 @@
+import { Entity, Index, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Role_definition } from './role_definition.entity';
+import { Table_definition } from './table_definition.entity';
+
+@Entity('row_policy_definition')
+@Index(['role'])
+@Index(['table'])
+export class Row_policy_definition {
+    @PrimaryGeneratedColumn('increment')
+    id: number;
+    @Column({ type: "simple-json", nullable: false })
+    actions: any[];
+    @Column({ type: "text", nullable: true })
+    description: string;
+    @Column({ type: "simple-json", nullable: false })
+    filter: any;
+    @Column({ type: "boolean", nullable: false, default: true })
+    isEnabled: boolean;
+    @ManyToOne('Role_definition', { nullable: true, onDelete: 'SET NULL', onUpdate: 'CASCADE' })
+    @JoinColumn()
+    role: any;
+    @ManyToOne('Table_definition', { nullable: true, onDelete: 'SET NULL', onUpdate: 'CASCADE' })
+    @JoinColumn()
+    table: any;
+    @CreateDateColumn()
+    createdAt: Date;
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
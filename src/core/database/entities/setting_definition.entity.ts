@@ -14,6 +14,8 @@ export class Setting_definition {
     projectName: string;
     @Column({ type: "varchar", nullable: true })
     projectUrl: string;
+    @Column({ type: "boolean", nullable: false, default: false })
+    strictQueryValidation: boolean;
     @CreateDateColumn()
     createdAt: Date;
     @UpdateDateColumn()
@@ -10,6 +10,8 @@ export class Table_definition {
     id: number;
     @Column({ type: "varchar", nullable: true })
     alias: string;
+    @Column({ type: "int", nullable: true })
+    cacheTtl: number;
     @Column({ type: "text", nullable: true })
     description: string;
     @Column({ type: "simple-json", nullable: true })
@@ -18,8 +20,16 @@ export class Table_definition {
     isSystem: boolean;
     @Column({ type: "varchar", nullable: false })
     name: string;
+    @Column({ type: "boolean", nullable: false, default: false })
+    softDelete: boolean;
+    @Column({ type: "boolean", nullable: false, default: false })
+    trackRevisions: boolean;
     @Column({ type: "simple-json", nullable: true })
     uniques: any;
+    @Column({ type: "boolean", nullable: false, default: false })
+    userStamps: boolean;
+    @Column({ type: "boolean", nullable: false, default: false })
+    versioned: boolean;
     @OneToMany('Column_definition', (rel: any) => rel.table, { cascade: true })
     columns: any;
     @OneToMany('Relation_definition', (rel: any) => rel.sourceTable, { cascade: true })
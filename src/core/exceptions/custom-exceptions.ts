@@ -60,6 +60,17 @@ export class DuplicateResourceException extends CustomException {
   }
 }
 
+export class PreconditionFailedException extends CustomException {
+  constructor(message: string, details?: any) {
+    super(
+      message,
+      HttpStatus.PRECONDITION_FAILED,
+      'PRECONDITION_FAILED',
+      details,
+    );
+  }
+}
+
 // Authentication & Authorization Exceptions
 export class AuthenticationException extends CustomException {
   constructor(message: string = 'Authentication failed', details?: any) {
@@ -143,6 +154,22 @@ export class RateLimitExceededException extends CustomException {
   }
 }
 
+export class QueryCostExceededException extends CustomException {
+  constructor(
+    exceeded: { limit: string; max: number; actual: any }[],
+    cost?: any,
+  ) {
+    super(
+      `Query is too expensive: ${exceeded
+        .map((e) => `${e.limit} is ${e.max}, got ${e.actual}`)
+        .join('; ')}`,
+      HttpStatus.BAD_REQUEST,
+      'QUERY_COST_EXCEEDED',
+      { exceeded, cost },
+    );
+  }
+}
+
 // Script & Dynamic Code Exceptions
 export class ScriptExecutionException extends CustomException {
   constructor(message: string, scriptId?: string, details?: any) {
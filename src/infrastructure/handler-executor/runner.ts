@@ -15,6 +15,7 @@ process.on('unhandledRejection', (reason: any) => {
       stack: reason.errorResponse?.stack,
       name: reason.errorResponse?.name,
       statusCode: reason.errorResponse?.statusCode,
+      details: reason.errorResponse?.details,
     },
   });
 });
@@ -44,6 +45,17 @@ process.on('message', async (msg: any) => {
     ctx.$errors = buildFunctionProxy('$errors');
     ctx.$helpers = buildFunctionProxy('$helpers');
     ctx.$logs = buildCallableFunctionProxy('$logs');
+    ctx.$trx = async (fn: () => Promise<any>) => {
+      await buildCallableFunctionProxy('$trx.begin')();
+      try {
+        const result = await fn();
+        await buildCallableFunctionProxy('$trx.commit')();
+        return result;
+      } catch (error) {
+        await buildCallableFunctionProxy('$trx.rollback')();
+        throw error;
+      }
+    };
     try {
       const asyncFn = new AsyncFunction(
         '$ctx',
@@ -70,6 +82,7 @@ process.on('message', async (msg: any) => {
           stack: error.errorResponse?.stack,
           name: error.errorResponse?.name,
           statusCode: error.errorResponse?.statusCode,
+          details: error.errorResponse?.details,
         },
       });
     }
@@ -66,7 +66,11 @@ export class ChildProcessManager {
             type: 'call_result',
             callId: msg.callId,
             error: true,
-            errorResponse: err.response,
+            // CustomException responses carry no statusCode of their own
+            errorResponse: err.response && {
+              statusCode: err.getStatus?.(),
+              ...err.response,
+            },
           });
         }
       }
@@ -96,6 +100,7 @@ export class ChildProcessManager {
           {
             statusCode: msg.error.statusCode,
             stack: msg.error.stack,
+            details: msg.error.details,
           },
         );
 
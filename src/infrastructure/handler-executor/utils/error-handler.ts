@@ -5,6 +5,8 @@ import {
   AuthenticationException,
   AuthorizationException,
   BusinessLogicException,
+  ValidationException,
+  PreconditionFailedException,
 } from '../../../core/exceptions/custom-exceptions';
 
 export class ErrorHandler {
@@ -39,7 +41,10 @@ export class ErrorHandler {
     if (statusCode) {
       switch (statusCode) {
         case 400:
-          return new BusinessLogicException(message || 'Bad request');
+          return new BusinessLogicException(
+            message || 'Bad request',
+            details?.details,
+          );
         case 401:
           return new AuthenticationException(
             message || 'Authentication required',
@@ -47,6 +52,17 @@ export class ErrorHandler {
         case 403:
           return new AuthorizationException(
             message || 'Insufficient permissions',
+            details?.details,
+          );
+        case 412:
+          return new PreconditionFailedException(
+            message || 'Precondition failed',
+            details?.details,
+          );
+        case 422:
+          return new ValidationException(
+            message || 'Validation failed',
+            details?.details,
           );
         default:
           return new ScriptExecutionException(
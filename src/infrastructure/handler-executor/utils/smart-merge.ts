@@ -15,6 +15,7 @@ export function smartMergeContext(
     '$user', // User object (complex)
     '$req', // Request object (complex)
     '$errors', // Errors object
+    '$trx', // Transaction of the request
   ];
 
   // MERGE ALL PROPERTIES EXCEPT NON-MERGEABLE ONES
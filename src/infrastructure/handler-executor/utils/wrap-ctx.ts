@@ -39,6 +39,12 @@ export function wrapCtx(
       continue;
     }
 
+    // Rebuilt as begin/commit/rollback calls in the child
+    if (key === '$trx') {
+      wrapped[key] = {};
+      continue;
+    }
+
     if (key === '$req') {
       wrapped[key] = {
         method: val.method,
@@ -50,6 +56,7 @@ export function wrapCtx(
         headers: {
           authorization: val.headers?.['authorization'],
           'user-agent': val.headers?.['user-agent'],
+          'if-match': val.headers?.['if-match'],
         },
         user: val.user ?? null,
       };
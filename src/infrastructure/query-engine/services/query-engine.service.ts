@@ -1,5 +1,5 @@
 // External packages
-import { Brackets } from 'typeorm';
+import { Brackets, QueryRunner, SelectQueryBuilder } from 'typeorm';
 
 // @nestjs packages
 import { Injectable, Logger } from '@nestjs/common';
@@ -8,19 +8,68 @@ import { Injectable, Logger } from '@nestjs/common';
 import { DataSourceService } from '../../../core/database/data-source/data-source.service';
 import { LoggingService } from '../../../core/exceptions/services/logging.service';
 import {
+  createFieldAccess,
+  stripUnreadableFields,
+  TFieldAccess,
+  TFieldPermissionRule,
+} from '../../../shared/utils/field-permission';
+import {
+  andFilters,
+  createRowAccess,
+  TRowAccess,
+  TRowAction,
+  TRowPolicyRule,
+} from '../../../shared/utils/row-policy';
+import {
+  AuthorizationException,
   DatabaseQueryException,
+  QueryCostExceededException,
   ResourceNotFoundException,
+  ValidationException,
 } from '../../../core/exceptions/custom-exceptions';
 
 // Relative imports
+import {
+  buildAggregate,
+  hasAggregate,
+  mapAggregateRows,
+} from '../utils/build-aggregate';
 import { buildJoinTree } from '../utils/build-join-tree';
+import { hidePolicyRows } from '../utils/hide-policy-rows';
+import { resolveFilterVariables } from '../utils/filter-variables';
+import {
+  analyzeQueryCost,
+  assertQueryCost,
+  TQueryCostLimits,
+} from '../utils/query-cost';
+import { applyJsonSelects, buildJsonExtract } from '../utils/json-path';
+import {
+  appendKeysetFields,
+  buildKeysetCondition,
+  decodeCursor,
+  encodeCursor,
+  keysetNulls,
+  resolveKeyset,
+  TKeysetField,
+} from '../utils/cursor';
 import { parseSortInput } from '../utils/parse-sort-input';
+import { restrictQuery } from '../utils/readable-query';
 import { resolveDeepRelations } from '../utils/resolve-deep';
+import { assertValidQuery } from '../utils/validate-query';
 import { walkFilter } from '../utils/walk-filter';
 
 @Injectable()
 export class QueryEngine {
-  private log: string[] = [];
+  // `strictQueryValidation` from setting_definition, re-read every 10s
+  private strictSetting?: { value: boolean; expiresAt: number };
+  // Enabled field_permission_definition rows, re-read every 10s
+  private fieldPermissions?: {
+    rules: TFieldPermissionRule[];
+    expiresAt: number;
+  };
+  private fieldPermissionListeners: (() => Promise<void>)[] = [];
+  // Enabled row_policy_definition rows, re-read every 10s
+  private rowPolicies?: { rules: TRowPolicyRule[]; expiresAt: number };
 
   constructor(
     private dataSourceService: DataSourceService,
@@ -37,41 +86,192 @@ export class QueryEngine {
     meta?: string;
     aggregate?: any;
     deep?: Record<string, any>;
+    after?: string;
+    before?: string;
+    // Adds `meta.debug`; 'explain' also runs EXPLAIN on the data query
+    debug?: boolean | 'explain';
+    // Reject unknown paths/operators instead of skipping them; defaults to
+    // the global setting
+    strict?: boolean;
+    // Resolves `$CURRENT_USER`/`$CURRENT_ROLE` in filter, deep and aggregate
+    user?: any;
+    // What `$NOW` resolves to; the time of the call by default
+    now?: Date;
+    // Reject the query before building SQL when it is over these limits
+    costLimits?: TQueryCostLimits;
+    // Read inside an open transaction, e.g. the context's `$trx`
+    queryRunner?: QueryRunner;
+    // Soft-deleted rows are hidden unless one of these is set
+    withDeleted?: boolean;
+    onlyDeleted?: boolean;
+    // Strips the fields the user cannot read, see getFieldAccess()
+    fieldAccess?: TFieldAccess;
+    // Limits the rows to the user's read policies, see getRowAccess()
+    rowAccess?: TRowAccess;
   }): Promise<any> {
     try {
       const {
         tableName,
         fields,
-        filter,
         sort,
         page,
         limit,
         meta,
-        deep = {},
+        after,
+        before,
+        debug,
+        strict,
+        user,
+        costLimits,
+        queryRunner,
       } = options;
-
       const dataSource = this.dataSourceService.getDataSource();
       const metaData = dataSource.getMetadata(tableName);
 
-      this.log = [];
-      const parsedSort = parseSortInput(sort);
+      // `$NOW` is taken once so every variable in the query agrees
+      const variables = { user, now: options.now ?? new Date() };
+      const deletedAt = metaData.deleteDateColumn?.propertyName;
+      const onlyDeleted = !!deletedAt && !!options.onlyDeleted;
+      const withDeleted = !!deletedAt && (onlyDeleted || !!options.withDeleted);
+      // The trash is the soft-deleted subset of whatever was asked for
+      const filter = onlyDeleted
+        ? {
+            _and: [
+              resolveFilterVariables(options.filter ?? {}, variables),
+              { [deletedAt]: { _is_null: false } },
+            ],
+          }
+        : resolveFilterVariables(options.filter, variables);
+      const aggregate = resolveFilterVariables(options.aggregate, variables);
+      const requestedDeep = resolveFilterVariables(
+        options.deep ?? {},
+        variables,
+      );
+      const deep = options.fieldAccess
+        ? restrictQuery({
+            meta: metaData,
+            filter,
+            sort,
+            aggregate,
+            deep: requestedDeep,
+            access: options.fieldAccess,
+          })
+        : requestedDeep;
+      // Policies are not the user's filter, field permissions don't apply
+      const policy = resolveFilterVariables(
+        options.rowAccess?.filter(tableName, 'read'),
+        variables,
+      );
+      const scopedFilter = andFilters(filter, policy);
+      const readPolicy = options.rowAccess
+        ? (table: string) =>
+            resolveFilterVariables(
+              options.rowAccess.filter(table, 'read'),
+              variables,
+            )
+        : undefined;
+
+      if (strict ?? (await this.isStrictByDefault())) {
+        assertValidQuery({ meta: metaData, fields, filter, sort, deep });
+      }
 
-      const { joinArr, selectArr, sortArr } = buildJoinTree({
+      const cost =
+        costLimits || debug
+          ? analyzeQueryCost({
+              meta: metaData,
+              fields,
+              filter,
+              sort,
+              deep,
+              limit,
+            })
+          : undefined;
+      if (costLimits) assertQueryCost(cost, costLimits);
+
+      // Per call, so concurrent queries don't mix their logs
+      const log: string[] = [];
+      const startedAt = Date.now();
+      const timings: Record<string, number> = {};
+      const queries: { step: string; sql: string; params: any[] }[] = [];
+      const track = async <T>(
+        step: string,
+        stepQb: { getQueryAndParameters(): [string, any[]] },
+        run: () => Promise<T>,
+      ): Promise<T> => {
+        if (debug) {
+          const [sql, params] = stepQb.getQueryAndParameters();
+          queries.push({ step, sql, params });
+        }
+        const stepStartedAt = Date.now();
+        try {
+          return await run();
+        } finally {
+          timings[step] = Date.now() - stepStartedAt;
+        }
+      };
+      // `_relevance` ranks `_search` matches instead of naming a column
+      const relevanceSort = parseSortInput(sort).find(
+        (parsed) => parsed.field === '_relevance',
+      );
+      const parsedSort = parseSortInput(sort).filter(
+        (parsed) => parsed.field !== '_relevance',
+      );
+
+      // === Cursor (keyset) pagination ===
+      const isCursorMode = after !== undefined || before !== undefined;
+      if (after !== undefined && before !== undefined) {
+        throw new ValidationException(
+          'Cannot use "after" and "before" in the same query',
+        );
+      }
+      if (isCursorMode && relevanceSort) {
+        throw new ValidationException(
+          'Cannot sort by _relevance with cursor pagination',
+        );
+      }
+      const cursorMode = before !== undefined ? 'before' : 'after';
+      const cursor = before !== undefined ? before : after;
+      const keyset = isCursorMode
+        ? resolveKeyset({
+            meta: metaData,
+            sort: parsedSort,
+            rootAlias: tableName,
+          })
+        : [];
+
+      const { joinArr, selectArr, sortArr, jsonSelectArr } = buildJoinTree({
         meta: metaData,
-        fields,
-        filter,
+        fields: isCursorMode ? appendKeysetFields(fields, keyset) : fields,
+        filter: scopedFilter,
         sort: parsedSort.map((parsed) => parsed.field),
         rootAlias: tableName,
         dataSource,
+        log,
       });
 
-      const { parts } = walkFilter({
-        filter,
+      const { parts, relevance } = walkFilter({
+        filter: scopedFilter,
         currentMeta: metaData,
         currentAlias: tableName,
+        log,
+        readPolicy,
       });
+      if (relevanceSort && relevance.length === 0) {
+        throw new ValidationException(
+          'Sorting by _relevance requires a _search filter',
+        );
+      }
 
-      const qb = dataSource.createQueryBuilder(metaData.target, tableName);
+      // TypeORM skips soft-deleted rows, joined ones included, unless told
+      const createQb = () => {
+        const created = dataSource.createQueryBuilder(
+          metaData.target,
+          tableName,
+          queryRunner,
+        );
+        return withDeleted ? created.withDeleted() : created;
+      };
+      const qb = createQb();
 
       for (const join of joinArr) {
         qb.leftJoinAndSelect(
@@ -81,6 +281,38 @@ export class QueryEngine {
       }
 
       qb.select([...selectArr]);
+      const jsonSelects = jsonSelectArr.map((select, i) => ({
+        ...select,
+        rawAlias: `json_${i}`,
+      }));
+      for (const select of jsonSelects) {
+        qb.addSelect(
+          buildJsonExtract({
+            dbType: dataSource.options.type,
+            column: `${select.alias}.${select.field}`,
+            columnType: select.columnType,
+            jsonPath: select.jsonPath,
+            as: 'json',
+          }),
+          select.rawAlias,
+        );
+      }
+      // JSON paths are raw selections, copied onto the entities after loading
+      const fetchRows = () =>
+        track('data', qb, async () => {
+          if (jsonSelects.length === 0) return qb.getMany();
+          const { entities, raw } = await qb.getRawAndEntities();
+          applyJsonSelects({
+            dataSource,
+            entities,
+            raw,
+            selects: jsonSelects,
+          });
+          return entities;
+        });
+      if (relevanceSort) {
+        qb.addSelect(relevance.join(' + '), 'search_relevance');
+      }
 
       if (parts.length > 0) {
         qb.where(
@@ -96,12 +328,36 @@ export class QueryEngine {
         );
       }
 
-      for (const sort of sortArr) {
-        qb.addOrderBy(
-          `${sort.alias}.${sort.field}`,
-          parsedSort.find((parsed) => parsed.field === sort.field)?.direction ??
-            'ASC',
-        );
+      if (isCursorMode) {
+        // Walking backwards: flip the order, then reverse the fetched page
+        for (const key of keyset) {
+          const direction =
+            cursorMode === 'before'
+              ? key.direction === 'ASC'
+                ? 'DESC'
+                : 'ASC'
+              : key.direction;
+          qb.addOrderBy(
+            `${key.alias}.${key.field}`,
+            direction,
+            keysetNulls(direction, dataSource.options.type),
+          );
+        }
+      } else {
+        // Most relevant first for `_relevance`, least relevant for `-_relevance`
+        if (relevanceSort) {
+          qb.addOrderBy(
+            'search_relevance',
+            relevanceSort.direction === 'ASC' ? 'DESC' : 'ASC',
+          );
+        }
+        for (const sort of sortArr) {
+          qb.addOrderBy(
+            `${sort.alias}.${sort.field}`,
+            parsedSort.find((parsed) => parsed.field === sort.field)
+              ?.direction ?? 'ASC',
+          );
+        }
       }
 
       // === Total Meta ===
@@ -110,17 +366,50 @@ export class QueryEngine {
       let filterCount = 0;
 
       if (metaParts.includes('totalCount') || metaParts.includes('*')) {
-        totalCount = await dataSource
-          .createQueryBuilder(metaData.target, tableName)
-          .getCount();
-        this.log.push(`+ totalCount = ${totalCount}`);
+        const totalQb = createQb();
+        if (onlyDeleted) totalQb.where(`${tableName}.${deletedAt} IS NOT NULL`);
+        // Rows hidden by a policy are not counted either
+        if (policy) {
+          const { joinArr: policyJoins } = buildJoinTree({
+            meta: metaData,
+            fields: [],
+            filter: policy,
+            rootAlias: tableName,
+            dataSource,
+          });
+          for (const join of policyJoins) {
+            totalQb.leftJoin(
+              `${join.parentAlias}.${join.propertyPath}`,
+              join.alias,
+            );
+          }
+          const { parts: policyParts } = walkFilter({
+            filter: policy,
+            currentMeta: metaData,
+            currentAlias: tableName,
+          });
+          if (policyParts.length > 0) {
+            totalQb.andWhere(
+              new Brackets((qb2) => {
+                for (const p of policyParts) {
+                  if (p.operator === 'AND') {
+                    qb2.andWhere(p.sql, p.params);
+                  } else {
+                    qb2.orWhere(p.sql, p.params);
+                  }
+                }
+              }),
+            );
+          }
+        }
+        totalCount = await track('totalCount', totalQb, () =>
+          totalQb.getCount(),
+        );
+        log.push(`+ totalCount = ${totalCount}`);
       }
 
       if (metaParts.includes('filterCount') || metaParts.includes('*')) {
-        const filterQb = dataSource.createQueryBuilder(
-          metaData.target,
-          tableName,
-        );
+        const filterQb = createQb();
 
         if (parts.length > 0) {
           for (const join of joinArr) {
@@ -143,23 +432,174 @@ export class QueryEngine {
           );
         }
 
-        filterCount = await filterQb.getCount();
-        this.log.push(`+ filterCount = ${filterCount}`);
+        filterCount = await track('filterCount', filterQb, () =>
+          filterQb.getCount(),
+        );
+        log.push(`+ filterCount = ${filterCount}`);
+      }
+
+      // === Aggregate ===
+      let aggregateResult: any;
+      if (hasAggregate(aggregate)) {
+        const plan = buildAggregate({
+          meta: metaData,
+          aggregate,
+          rootAlias: tableName,
+          readPolicy,
+        });
+        const aggQb = createQb().select([]);
+
+        for (const join of plan.joins) {
+          aggQb.leftJoin(
+            `${join.parentAlias}.${join.propertyPath}`,
+            join.alias,
+            join.condition?.sql,
+            join.condition?.params,
+          );
+        }
+
+        // Filter in a subquery so filter joins don't duplicate aggregated rows
+        if (parts.length > 0) {
+          const subQb = createQb().select(`${tableName}.id`);
+          for (const join of joinArr) {
+            subQb.leftJoin(
+              `${join.parentAlias}.${join.propertyPath}`,
+              join.alias,
+            );
+          }
+          subQb.where(
+            new Brackets((qb2) => {
+              for (const p of parts) {
+                if (p.operator === 'AND') {
+                  qb2.andWhere(p.sql, p.params);
+                } else {
+                  qb2.orWhere(p.sql, p.params);
+                }
+              }
+            }),
+          );
+          aggQb.where(
+            `${tableName}.id IN (${subQb.getQuery()})`,
+            subQb.getParameters(),
+          );
+        }
+
+        for (const select of plan.selects) {
+          aggQb.addSelect(select.sql, select.alias);
+          if (select.params) aggQb.setParameters(select.params);
+        }
+        for (const group of plan.groupBy) {
+          aggQb.addSelect(group.sql, group.alias);
+          aggQb.addGroupBy(group.sql);
+          aggQb.addOrderBy(group.sql, 'ASC');
+        }
+        if (plan.having) {
+          aggQb.having(plan.having.sql, plan.having.params);
+        }
+
+        aggregateResult = mapAggregateRows(
+          await track('aggregate', aggQb, () => aggQb.getRawMany()),
+          plan,
+        );
+        log.push(`+ aggregate = ${JSON.stringify(aggregateResult)}`);
       }
 
-      if (limit) qb.take(limit);
-      if (page && limit) qb.skip((page - 1) * limit);
-      const rows = await qb.getMany();
+      let cursorMeta: { nextCursor: string | null; prevCursor: string | null };
+      let rows: any[];
+
+      if (isCursorMode) {
+        if (cursor) {
+          const values = decodeCursor(cursor, keyset);
+          const condition = buildKeysetCondition(keyset, values, cursorMode);
+          qb.andWhere(
+            new Brackets((qb2) => {
+              qb2.where(condition.sql, condition.params);
+            }),
+          );
+          log.push(`+ Keyset ${cursorMode}: ${condition.sql}`);
+        }
+
+        // Fetch one extra row to know whether another page exists
+        if (limit) qb.take(limit + 1);
+        rows = await fetchRows();
+        const hasMore = !!limit && rows.length > limit;
+        if (hasMore) rows = rows.slice(0, limit);
+        if (cursorMode === 'before') rows.reverse();
+
+        const first = rows[0];
+        const last = rows[rows.length - 1];
+        const hasNext = cursorMode === 'after' ? hasMore : !!cursor;
+        const hasPrev = cursorMode === 'before' ? hasMore : !!cursor;
+        cursorMeta = {
+          nextCursor: hasNext && last ? encodeCursor(last, keyset) : null,
+          prevCursor: hasPrev && first ? encodeCursor(first, keyset) : null,
+        };
+      } else {
+        if (limit) qb.take(limit);
+        if (page && limit) qb.skip((page - 1) * limit);
+        rows = await fetchRows();
+      }
+
+      if (options.rowAccess) {
+        await hidePolicyRows({
+          meta: metaData,
+          rows,
+          access: options.rowAccess,
+          loadVisibleIds: (childTable, ids) =>
+            this.findVisibleIds({
+              tableName: childTable,
+              ids,
+              user,
+              queryRunner,
+              rowAccess: options.rowAccess,
+            }),
+        });
+      }
+
+      const deepStartedAt = Date.now();
       const metaDeep = await resolveDeepRelations({
         queryEngine: this,
+        queryRunner,
         rows,
         metaData,
         deep,
-        log: this.log,
+        log,
+        user,
+        fieldAccess: options.fieldAccess,
+        rowAccess: options.rowAccess,
       });
+      if (Object.keys(deep).length > 0) {
+        timings.deep = Date.now() - deepStartedAt;
+      }
+      if (options.fieldAccess) {
+        stripUnreadableFields(metaData, rows, options.fieldAccess);
+      }
+
+      let debugMeta: any;
+      if (debug) {
+        const dataQuery = queries.find((q) => q.step === 'data');
+        debugMeta = {
+          sql: dataQuery?.sql,
+          params: dataQuery?.params,
+          queries,
+          joinTree: { joins: joinArr, selects: selectArr, sorts: sortArr },
+          cost,
+          log,
+          timings: { ...timings, total: Date.now() - startedAt },
+          ...(debug === 'explain' &&
+            dataQuery && {
+              explain: await this.explain(dataQuery.sql, dataQuery.params),
+            }),
+        };
+      }
+
       return {
         data: rows,
-        ...((meta || metaDeep) && {
+        ...((meta ||
+          metaDeep ||
+          cursorMeta ||
+          aggregateResult ||
+          debugMeta) && {
           meta: {
             ...(metaParts.includes('totalCount') || metaParts.includes('*')
               ? { totalCount }
@@ -167,7 +607,12 @@ export class QueryEngine {
             ...(metaParts.includes('filterCount') || metaParts.includes('*')
               ? { filterCount }
               : {}),
+            ...(aggregateResult !== undefined && {
+              aggregate: aggregateResult,
+            }),
+            ...cursorMeta,
             ...metaDeep,
+            ...(debugMeta && { debug: debugMeta }),
           },
         }),
       };
@@ -185,6 +630,14 @@ export class QueryEngine {
         hasDeepRelations: options.deep && Object.keys(options.deep).length > 0,
       });
 
+      if (
+        error instanceof ValidationException ||
+        error instanceof QueryCostExceededException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+
       // Handle specific database errors
       if (
         error.message?.includes('relation') &&
@@ -217,4 +670,313 @@ export class QueryEngine {
       });
     }
   }
+
+  /**
+   * Yield every row matching `filter`/`sort` in batches, for exports. The
+   * root ids are read in keyset batches on the sort and id, so rows written
+   * meanwhile don't shift later batches; each batch is then loaded through
+   * find() so `fields` and `deep` behave exactly as in a normal query.
+   */
+  async *stream(options: {
+    tableName: string;
+    fields?: string | string[];
+    filter?: any;
+    sort?: string | string[];
+    deep?: Record<string, any>;
+    user?: any;
+    strict?: boolean;
+    // Checked with one batch as the page size
+    costLimits?: TQueryCostLimits;
+    batchSize?: number;
+    fieldAccess?: TFieldAccess;
+    rowAccess?: TRowAccess;
+  }): AsyncGenerator<any[]> {
+    const {
+      tableName,
+      fields,
+      sort,
+      user,
+      strict,
+      costLimits,
+      batchSize = 500,
+      fieldAccess,
+      rowAccess,
+    } = options;
+    const variables = { user, now: new Date() };
+    const filter = resolveFilterVariables(options.filter, variables);
+    const requestedDeep = resolveFilterVariables(options.deep ?? {}, variables);
+
+    const dataSource = this.dataSourceService.getDataSource();
+    const metaData = dataSource.getMetadata(tableName);
+    const deep = fieldAccess
+      ? restrictQuery({
+          meta: metaData,
+          filter,
+          sort,
+          deep: requestedDeep,
+          access: fieldAccess,
+        })
+      : requestedDeep;
+    const scopedFilter = andFilters(
+      filter,
+      resolveFilterVariables(rowAccess?.filter(tableName, 'read'), variables),
+    );
+    const readPolicy = rowAccess
+      ? (table: string) =>
+          resolveFilterVariables(rowAccess.filter(table, 'read'), variables)
+      : undefined;
+
+    if (strict ?? (await this.isStrictByDefault())) {
+      assertValidQuery({ meta: metaData, fields, filter, sort, deep });
+    }
+    if (costLimits) {
+      assertQueryCost(
+        analyzeQueryCost({
+          meta: metaData,
+          fields,
+          filter,
+          sort,
+          deep,
+          limit: batchSize,
+        }),
+        costLimits,
+      );
+    }
+    const parsedSort = parseSortInput(sort).filter(
+      (parsed) => parsed.field !== '_relevance',
+    );
+
+    const keyset = resolveKeyset({
+      meta: metaData,
+      sort: parsedSort,
+      rootAlias: tableName,
+    });
+
+    const { joinArr } = buildJoinTree({
+      meta: metaData,
+      fields: [],
+      filter: scopedFilter,
+      sort: parsedSort.map((parsed) => parsed.field),
+      rootAlias: tableName,
+      dataSource,
+    });
+    const { parts } = walkFilter({
+      filter: scopedFilter,
+      currentMeta: metaData,
+      currentAlias: tableName,
+      readPolicy,
+    });
+
+    // To-many filter joins repeat a root row with the same keys
+    const idQb = dataSource
+      .createQueryBuilder(metaData.target, tableName)
+      .select(`${tableName}.id`, 'export_id')
+      .distinct(true);
+    keyset.forEach((key, i) => {
+      idQb.addSelect(`${key.alias}.${key.field}`, `key_${i}`);
+    });
+    for (const join of joinArr) {
+      idQb.leftJoin(`${join.parentAlias}.${join.propertyPath}`, join.alias);
+    }
+    if (parts.length > 0) {
+      idQb.where(
+        new Brackets((qb2) => {
+          for (const p of parts) {
+            if (p.operator === 'AND') {
+              qb2.andWhere(p.sql, p.params);
+            } else {
+              qb2.orWhere(p.sql, p.params);
+            }
+          }
+        }),
+      );
+    }
+    for (const key of keyset) {
+      idQb.addOrderBy(
+        `${key.alias}.${key.field}`,
+        key.direction,
+        keysetNulls(key.direction, dataSource.options.type),
+      );
+    }
+
+    const loadBatch = async (ids: any[]) => {
+      const { data } = await this.find({
+        tableName,
+        fields,
+        filter: { id: { _in: ids } },
+        deep,
+        limit: 0,
+        user,
+        fieldAccess,
+        rowAccess,
+      });
+      const byId = new Map(data.map((row) => [String(row.id), row]));
+      return ids.map((id) => byId.get(String(id))).filter(Boolean);
+    };
+
+    let batch: any[] = [];
+    for await (const id of this.streamIds(idQb, keyset, batchSize)) {
+      batch.push(id);
+      if (batch.length >= batchSize) {
+        yield await loadBatch(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) yield await loadBatch(batch);
+  }
+
+  // Ids are read a batch at a time, each after the last row of the one
+  // before: a driver stream would need an extra package on Postgres
+  // (pg-query-stream) and holds a connection throughout
+  private async *streamIds(
+    idQb: SelectQueryBuilder<any>,
+    keyset: TKeysetField[],
+    batchSize: number,
+  ): AsyncGenerator<any> {
+    let last: any;
+    for (;;) {
+      const batchQb = idQb.clone().limit(batchSize);
+      if (last) {
+        const condition = buildKeysetCondition(
+          keyset,
+          keyset.map((_, i) => last[`key_${i}`]),
+          'after',
+        );
+        batchQb.andWhere(
+          new Brackets((qb2) => {
+            qb2.where(condition.sql, condition.params);
+          }),
+        );
+      }
+      const rows = await batchQb.getRawMany();
+      for (const row of rows) yield row.export_id;
+      if (rows.length < batchSize) return;
+      last = rows[rows.length - 1];
+    }
+  }
+
+  async isStrictByDefault(): Promise<boolean> {
+    if (this.strictSetting && this.strictSetting.expiresAt > Date.now()) {
+      return this.strictSetting.value;
+    }
+    const dataSource = this.dataSourceService.getDataSource();
+    if (!dataSource.hasMetadata('setting_definition')) return false;
+
+    const setting = await dataSource
+      .getRepository('setting_definition')
+      .findOne({ where: {}, select: ['id', 'strictQueryValidation'] });
+    this.strictSetting = {
+      value: !!setting?.strictQueryValidation,
+      expiresAt: Date.now() + 10000,
+    };
+    return this.strictSetting.value;
+  }
+
+  async getFieldPermissionRules(): Promise<TFieldPermissionRule[]> {
+    if (this.fieldPermissions && this.fieldPermissions.expiresAt > Date.now()) {
+      return this.fieldPermissions.rules;
+    }
+    const dataSource = this.dataSourceService.getDataSource();
+    if (!dataSource.hasMetadata('field_permission_definition')) return [];
+
+    const rows = await dataSource
+      .getRepository('field_permission_definition')
+      .find({ where: { isEnabled: true }, relations: ['role', 'table'] });
+    const rules = rows
+      .filter((row: any) => row.table?.name && row.field)
+      .map((row: any) => ({
+        tableName: row.table.name,
+        field: row.field,
+        actions: row.actions ?? [],
+        roleId: row.role?.id ?? null,
+      }));
+    this.fieldPermissions = { rules, expiresAt: Date.now() + 10000 };
+    return rules;
+  }
+
+  // Undefined when the user may read and write every field
+  async getFieldAccess(user: any): Promise<TFieldAccess | undefined> {
+    if (user?.isRootAdmin) return undefined;
+    return createFieldAccess(await this.getFieldPermissionRules(), user);
+  }
+
+  // After field_permission_definition changes, e.g. so GraphQL types follow
+  async reloadFieldPermissions() {
+    this.fieldPermissions = undefined;
+    for (const listener of this.fieldPermissionListeners) await listener();
+  }
+
+  onFieldPermissionsReload(listener: () => Promise<void>) {
+    this.fieldPermissionListeners.push(listener);
+  }
+
+  async getRowPolicyRules(): Promise<TRowPolicyRule[]> {
+    if (this.rowPolicies && this.rowPolicies.expiresAt > Date.now()) {
+      return this.rowPolicies.rules;
+    }
+    const dataSource = this.dataSourceService.getDataSource();
+    if (!dataSource.hasMetadata('row_policy_definition')) return [];
+
+    const rows = await dataSource
+      .getRepository('row_policy_definition')
+      .find({ where: { isEnabled: true }, relations: ['role', 'table'] });
+    const rules = rows
+      .filter((row: any) => row.table?.name && row.filter)
+      .map((row: any) => ({
+        tableName: row.table.name,
+        filter: row.filter,
+        actions: row.actions ?? [],
+        roleId: row.role?.id ?? null,
+      }));
+    this.rowPolicies = { rules, expiresAt: Date.now() + 10000 };
+    return rules;
+  }
+
+  // Undefined when the user may reach every row
+  async getRowAccess(user: any): Promise<TRowAccess | undefined> {
+    if (user?.isRootAdmin) return undefined;
+    return createRowAccess(await this.getRowPolicyRules(), user);
+  }
+
+  reloadRowPolicies() {
+    this.rowPolicies = undefined;
+  }
+
+  // The ids among `ids` that pass the user's `action` policies, trash
+  // included; all of them when the table has none
+  async findVisibleIds({
+    tableName,
+    ids,
+    action = 'read',
+    user,
+    queryRunner,
+    rowAccess,
+  }: {
+    tableName: string;
+    ids: any[];
+    action?: TRowAction;
+    user?: any;
+    queryRunner?: QueryRunner;
+    rowAccess?: TRowAccess;
+  }): Promise<any[]> {
+    const policy = rowAccess?.filter(tableName, action);
+    if (!policy || ids.length === 0) return ids;
+    const { data } = await this.find({
+      tableName,
+      fields: 'id',
+      filter: { _and: [{ id: { _in: ids } }, policy] },
+      limit: 0,
+      user,
+      queryRunner,
+      withDeleted: true,
+    });
+    return data.map((row: any) => row.id);
+  }
+
+  private async explain(sql: string, params: any[]): Promise<any[]> {
+    const dataSource = this.dataSourceService.getDataSource();
+    const prefix =
+      dataSource.options.type === 'sqlite' ? 'EXPLAIN QUERY PLAN' : 'EXPLAIN';
+    return dataSource.query(`${prefix} ${sql}`, params);
+  }
 }
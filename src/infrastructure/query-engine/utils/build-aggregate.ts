@@ -0,0 +1,403 @@
+import { EntityMetadata } from 'typeorm';
+import { lookupFieldOrRelation } from './lookup-field-or-relation';
+import { buildPolicyGuard, TReadPolicy } from './policy-guard';
+import { walkFilter } from './walk-filter';
+
+const AGG_FUNCTIONS: Record<string, string> = {
+  _count: 'COUNT',
+  _sum: 'SUM',
+  _avg: 'AVG',
+  _min: 'MIN',
+  _max: 'MAX',
+};
+
+const NUMERIC_TYPES = [
+  'int',
+  'integer',
+  'smallint',
+  'bigint',
+  'decimal',
+  'numeric',
+  'float',
+  'double',
+];
+
+export type TAggregateJoin = {
+  alias: string;
+  parentAlias: string;
+  propertyPath: string;
+  isMany: boolean;
+  // Keeps out the rows the user's read policy hides
+  condition?: { sql: string; params: Record<string, any> };
+};
+
+export type TAggregateSelect = {
+  sql: string;
+  alias: string;
+  key: string;
+  path?: string;
+  numeric: boolean;
+  params?: Record<string, any>;
+};
+
+export type TAggregatePlan = {
+  joins: TAggregateJoin[];
+  selects: TAggregateSelect[];
+  groupBy: { sql: string; alias: string; path: string }[];
+  having?: { sql: string; params: Record<string, any> };
+};
+
+function toList(value: any): string[] {
+  if (value === undefined || value === null || value === false) return [];
+  if (value === true) return ['*'];
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v).split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function isOperatorBlock(value: any): boolean {
+  return (
+    value &&
+    typeof value === 'object' &&
+    Object.keys(value).every((k) => k.startsWith('_'))
+  );
+}
+
+export function hasAggregate(aggregate: any): boolean {
+  if (!aggregate || typeof aggregate !== 'object') return false;
+  return Object.keys(AGG_FUNCTIONS).some(
+    (key) => toList(aggregate[key]).length > 0,
+  );
+}
+
+/**
+ * Compile the `aggregate` query option into SELECT, GROUP BY and HAVING
+ * fragments. Relation paths are joined with the same alias naming as
+ * buildJoinTree, to-many relations included. A select or having path whose
+ * to-many joins differ from those of groupBy would be repeated by the extra
+ * rows, so it is computed per root row in a correlated subquery and combined.
+ * Related rows hidden by `readPolicy` are joined as nulls.
+ */
+export function buildAggregate({
+  meta,
+  aggregate,
+  rootAlias,
+  readPolicy,
+}: {
+  meta: EntityMetadata;
+  aggregate: any;
+  rootAlias: string;
+  readPolicy?: TReadPolicy;
+}): TAggregatePlan {
+  const joins: TAggregateJoin[] = [];
+  const addJoins = (chain: TAggregateJoin[]) => {
+    for (const join of chain) {
+      if (!joins.some((j) => j.alias === join.alias)) joins.push(join);
+    }
+  };
+
+  let guardIndex = 0;
+  const resolvePath = (path: string, fromAlias = rootAlias) => {
+    const segments = path.split('.');
+    const chain: TAggregateJoin[] = [];
+    let currentMeta = meta;
+    let alias = fromAlias;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+      const found = lookupFieldOrRelation(currentMeta, segment);
+      if (!found) {
+        throw new Error(`Unknown aggregate field "${path}"`);
+      }
+
+      if (found.kind === 'relation') {
+        if (isLast) {
+          throw new Error(
+            `Invalid aggregate field "${path}": must target a column`,
+          );
+        }
+        const nextAlias = `${fromAlias}_${segments.slice(0, i + 1).join('_')}`;
+        const nextMeta = currentMeta.connection.getMetadata(found.type);
+        chain.push({
+          alias: nextAlias,
+          parentAlias: alias,
+          propertyPath: segment,
+          isMany: found.isMany,
+          condition: buildPolicyGuard({
+            meta: nextMeta,
+            alias: nextAlias,
+            readPolicy,
+            paramPrefix: `v${guardIndex++}_`,
+          }),
+        });
+        alias = nextAlias;
+        currentMeta = nextMeta;
+        continue;
+      }
+
+      if (!isLast) {
+        throw new Error(
+          `Invalid aggregate field "${path}": "${segment}" is a field, but path continues`,
+        );
+      }
+
+      return {
+        alias,
+        field: found.propertyName,
+        type: found.type.toLowerCase(),
+        meta: currentMeta,
+        chain,
+      };
+    }
+  };
+
+  const groupBy = toList(aggregate.groupBy).map((path, i) => {
+    const resolved = resolvePath(path);
+    addJoins(resolved.chain);
+    return {
+      sql: `${resolved.alias}.${resolved.field}`,
+      alias: `grp_${i}`,
+      path,
+    };
+  });
+
+  const manyKey = (chain: TAggregateJoin[]) =>
+    chain
+      .filter((join) => join.isMany)
+      .map((join) => join.alias.slice(rootAlias.length))
+      .join(',');
+  const groupedMany = manyKey(joins);
+
+  // `FN(child)` per grouped row, folded with `FN` again (COUNT adds up). The
+  // subquery is tied to the deepest join it shares with the outer query.
+  const perRow = (
+    fn: string,
+    path: string,
+    index: number | string,
+    subParams: Record<string, any>,
+  ) => {
+    const subAlias = `${rootAlias}_agg${index}`;
+    const resolved = resolvePath(path, subAlias);
+    const subQb = meta.connection
+      .createQueryBuilder()
+      .select(`${fn}(${resolved.alias}.${resolved.field})`)
+      .from(meta.target, subAlias);
+    let anchor = '';
+    for (const join of resolved.chain) {
+      subQb.leftJoin(
+        `${join.parentAlias}.${join.propertyPath}`,
+        join.alias,
+        join.condition?.sql,
+        join.condition?.params,
+      );
+      Object.assign(subParams, join.condition?.params);
+      const suffix = join.alias.slice(subAlias.length);
+      if (joins.some((j) => j.alias === `${rootAlias}${suffix}`)) {
+        anchor = suffix;
+      }
+    }
+    subQb.where(`${subAlias}${anchor}.id = ${rootAlias}${anchor}.id`);
+    return `(${subQb.getQuery()})`;
+  };
+
+  // `key` of a path whose to-many joins differ from those of groupBy,
+  // folded from its per row values
+  const combinePerRow = (
+    key: string,
+    path: string,
+    index: number | string,
+    subParams: Record<string, any>,
+  ) => {
+    const fn = AGG_FUNCTIONS[key];
+    if (key === '_avg') {
+      return `SUM(${perRow('SUM', path, index, subParams)}) * 1.0 / NULLIF(SUM(${perRow('COUNT', path, index, subParams)}), 0)`;
+    }
+    const outer = key === '_count' ? 'SUM' : fn;
+    return `${outer}(${perRow(fn, path, index, subParams)})`;
+  };
+
+  let paramIndex = 0;
+  let havingIndex = 0;
+  const params: Record<string, any> = {};
+
+  const compare = (
+    filter: any,
+    currentMeta: EntityMetadata,
+    currentAlias: string,
+    wrapColumn: (column: string) => string,
+    valueType?: string,
+  ) => {
+    const { parts } = walkFilter({
+      filter,
+      currentMeta,
+      currentAlias,
+      paramPrefix: `h${paramIndex++}_`,
+      wrapColumn,
+      valueType,
+    });
+    let sql = '';
+    for (const p of parts) {
+      Object.assign(params, p.params);
+      sql = sql ? `${sql} ${p.operator} ${p.sql}` : p.sql;
+    }
+    return sql;
+  };
+
+  const compileHaving = (having: any, joiner: 'AND' | 'OR'): string => {
+    const items = Array.isArray(having) ? having : [having];
+    const clauses: string[] = [];
+
+    for (const item of items) {
+      if (!item || typeof item !== 'object') continue;
+      const itemClauses: string[] = [];
+
+      for (const key in item) {
+        const val = item[key];
+
+        if (key === '_and' || key === '_or') {
+          const sql = compileHaving(val, key === '_and' ? 'AND' : 'OR');
+          if (sql) itemClauses.push(`(${sql})`);
+          continue;
+        }
+
+        const fn = AGG_FUNCTIONS[key];
+        if (!fn) {
+          throw new Error(`Unsupported having key "${key}"`);
+        }
+
+        if (key === '_count' && isOperatorBlock(val)) {
+          const sql = compare(
+            { id: val },
+            meta,
+            rootAlias,
+            () => `COUNT(DISTINCT ${rootAlias}.id)`,
+            'numeric',
+          );
+          if (sql) itemClauses.push(`(${sql})`);
+          continue;
+        }
+
+        if (!val || typeof val !== 'object') {
+          throw new Error(`Invalid having block for ${key}`);
+        }
+
+        for (const path in val) {
+          const resolved = resolvePath(path);
+          let wrapColumn = (column: string) => `${fn}(${column})`;
+          if (manyKey(resolved.chain) === groupedMany) {
+            addJoins(resolved.chain);
+          } else {
+            const combined = combinePerRow(
+              key,
+              path,
+              `h${havingIndex++}`,
+              params,
+            );
+            wrapColumn = () => combined;
+          }
+          const sql = compare(
+            { [resolved.field]: val[path] },
+            resolved.meta,
+            resolved.alias,
+            wrapColumn,
+            ['_min', '_max'].includes(key) ? undefined : 'numeric',
+          );
+          if (sql) itemClauses.push(`(${sql})`);
+        }
+      }
+
+      if (itemClauses.length) clauses.push(itemClauses.join(' AND '));
+    }
+
+    return clauses
+      .map((c) => (clauses.length > 1 ? `(${c})` : c))
+      .join(` ${joiner} `);
+  };
+
+  const havingSql = aggregate.having
+    ? compileHaving(aggregate.having, 'AND')
+    : '';
+
+  const selects: TAggregateSelect[] = [];
+  for (const key of Object.keys(AGG_FUNCTIONS)) {
+    const paths = toList(aggregate[key]);
+    for (const path of paths) {
+      const alias = `agg_${selects.length}`;
+      if (path === '*') {
+        if (key !== '_count') {
+          throw new Error(`${key} requires a field, got "*"`);
+        }
+        selects.push({
+          sql: `COUNT(DISTINCT ${rootAlias}.id)`,
+          alias,
+          key,
+          // `_count: true` stays a plain number unless other paths are counted
+          ...(paths.length > 1 && { path }),
+          numeric: true,
+        });
+        continue;
+      }
+
+      const resolved = resolvePath(path);
+      const subParams: Record<string, any> = {};
+      let sql: string;
+      if (manyKey(resolved.chain) === groupedMany) {
+        addJoins(resolved.chain);
+        sql = `${AGG_FUNCTIONS[key]}(${resolved.alias}.${resolved.field})`;
+      } else {
+        sql = combinePerRow(key, path, selects.length, subParams);
+      }
+      selects.push({
+        sql,
+        alias,
+        key,
+        path,
+        ...(Object.keys(subParams).length > 0 && { params: subParams }),
+        numeric:
+          !['_min', '_max'].includes(key) ||
+          NUMERIC_TYPES.includes(resolved.type),
+      });
+    }
+  }
+
+  return {
+    joins,
+    selects,
+    groupBy,
+    ...(havingSql && { having: { sql: havingSql, params } }),
+  };
+}
+
+/**
+ * Shape raw aggregate rows: `{ _count, _sum: { price } }` without groupBy,
+ * or one `{ status, _count, _sum: { price } }` entry per group.
+ */
+export function mapAggregateRows(rawRows: any[], plan: TAggregatePlan): any {
+  const mapRow = (raw: any) => {
+    const result: Record<string, any> = {};
+
+    for (const group of plan.groupBy) {
+      result[group.path] = raw?.[group.alias] ?? null;
+    }
+
+    for (const select of plan.selects) {
+      let value = raw?.[select.alias] ?? null;
+      if (value !== null && select.numeric) value = Number(value);
+      if (select.key === '_count' && value === null) value = 0;
+
+      if (!select.path) {
+        result[select.key] = value;
+      } else {
+        result[select.key] = result[select.key] ?? {};
+        result[select.key][select.path] = value;
+      }
+    }
+
+    return result;
+  };
+
+  if (plan.groupBy.length === 0) return mapRow(rawRows[0]);
+  return rawRows.map(mapRow);
+}
@@ -1,4 +1,5 @@
 import { EntityMetadata } from 'typeorm';
+import { TJsonSelect } from './json-path';
 import { lookupFieldOrRelation } from './lookup-field-or-relation';
 import { resolvePathWithJoin } from './resolve-path-with-join';
 
@@ -19,8 +20,20 @@ const OPERATORS = [
   '_contains',
   '_starts_with',
   '_ends_with',
+  '_search',
+  '_ieq',
+  '_icontains',
+  '_istarts_with',
+  '_iends_with',
+  '_unaccent_contains',
+  '_json',
+  '_some',
+  '_none',
+  '_every',
 ];
 
+const QUANTIFIERS = ['_some', '_none', '_every'];
+
 export function buildJoinTree({
   meta,
   fields,
@@ -41,6 +54,7 @@ export function buildJoinTree({
   joinArr: { alias: string; parentAlias: string; propertyPath: string }[];
   selectArr: string[];
   sortArr: { alias: string; field: string; direction: 'ASC' | 'DESC' }[];
+  jsonSelectArr: TJsonSelect[];
 } {
   const joinArr: {
     alias: string;
@@ -53,6 +67,7 @@ export function buildJoinTree({
     field: string;
     direction: 'ASC' | 'DESC';
   }[] = [];
+  const jsonSelectArr: TJsonSelect[] = [];
 
   const addJoin = (path: string[]) => {
     if (path.length === 0) return;
@@ -103,7 +118,19 @@ export function buildJoinTree({
     const res = resolvePathWithJoin({ meta, path, rootAlias, addJoin });
     if (!res) return;
 
-    if (res.lastField.kind === 'field') {
+    if (res.jsonPath) {
+      selectSet.add(`${res.alias}.id`);
+      jsonSelectArr.push({
+        alias: res.alias,
+        relationPath: path.slice(0, path.length - res.jsonPath.length - 1),
+        field: res.lastField.propertyName,
+        columnType: res.lastField.type,
+        jsonPath: res.jsonPath,
+      });
+      log.push?.(
+        `+ Add select (json): ${res.alias}.${res.lastField.propertyName} -> ${res.jsonPath.join('.')}`,
+      );
+    } else if (res.lastField.kind === 'field') {
       selectSet.add(`${res.alias}.${res.lastField.propertyName}`);
       log.push?.(`+ Add select: ${res.alias}.${res.lastField.propertyName}`);
     } else {
@@ -200,6 +227,17 @@ export function buildJoinTree({
         if (!found) continue;
 
         if (found.kind === 'relation') {
+          // Quantifiers compile to EXISTS subqueries with their own joins
+          const val = f[key];
+          if (
+            val &&
+            typeof val === 'object' &&
+            Object.keys(val).length > 0 &&
+            Object.keys(val).every((k) => QUANTIFIERS.includes(k))
+          ) {
+            continue;
+          }
+
           const result = addJoin(path);
           if (result) {
             log.push?.(
@@ -208,7 +246,6 @@ export function buildJoinTree({
           }
 
           const nextMeta = dataSource.getMetadata(found.type);
-          const val = f[key];
           if (typeof val === 'object') {
             extractPathsFromFilter(val, path, nextMeta);
           }
@@ -236,6 +273,9 @@ export function buildJoinTree({
 
     const res = resolvePathWithJoin({ meta, path, rootAlias, addJoin });
     if (!res) continue;
+    if (res.jsonPath) {
+      throw new Error(`Cannot sort by JSON path "${path.join('.')}"`);
+    }
 
     if (res.lastField.kind === 'field') {
       sortArr.push({
@@ -250,5 +290,6 @@ export function buildJoinTree({
     joinArr,
     selectArr: Array.from(selectSet),
     sortArr,
+    jsonSelectArr,
   };
 }
@@ -0,0 +1,108 @@
+import { EntityMetadata } from 'typeorm';
+import { buildJoinTree } from './build-join-tree';
+import { lookupFieldOrRelation } from './lookup-field-or-relation';
+import { parseSortInput } from './parse-sort-input';
+import { TReadPolicy } from './policy-guard';
+
+const isPlainObject = (value: any) =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function collectFilterTables(
+  meta: EntityMetadata,
+  filter: any,
+  tables: Set<string>,
+) {
+  if (Array.isArray(filter)) {
+    for (const item of filter) collectFilterTables(meta, item, tables);
+    return;
+  }
+  if (!isPlainObject(filter)) return;
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (['_and', '_or', '_not'].includes(key)) {
+      collectFilterTables(meta, value, tables);
+      continue;
+    }
+    const found = lookupFieldOrRelation(meta, key);
+    if (found?.kind !== 'relation') continue;
+
+    tables.add(found.type);
+    // Quantifier and aggregate blocks filter the same related table
+    const childMeta = found.relationMeta.inverseEntityMetadata;
+    for (const [childKey, childValue] of Object.entries(value ?? {})) {
+      collectFilterTables(
+        childMeta,
+        childKey.startsWith('_') ? childValue : { [childKey]: childValue },
+        tables,
+      );
+    }
+  }
+}
+
+/**
+ * Every table a query reads: the root table, the tables joined for `fields`,
+ * `filter` and `sort` (including `_some`/`_count` subqueries) and every `deep`
+ * level. Used to invalidate cached results when one of them is written.
+ * With `readPolicy`, the tables the policies of those tables filter on too.
+ */
+export function collectQueryTables({
+  meta,
+  fields,
+  filter,
+  sort,
+  deep,
+  readPolicy,
+}: {
+  meta: EntityMetadata;
+  fields?: string | string[];
+  filter?: any;
+  sort?: string | string[];
+  deep?: Record<string, any>;
+  readPolicy?: TReadPolicy;
+}): string[] {
+  const tables = new Set<string>([meta.tableName]);
+
+  const { joinArr } = buildJoinTree({
+    meta,
+    fields,
+    sort: parseSortInput(sort).map((parsed) => parsed.field),
+    rootAlias: meta.tableName,
+    dataSource: meta.connection,
+  });
+  const metaByAlias = new Map<string, EntityMetadata>([[meta.tableName, meta]]);
+  for (const join of joinArr) {
+    const relation = metaByAlias
+      .get(join.parentAlias)
+      ?.relations.find((r) => r.propertyName === join.propertyPath);
+    if (!relation) continue;
+    metaByAlias.set(join.alias, relation.inverseEntityMetadata);
+    tables.add(relation.inverseEntityMetadata.tableName);
+  }
+
+  collectFilterTables(meta, filter, tables);
+
+  for (const [relationName, deepOptions] of Object.entries(deep ?? {})) {
+    const relation = meta.relations.find(
+      (r) => r.propertyName === relationName,
+    );
+    if (!relation) continue;
+    for (const table of collectQueryTables({
+      meta: relation.inverseEntityMetadata,
+      fields: deepOptions?.fields,
+      filter: deepOptions?.filter,
+      sort: deepOptions?.sort,
+      deep: deepOptions?.deep,
+    })) {
+      tables.add(table);
+    }
+  }
+
+  // Policies are applied once, so the tables they join are not followed
+  for (const table of [...tables]) {
+    const policy = readPolicy?.(table);
+    if (!policy) continue;
+    collectFilterTables(meta.connection.getMetadata(table), policy, tables);
+  }
+
+  return [...tables];
+}
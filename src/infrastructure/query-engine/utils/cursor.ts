@@ -0,0 +1,219 @@
+import { EntityMetadata } from 'typeorm';
+import { ValidationException } from '../../../core/exceptions/custom-exceptions';
+import { lookupFieldOrRelation } from './lookup-field-or-relation';
+import { parseValue } from './parse-value';
+
+const DATE_TYPES = ['date', 'datetime', 'timestamp', 'timestamptz'];
+
+export type TKeysetField = {
+  path: string;
+  alias: string;
+  field: string;
+  type: string;
+  direction: 'ASC' | 'DESC';
+};
+
+function columnType(meta: EntityMetadata, propertyName: string): string {
+  const column = meta.columns.find((c) => c.propertyName === propertyName);
+  const rawType = column?.type;
+  if (typeof rawType === 'string') return rawType.toLowerCase();
+  if (typeof rawType === 'function') return rawType.name.toLowerCase();
+  return 'varchar';
+}
+
+function signature(key: TKeysetField): string {
+  return `${key.direction === 'DESC' ? '-' : ''}${key.path}`;
+}
+
+function getPathValue(row: any, path: string): any {
+  return path.split('.').reduce((obj, key) => obj?.[key], row) ?? null;
+}
+
+/**
+ * Resolve the parsed sort into an ordered keyset. The primary key is always
+ * appended as the final tiebreaker so every row has a unique position.
+ * Aliases follow the naming used by buildJoinTree.
+ */
+export function resolveKeyset({
+  meta,
+  sort,
+  rootAlias,
+}: {
+  meta: EntityMetadata;
+  sort: { field: string; direction: 'ASC' | 'DESC' }[];
+  rootAlias: string;
+}): TKeysetField[] {
+  const keyset: TKeysetField[] = [];
+
+  for (const { field: path, direction } of sort) {
+    const segments = path.split('.');
+    let currentMeta = meta;
+    let alias = rootAlias;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const isLast = i === segments.length - 1;
+      const found = lookupFieldOrRelation(currentMeta, segment);
+      if (!found) {
+        throw new ValidationException(
+          `Cannot paginate by unknown sort field "${path}"`,
+        );
+      }
+
+      if (found.kind === 'relation') {
+        if (found.isMany) {
+          throw new ValidationException(
+            `Cannot paginate by "${path}": "${segment}" is a to-many relation`,
+          );
+        }
+        if (isLast) {
+          throw new ValidationException(
+            `Cannot paginate by "${path}": sort must target a column`,
+          );
+        }
+        alias = `${rootAlias}_${segments.slice(0, i + 1).join('_')}`;
+        currentMeta = currentMeta.connection.getMetadata(found.type);
+        continue;
+      }
+
+      if (!isLast) {
+        throw new ValidationException(
+          `Invalid sort path "${path}": "${segment}" is a field, but path continues`,
+        );
+      }
+
+      if (!keyset.some((k) => k.path === path)) {
+        keyset.push({
+          path,
+          alias,
+          field: found.propertyName,
+          type: columnType(currentMeta, found.propertyName),
+          direction,
+        });
+      }
+    }
+  }
+
+  if (!keyset.some((k) => k.path === 'id')) {
+    keyset.push({
+      path: 'id',
+      alias: rootAlias,
+      field: 'id',
+      type: columnType(meta, 'id'),
+      direction: 'ASC',
+    });
+  }
+
+  return keyset;
+}
+
+/**
+ * Make sure every keyset path is selected so cursors can be built from the
+ * returned rows.
+ */
+export function appendKeysetFields(
+  fields: string | string[] | undefined,
+  keyset: TKeysetField[],
+): string[] {
+  const list = (Array.isArray(fields) ? fields : [fields || ''])
+    .flatMap((f) => String(f).split(','))
+    .map((f) => f.trim())
+    .filter(Boolean);
+  if (list.length === 0) list.push('*');
+
+  for (const key of keyset) {
+    if (!list.includes(key.path)) list.push(key.path);
+  }
+  return list;
+}
+
+export function encodeCursor(row: any, keyset: TKeysetField[]): string {
+  const payload = {
+    k: keyset.map(signature),
+    v: keyset.map((key) => getPathValue(row, key.path)),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, keyset: TKeysetField[]): any[] {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationException('Invalid cursor');
+  }
+
+  if (
+    !Array.isArray(payload?.k) ||
+    !Array.isArray(payload?.v) ||
+    payload.k.join(',') !== keyset.map(signature).join(',')
+  ) {
+    throw new ValidationException('Cursor does not match the current sort');
+  }
+
+  return keyset.map((key, i) => {
+    const value = payload.v[i];
+    if (value === null || value === undefined) return null;
+    return DATE_TYPES.includes(key.type) ? parseValue(key.type, value) : value;
+  });
+}
+
+/**
+ * Keysets treat NULL as smaller than any value, which is how MySQL and SQLite
+ * order it already; Postgres sorts NULL last and has to be told.
+ */
+export function keysetNulls(
+  direction: 'ASC' | 'DESC',
+  dbType: string,
+): 'NULLS FIRST' | 'NULLS LAST' | undefined {
+  if (dbType !== 'postgres') return undefined;
+  return direction === 'ASC' ? 'NULLS FIRST' : 'NULLS LAST';
+}
+
+/**
+ * Build the row-value comparison `(a, b, id) > (x, y, z)` as an OR chain so
+ * it works with mixed sort directions on MySQL, Postgres and SQLite. NULL
+ * sorts first (see keysetNulls), so moving down includes the NULL rows and
+ * moving up from a NULL means any non-NULL value.
+ */
+export function buildKeysetCondition(
+  keyset: TKeysetField[],
+  values: any[],
+  mode: 'after' | 'before',
+): { sql: string; params: Record<string, any> } {
+  const params: Record<string, any> = {};
+  const branches: string[] = [];
+
+  keyset.forEach((key, i) => {
+    params[`cursor_${i}`] = values[i];
+  });
+
+  for (let i = 0; i < keyset.length; i++) {
+    const ascending = (keyset[i].direction === 'ASC') === (mode === 'after');
+    // Nothing sorts before NULL
+    if (values[i] === null && !ascending) continue;
+
+    const conditions = keyset
+      .slice(0, i)
+      .map((prev, j) =>
+        values[j] === null
+          ? `${prev.alias}.${prev.field} IS NULL`
+          : `${prev.alias}.${prev.field} = :cursor_${j}`,
+      );
+
+    const column = `${keyset[i].alias}.${keyset[i].field}`;
+    if (values[i] === null) {
+      conditions.push(`${column} IS NOT NULL`);
+    } else if (ascending) {
+      conditions.push(`${column} > :cursor_${i}`);
+    } else {
+      conditions.push(`(${column} < :cursor_${i} OR ${column} IS NULL)`);
+    }
+    branches.push(`(${conditions.join(' AND ')})`);
+  }
+
+  return {
+    sql: branches.length ? branches.join(' OR ') : '1 = 0',
+    params,
+  };
+}
@@ -0,0 +1,80 @@
+const NOW_OFFSET = /^\$NOW\(\s*([+-]?\d+)\s*([a-z]+?)s?\s*\)$/i;
+const USER_VARIABLE = /^\$(CURRENT_USER|CURRENT_ROLE)((?:\.[A-Za-z0-9_]+)*)$/;
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+function shiftDate(now: Date, amount: number, unit: string): Date {
+  const date = new Date(now.getTime());
+  if (unit === 'month') {
+    date.setMonth(date.getMonth() + amount);
+  } else if (unit === 'year') {
+    date.setFullYear(date.getFullYear() + amount);
+  } else if (UNIT_MS[unit]) {
+    date.setTime(date.getTime() + amount * UNIT_MS[unit]);
+  } else {
+    throw new Error(`Unknown $NOW unit "${unit}"`);
+  }
+  return date;
+}
+
+function resolveVariable(
+  value: string,
+  { user, now }: { user?: any; now: Date },
+): any {
+  if (value === '$NOW') return now.toISOString();
+
+  const offset = value.match(NOW_OFFSET);
+  if (offset) {
+    return shiftDate(
+      now,
+      Number(offset[1]),
+      offset[2].toLowerCase(),
+    ).toISOString();
+  }
+  if (value.startsWith('$NOW(')) {
+    throw new Error(`Invalid $NOW offset "${value}", e.g. $NOW(-7 days)`);
+  }
+
+  const variable = value.match(USER_VARIABLE);
+  if (variable) {
+    // Anonymous requests resolve to null, which matches no row
+    const root = variable[1] === 'CURRENT_USER' ? user : user?.role;
+    const path = variable[2] ? variable[2].slice(1).split('.') : ['id'];
+    const resolved = path.reduce((current, key) => current?.[key], root);
+    return resolved ?? null;
+  }
+
+  return value;
+}
+
+/**
+ * Replace `$CURRENT_USER`, `$CURRENT_USER.role.id`, `$CURRENT_ROLE`, `$NOW`
+ * and `$NOW(-7 days)` anywhere in a filter (or deep/aggregate options) with
+ * their values. Only whole string values are replaced.
+ */
+export function resolveFilterVariables<T>(
+  input: T,
+  { user, now = new Date() }: { user?: any; now?: Date },
+): T {
+  const visit = (value: any): any => {
+    if (typeof value === 'string') {
+      return value.startsWith('$')
+        ? resolveVariable(value, { user, now })
+        : value;
+    }
+    if (Array.isArray(value)) return value.map(visit);
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, visit(item)]),
+      );
+    }
+    return value;
+  };
+  return visit(input);
+}
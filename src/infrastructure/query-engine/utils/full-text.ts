@@ -0,0 +1,144 @@
+import { EntityMetadata } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+
+export type TFullTextSearch = {
+  sql: string;
+  params: Record<string, any>;
+  relevance: string;
+};
+
+/**
+ * Full-text indexes declared on the entity. They use `synchronize: false`,
+ * which leaves `index.columns` unbuilt, so columns are resolved by name.
+ */
+export function getFullTextIndexes(
+  meta: EntityMetadata,
+): { name: string; columns: ColumnMetadata[] }[] {
+  return meta.indices
+    .filter((index) => index.isFulltext)
+    .map((index) => {
+      const names = Array.isArray(index.givenColumnNames)
+        ? index.givenColumnNames
+        : [];
+      return {
+        name: index.name,
+        columns: index.columns.length
+          ? index.columns
+          : names
+              .map((name) => meta.findColumnWithPropertyPath(name.trim()))
+              .filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Columns of the first full-text index, used by the entity-level
+ * `{ _search: 'query' }` form.
+ */
+export function getFullTextColumns(meta: EntityMetadata): string[] {
+  const [index] = getFullTextIndexes(meta);
+  return index ? index.columns.map((col) => col.propertyName) : [];
+}
+
+// unaccent() is only STABLE, which expression indexes reject
+export const POSTGRES_IMMUTABLE_UNACCENT_SQL = `
+  CREATE OR REPLACE FUNCTION immutable_unaccent(input TEXT) RETURNS TEXT
+  AS $$ SELECT public.unaccent('public.unaccent', input) $$
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+`;
+
+/**
+ * Postgres text search document for a set of columns. The migration
+ * generator builds its GIN index from the same expression so the planner
+ * can use it.
+ */
+export function buildPostgresTsVector(columns: string[]): string {
+  const document = columns
+    .map((column) => `coalesce(${column}, '')`)
+    .join(` || ' ' || `);
+  return `to_tsvector('simple', immutable_unaccent(${document}))`;
+}
+
+/**
+ * Convert a websearch style query (`apple -banana "red fruit"`) to MySQL
+ * boolean mode, where every term is required unless negated.
+ */
+export function toMysqlBooleanQuery(query: string): string {
+  const tokens = query.match(/-?"[^"]*"|\S+/g) ?? [];
+  return tokens
+    .map((token) => {
+      const negated = token.startsWith('-');
+      const body = negated ? token.slice(1) : token;
+      const phrase = body.startsWith('"');
+      const cleaned = body.replace(/[+\-<>()~*"@]/g, ' ').trim();
+      if (!cleaned) return null;
+      const term = phrase ? `"${cleaned}"` : cleaned.split(/\s+/).join(' +');
+      return `${negated ? '-' : '+'}${term}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Compile a `_search` condition on one or more columns of `alias`, together
+ * with the expression used to rank rows for `sort=_relevance`.
+ */
+export function buildFullTextSearch({
+  meta,
+  alias,
+  columns,
+  query,
+  paramKey,
+}: {
+  meta: EntityMetadata;
+  alias: string;
+  columns: string[];
+  query: string;
+  paramKey: string;
+}): TFullTextSearch | null {
+  const text = String(query ?? '').trim();
+  if (!text || columns.length === 0) return null;
+
+  const qualified = columns.map((column) => `${alias}.${column}`);
+  const dbType = meta.connection.driver.options.type;
+
+  if (dbType === 'mysql' || dbType === 'mariadb') {
+    const booleanQuery = toMysqlBooleanQuery(text);
+    if (!booleanQuery) return null;
+    const match = `MATCH(${qualified.join(', ')}) AGAINST (unaccent(:${paramKey}) IN BOOLEAN MODE)`;
+    return {
+      sql: match,
+      params: { [paramKey]: booleanQuery },
+      relevance: match,
+    };
+  }
+
+  if (dbType === 'postgres') {
+    const vector = buildPostgresTsVector(qualified);
+    const tsQuery = `websearch_to_tsquery('simple', immutable_unaccent(:${paramKey}))`;
+    return {
+      sql: `${vector} @@ ${tsQuery}`,
+      params: { [paramKey]: text },
+      relevance: `ts_rank(${vector}, ${tsQuery})`,
+    };
+  }
+
+  // No full-text engine (e.g. SQLite): every term must appear in any column
+  const params: Record<string, any> = {};
+  const conditions = (text.match(/-?"[^"]*"|\S+/g) ?? [])
+    .map((token, i) => {
+      const negated = token.startsWith('-');
+      const term = token.replace(/^-/, '').replace(/"/g, '').trim();
+      if (!term) return null;
+      const key = `${paramKey}_${i}`;
+      params[key] = term;
+      const anyColumn = qualified
+        .map((column) => `${column} LIKE '%' || :${key} || '%'`)
+        .join(' OR ');
+      return negated ? `NOT (${anyColumn})` : `(${anyColumn})`;
+    })
+    .filter(Boolean);
+  if (conditions.length === 0) return null;
+
+  return { sql: conditions.join(' AND '), params, relevance: '0' };
+}
@@ -0,0 +1,84 @@
+import { EntityMetadata } from 'typeorm';
+import { TRowAccess } from '../../../shared/utils/row-policy';
+
+/**
+ * Relations joined through `fields` bypass the root filter, so rows of
+ * policy-limited tables are checked after loading: hidden to-one relations
+ * become null and hidden to-many items are dropped. A bare `{ id }` of an
+ * owning relation is the parent's own foreign key and is kept.
+ */
+export async function hidePolicyRows({
+  meta,
+  rows,
+  access,
+  loadVisibleIds,
+}: {
+  meta: EntityMetadata;
+  rows: any[];
+  access: TRowAccess;
+  loadVisibleIds: (tableName: string, ids: any[]) => Promise<any[]>;
+}) {
+  const isForeignKey = (relation: any, value: any) =>
+    relation.isOwning &&
+    !relation.isManyToMany &&
+    Object.keys(value).every((key) => key === 'id');
+
+  const walk = (
+    currentMeta: EntityMetadata,
+    items: any[],
+    visit: (relation: any, value: any) => void,
+  ) => {
+    for (const item of items) {
+      if (!item || typeof item !== 'object') continue;
+      for (const relation of currentMeta.relations) {
+        const value = item[relation.propertyName];
+        if (!value || typeof value !== 'object') continue;
+        visit(relation, item);
+        walk(
+          relation.inverseEntityMetadata,
+          Array.isArray(value) ? value : [value],
+          visit,
+        );
+      }
+    }
+  };
+
+  const candidates = new Map<string, Set<any>>();
+  walk(meta, rows, (relation, item) => {
+    const tableName = relation.inverseEntityMetadata.tableName;
+    if (!access.filter(tableName, 'read')) return;
+    const value = item[relation.propertyName];
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child?.id == null || isForeignKey(relation, child)) continue;
+      if (!candidates.has(tableName)) candidates.set(tableName, new Set());
+      candidates.get(tableName).add(child.id);
+    }
+  });
+  if (candidates.size === 0) return;
+
+  const visible = new Map<string, Set<string>>();
+  for (const [tableName, ids] of candidates) {
+    const visibleIds = await loadVisibleIds(tableName, [...ids]);
+    visible.set(tableName, new Set(visibleIds.map(String)));
+  }
+
+  const isHidden = (relation: any, child: any) => {
+    const ids = visible.get(relation.inverseEntityMetadata.tableName);
+    return (
+      !!ids &&
+      child?.id != null &&
+      !isForeignKey(relation, child) &&
+      !ids.has(String(child.id))
+    );
+  };
+  walk(meta, rows, (relation, item) => {
+    const value = item[relation.propertyName];
+    if (Array.isArray(value)) {
+      item[relation.propertyName] = value.filter(
+        (child) => !isHidden(relation, child),
+      );
+    } else if (isHidden(relation, value)) {
+      item[relation.propertyName] = null;
+    }
+  });
+}
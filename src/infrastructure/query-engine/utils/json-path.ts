@@ -0,0 +1,149 @@
+import { DataSource } from 'typeorm';
+import { DriverUtils } from 'typeorm/driver/DriverUtils';
+
+const JSON_COLUMN_TYPES = ['simple-json', 'json', 'jsonb'];
+
+export type TJsonSelect = {
+  alias: string;
+  // Relations walked from the root entity to reach `alias`
+  relationPath: string[];
+  field: string;
+  columnType: string;
+  jsonPath: string[];
+};
+
+export function isJsonColumnType(type: string): boolean {
+  return JSON_COLUMN_TYPES.includes(String(type).toLowerCase());
+}
+
+function assertJsonPath(jsonPath: string[]) {
+  if (jsonPath.length === 0) {
+    throw new Error('JSON path must not be empty');
+  }
+  for (const key of jsonPath) {
+    // Keys end up inside SQL string literals, so only plain names are allowed
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && !/^\d+$/.test(key)) {
+      throw new Error(`Invalid JSON path key "${key}"`);
+    }
+  }
+}
+
+/**
+ * SQL expression reading `jsonPath` out of a JSON column. `text` returns the
+ * unquoted scalar (for comparisons), `json` the JSON encoded value (for
+ * projections), `numeric` a number.
+ */
+export function buildJsonExtract({
+  dbType,
+  column,
+  columnType,
+  jsonPath,
+  as = 'text',
+}: {
+  dbType: string;
+  column: string;
+  columnType: string;
+  jsonPath: string[];
+  as?: 'text' | 'json' | 'numeric';
+}): string {
+  assertJsonPath(jsonPath);
+
+  if (dbType === 'postgres') {
+    // simple-json is stored as text
+    const base = ['json', 'jsonb'].includes(columnType)
+      ? column
+      : `CAST(${column} AS jsonb)`;
+    const steps = jsonPath.map((key) => (/^\d+$/.test(key) ? key : `'${key}'`));
+    const parents = steps
+      .slice(0, -1)
+      .map((step) => ` -> ${step}`)
+      .join('');
+    const last = steps[steps.length - 1];
+    if (as === 'json') return `CAST(${base}${parents} -> ${last} AS text)`;
+    const text = `(${base}${parents} ->> ${last})`;
+    return as === 'numeric' ? `CAST(${text} AS numeric)` : text;
+  }
+
+  const path =
+    '$' +
+    jsonPath
+      .map((key) => (/^\d+$/.test(key) ? `[${key}]` : `.${key}`))
+      .join('');
+
+  if (dbType === 'sqlite') {
+    return as === 'json'
+      ? `(${column} -> '${path}')`
+      : `json_extract(${column}, '${path}')`;
+  }
+
+  const extract = `JSON_EXTRACT(${column}, '${path}')`;
+  if (as === 'json') return `CAST(${extract} AS CHAR)`;
+  // JSON numbers compare as numbers without unquoting
+  return as === 'numeric' ? extract : `JSON_UNQUOTE(${extract})`;
+}
+
+/**
+ * Copy the projected JSON paths from the raw rows onto the loaded entities,
+ * e.g. `fields=settings.theme` gives `{ settings: { theme: 'dark' } }`.
+ */
+export function applyJsonSelects({
+  dataSource,
+  entities,
+  raw,
+  selects,
+}: {
+  dataSource: DataSource;
+  entities: any[];
+  raw: any[];
+  selects: (TJsonSelect & { rawAlias: string })[];
+}) {
+  for (const select of selects) {
+    const idKey = DriverUtils.buildAlias(
+      dataSource.driver,
+      undefined,
+      select.alias,
+      'id',
+    );
+    const values = new Map<string, any>();
+    for (const row of raw) {
+      const id = row[idKey];
+      if (id === null || id === undefined) continue;
+      const value = row[select.rawAlias];
+      values.set(
+        String(id),
+        value === null || value === undefined
+          ? null
+          : typeof value === 'string'
+            ? JSON.parse(value)
+            : value,
+      );
+    }
+
+    const visit = (entity: any, relationPath: string[]) => {
+      if (!entity) return;
+      if (Array.isArray(entity)) {
+        for (const item of entity) visit(item, relationPath);
+        return;
+      }
+      if (relationPath.length > 0) {
+        visit(entity[relationPath[0]], relationPath.slice(1));
+        return;
+      }
+      if (!values.has(String(entity.id))) return;
+
+      let target =
+        entity[select.field] && typeof entity[select.field] === 'object'
+          ? entity[select.field]
+          : (entity[select.field] = {});
+      for (const key of select.jsonPath.slice(0, -1)) {
+        if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+        target = target[key];
+      }
+      target[select.jsonPath[select.jsonPath.length - 1]] = values.get(
+        String(entity.id),
+      );
+    };
+
+    visit(entities, select.relationPath);
+  }
+}
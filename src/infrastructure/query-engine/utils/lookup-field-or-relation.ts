@@ -1,11 +1,18 @@
 import { EntityMetadata } from 'typeorm';
 import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import { isJsonColumnType } from './json-path';
 
 export function lookupFieldOrRelation(
   meta: EntityMetadata,
   property: string,
 ):
-  | { kind: 'field'; propertyName: string; type: string }
+  | {
+      kind: 'field';
+      propertyName: string;
+      type: string;
+      // Paths may continue into the column, e.g. `settings.theme`
+      isJson: boolean;
+    }
   | {
       kind: 'relation';
       propertyName: string;
@@ -53,6 +60,7 @@ export function lookupFieldOrRelation(
       kind: 'field',
       propertyName: column.propertyName,
       type: String(column.type),
+      isJson: isJsonColumnType(String(column.type)),
     };
   }
 
@@ -1,6 +1,9 @@
 export function parseSortInput(sort?: string | string[]) {
   if (!sort) return [];
-  const arr = Array.isArray(sort) ? sort : [sort];
+  const arr = (Array.isArray(sort) ? sort : [sort])
+    .flatMap((s) => (typeof s === 'string' ? s.split(',') : [s]))
+    .map((s) => (typeof s === 'string' ? s.trim() : s))
+    .filter(Boolean);
   return arr.map((s) => {
     if (typeof s === 'string' && s.startsWith('-')) {
       return { field: s.substring(1), direction: 'DESC' as const };
@@ -0,0 +1,64 @@
+import { Brackets, EntityMetadata } from 'typeorm';
+import { buildJoinTree } from './build-join-tree';
+import { walkFilter } from './walk-filter';
+
+// A table's read policy with its variables resolved; undefined when the
+// user may read every row of it
+export type TReadPolicy = (tableName: string) => any;
+
+/**
+ * `alias.id IN (...)`, keeping a joined table to the rows its read policy
+ * lets through, so a filter or aggregate can't reach hidden rows. The tables
+ * a policy joins are not limited again. Undefined when there is no policy.
+ */
+export function buildPolicyGuard({
+  meta,
+  alias,
+  readPolicy,
+  paramPrefix,
+}: {
+  meta: EntityMetadata;
+  alias: string;
+  readPolicy?: TReadPolicy;
+  paramPrefix: string;
+}): { sql: string; params: Record<string, any> } | undefined {
+  const policy = readPolicy?.(meta.tableName);
+  if (!policy) return undefined;
+
+  const dataSource = meta.connection;
+  const guardAlias = `${alias}_visible`;
+  const { joinArr } = buildJoinTree({
+    meta,
+    fields: [],
+    filter: policy,
+    rootAlias: guardAlias,
+    dataSource,
+  });
+  const { parts } = walkFilter({
+    filter: policy,
+    currentMeta: meta,
+    currentAlias: guardAlias,
+    paramPrefix,
+  });
+
+  const guardQb = dataSource
+    .createQueryBuilder(meta.target, guardAlias)
+    .select(`${guardAlias}.id`);
+  for (const join of joinArr) {
+    guardQb.leftJoin(`${join.parentAlias}.${join.propertyPath}`, join.alias);
+  }
+  if (parts.length > 0) {
+    guardQb.where(
+      new Brackets((qb) => {
+        for (const p of parts) {
+          if (p.operator === 'AND') qb.andWhere(p.sql, p.params);
+          else qb.orWhere(p.sql, p.params);
+        }
+      }),
+    );
+  }
+  return {
+    sql: `${alias}.id IN (${guardQb.getQuery()})`,
+    params: guardQb.getParameters(),
+  };
+}
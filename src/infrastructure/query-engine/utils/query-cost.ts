@@ -0,0 +1,198 @@
+import { EntityMetadata } from 'typeorm';
+import { QueryCostExceededException } from '../../../core/exceptions/custom-exceptions';
+import { buildJoinTree } from './build-join-tree';
+import { parseSortInput } from './parse-sort-input';
+
+export type TQueryCostLimits = {
+  // Rows per page, at the root and in `deep`; 0 disables a limit
+  maxLimit: number;
+  // Joins across the root query and every deep level
+  maxJoins: number;
+  // Longest relation path, e.g. `author.company.country` is 3
+  maxJoinDepth: number;
+  // Nesting of `deep` options
+  maxDeepDepth: number;
+  // Estimated rows read, see analyzeQueryCost()
+  maxCost: number;
+};
+
+export type TQueryCost = {
+  limit: number;
+  joins: number;
+  joinDepth: number;
+  deepDepth: number;
+  cost: number;
+};
+
+export const DEFAULT_QUERY_COST_LIMITS: TQueryCostLimits = {
+  maxLimit: 1000,
+  maxJoins: 20,
+  maxJoinDepth: 5,
+  maxDeepDepth: 3,
+  maxCost: 100000,
+};
+
+// Row estimates for reads without a limit
+const UNBOUNDED_ROWS = 10000;
+const UNBOUNDED_CHILD_ROWS = 100;
+
+const toLimit = (value: any) => {
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit > 0 ? limit : 0;
+};
+
+function analyzeLevel({
+  meta,
+  fields,
+  filter,
+  sort,
+  deep,
+  rows,
+  depth,
+}: {
+  meta: EntityMetadata;
+  fields?: string | string[];
+  filter?: any;
+  sort?: string | string[];
+  deep?: Record<string, any>;
+  rows: number;
+  depth: number;
+}): Omit<TQueryCost, 'limit'> & { maxLimit: number } {
+  const { joinArr } = buildJoinTree({
+    meta,
+    fields,
+    filter,
+    sort: parseSortInput(sort).map((parsed) => parsed.field),
+    rootAlias: meta.tableName,
+    dataSource: meta.connection,
+  });
+
+  const depthByAlias = new Map<string, number>([[meta.tableName, 0]]);
+  for (const join of joinArr) {
+    depthByAlias.set(join.alias, (depthByAlias.get(join.parentAlias) ?? 0) + 1);
+  }
+
+  const result = {
+    joins: joinArr.length,
+    joinDepth: Math.max(0, ...depthByAlias.values()),
+    deepDepth: depth,
+    // Every joined table is read once per row
+    cost: rows * (1 + joinArr.length),
+    maxLimit: 0,
+  };
+
+  for (const [relationName, deepOptions] of Object.entries(deep ?? {})) {
+    const relation = meta.relations.find(
+      (r) => r.propertyName === relationName,
+    );
+    if (!relation) continue;
+
+    const limit = toLimit(deepOptions?.limit);
+    const perParent =
+      relation.isOneToMany || relation.isManyToMany
+        ? limit || UNBOUNDED_CHILD_ROWS
+        : 1;
+    const child = analyzeLevel({
+      meta: relation.inverseEntityMetadata,
+      fields: deepOptions?.fields,
+      filter: deepOptions?.filter,
+      sort: deepOptions?.sort,
+      deep: deepOptions?.deep,
+      rows: rows * perParent,
+      depth: depth + 1,
+    });
+
+    result.joins += child.joins;
+    result.joinDepth = Math.max(result.joinDepth, child.joinDepth);
+    result.deepDepth = Math.max(result.deepDepth, child.deepDepth);
+    result.cost += child.cost;
+    result.maxLimit = Math.max(result.maxLimit, limit, child.maxLimit);
+  }
+
+  return result;
+}
+
+/**
+ * Estimate how expensive a query is before any SQL is built: the joins
+ * buildJoinTree() would add, the `deep` nesting, and a cost score of the
+ * rows read, i.e. page size × (1 + joins), summed over every deep level.
+ * A missing limit counts as a large fixed number of rows.
+ */
+export function analyzeQueryCost({
+  meta,
+  fields,
+  filter,
+  sort,
+  deep,
+  limit,
+}: {
+  meta: EntityMetadata;
+  fields?: string | string[];
+  filter?: any;
+  sort?: string | string[];
+  deep?: Record<string, any>;
+  limit?: number | string;
+}): TQueryCost & { maxDeepLimit: number } {
+  const rootLimit = toLimit(limit);
+  const { maxLimit, ...level } = analyzeLevel({
+    meta,
+    fields,
+    filter,
+    sort,
+    deep,
+    rows: rootLimit || UNBOUNDED_ROWS,
+    depth: 0,
+  });
+  return { limit: rootLimit, ...level, maxDeepLimit: maxLimit };
+}
+
+/**
+ * Throw a QueryCostExceededException listing every limit the query is over.
+ */
+export function assertQueryCost(
+  cost: ReturnType<typeof analyzeQueryCost>,
+  limits: TQueryCostLimits,
+) {
+  const exceeded: {
+    limit: keyof TQueryCostLimits;
+    max: number;
+    actual: any;
+  }[] = [];
+  const check = (limit: keyof TQueryCostLimits, actual: number) => {
+    if (limits[limit] > 0 && actual > limits[limit]) {
+      exceeded.push({ limit, max: limits[limit], actual });
+    }
+  };
+
+  if (limits.maxLimit > 0 && cost.limit === 0) {
+    exceeded.push({ limit: 'maxLimit', max: limits.maxLimit, actual: 'none' });
+  } else {
+    check('maxLimit', cost.limit);
+  }
+  check('maxLimit', cost.maxDeepLimit);
+  check('maxJoins', cost.joins);
+  check('maxJoinDepth', cost.joinDepth);
+  check('maxDeepDepth', cost.deepDepth);
+  check('maxCost', cost.cost);
+
+  if (exceeded.length > 0) {
+    throw new QueryCostExceededException(exceeded, cost);
+  }
+}
+
+/**
+ * Role limits from `role_definition.queryLimits` over the defaults. Unset
+ * keys keep their default; 0 disables a check.
+ */
+export function resolveQueryCostLimits(role?: {
+  queryLimits?: Partial<TQueryCostLimits> | null;
+}): TQueryCostLimits {
+  const limits = { ...DEFAULT_QUERY_COST_LIMITS };
+  for (const key of Object.keys(limits) as (keyof TQueryCostLimits)[]) {
+    const value = role?.queryLimits?.[key];
+    if (value !== undefined && value !== null && !isNaN(Number(value))) {
+      limits[key] = Number(value);
+    }
+  }
+  return limits;
+}
@@ -0,0 +1,182 @@
+import { EntityMetadata } from 'typeorm';
+import { AuthorizationException } from '../../../core/exceptions/custom-exceptions';
+import { TFieldAccess } from '../../../shared/utils/field-permission';
+import { getFullTextColumns } from './full-text';
+import { lookupFieldOrRelation } from './lookup-field-or-relation';
+import { parseSortInput } from './parse-sort-input';
+
+const AGGREGATE_KEYS = ['_count', '_sum', '_avg', '_min', '_max', 'groupBy'];
+
+function toPaths(value: any): string[] {
+  if (value === undefined || value === null || typeof value === 'boolean') {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v).split(','))
+    .map((v) => v.trim())
+    .filter((v) => v && v !== '*');
+}
+
+/**
+ * Filters, sorts and aggregates on a field reveal its values, so they are
+ * refused when the user cannot read the field. Unreadable `deep` relations
+ * are dropped like unreadable `fields`, which are stripped from the rows.
+ * Returns the `deep` left to load.
+ */
+export function restrictQuery({
+  meta,
+  filter,
+  sort,
+  aggregate,
+  deep,
+  access,
+}: {
+  meta: EntityMetadata;
+  filter?: any;
+  sort?: string | string[];
+  aggregate?: any;
+  deep?: Record<string, any>;
+  access: TFieldAccess;
+}): Record<string, any> {
+  const denied: string[] = [];
+  const canRead = (currentMeta: EntityMetadata, key: string) =>
+    access.can(currentMeta.tableName, key, 'read');
+  const metaOf = (currentMeta: EntityMetadata, tableName: string) =>
+    currentMeta.connection.getMetadata(tableName);
+
+  const checkFilter = (f: any, currentMeta: EntityMetadata, path: string[]) => {
+    if (Array.isArray(f)) {
+      for (const item of f) checkFilter(item, currentMeta, path);
+      return;
+    }
+    if (!f || typeof f !== 'object') return;
+
+    for (const key of Object.keys(f)) {
+      // `_search` matches every column of the full-text index
+      if (key === '_search') {
+        for (const column of getFullTextColumns(currentMeta)) {
+          if (!canRead(currentMeta, column)) {
+            denied.push([...path, column].join('.'));
+          }
+        }
+        continue;
+      }
+      // Logical operators, quantifiers and relation aggregates stay on the
+      // same table; operators on a field are never walked into
+      if (key.startsWith('_')) {
+        checkFilter(f[key], currentMeta, path);
+        continue;
+      }
+      const found = lookupFieldOrRelation(currentMeta, key);
+      if (!found) continue;
+      if (!canRead(currentMeta, key)) {
+        denied.push([...path, key].join('.'));
+        continue;
+      }
+      if (found.kind === 'relation') {
+        checkFilter(f[key], metaOf(currentMeta, found.type), [...path, key]);
+      }
+    }
+  };
+
+  const checkPath = (
+    fieldPath: string,
+    currentMeta = meta,
+    prefix: string[] = [],
+  ) => {
+    const segments = fieldPath.split('.');
+    for (const [i, segment] of segments.entries()) {
+      const found = lookupFieldOrRelation(currentMeta, segment);
+      if (!found) return;
+      if (!canRead(currentMeta, segment)) {
+        denied.push([...prefix, ...segments.slice(0, i + 1)].join('.'));
+        return;
+      }
+      if (found.kind === 'field') return;
+      currentMeta = metaOf(currentMeta, found.type);
+    }
+  };
+
+  const checkSort = (
+    input: any,
+    currentMeta: EntityMetadata,
+    prefix: string[] = [],
+  ) => {
+    for (const { field } of parseSortInput(input)) {
+      if (typeof field === 'string' && field !== '_relevance') {
+        checkPath(field, currentMeta, prefix);
+      }
+    }
+  };
+
+  // `having` blocks map paths to operators, `_count` may also take the
+  // operators directly; `_and`/`_or` nest further blocks
+  const checkHaving = (having: any) => {
+    for (const item of Array.isArray(having) ? having : [having]) {
+      if (!item || typeof item !== 'object') continue;
+      for (const [key, value] of Object.entries<any>(item)) {
+        if (key === '_and' || key === '_or') {
+          checkHaving(value);
+          continue;
+        }
+        if (!value || typeof value !== 'object') continue;
+        for (const path of Object.keys(value)) {
+          if (!path.startsWith('_')) checkPath(path);
+        }
+      }
+    }
+  };
+
+  const restrictDeep = (
+    input: Record<string, any> | undefined,
+    currentMeta: EntityMetadata,
+    path: string[] = [],
+  ): Record<string, any> => {
+    if (!input || typeof input !== 'object') return input ?? {};
+    const allowed: Record<string, any> = {};
+    for (const [relationName, options] of Object.entries(input)) {
+      const found = lookupFieldOrRelation(currentMeta, relationName);
+      if (found?.kind === 'relation' && !canRead(currentMeta, relationName)) {
+        continue;
+      }
+      if (
+        found?.kind !== 'relation' ||
+        !options ||
+        typeof options !== 'object'
+      ) {
+        allowed[relationName] = options;
+        continue;
+      }
+      const childMeta = metaOf(currentMeta, found.type);
+      const childPath = [...path, relationName];
+      checkFilter(options.filter, childMeta, childPath);
+      checkSort(options.sort, childMeta, childPath);
+      allowed[relationName] = {
+        ...options,
+        ...(options.deep && {
+          deep: restrictDeep(options.deep, childMeta, childPath),
+        }),
+      };
+    }
+    return allowed;
+  };
+
+  checkFilter(filter, meta, []);
+  checkSort(sort, meta);
+  if (aggregate && typeof aggregate === 'object') {
+    for (const key of AGGREGATE_KEYS) {
+      for (const path of toPaths(aggregate[key])) checkPath(path);
+    }
+    checkHaving(aggregate.having);
+  }
+  const allowedDeep = restrictDeep(deep, meta);
+
+  if (denied.length > 0) {
+    const fields = [...new Set(denied)];
+    throw new AuthorizationException(
+      `Not allowed to read ${fields.join(', ')} of ${meta.tableName}`,
+      { fields },
+    );
+  }
+  return allowedDeep;
+}
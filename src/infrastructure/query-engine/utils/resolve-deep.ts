@@ -1,15 +1,48 @@
+import { Brackets, QueryRunner } from 'typeorm';
+import { TFieldAccess } from '../../../shared/utils/field-permission';
+import { andFilters, TRowAccess } from '../../../shared/utils/row-policy';
 import { QueryEngine } from '../services/query-engine.service';
+import { buildJoinTree } from './build-join-tree';
+import { keysetNulls, resolveKeyset } from './cursor';
+import { resolveFilterVariables } from './filter-variables';
+import { parseSortInput } from './parse-sort-input';
+import { walkFilter } from './walk-filter';
 
+const PARENT_ALIAS = 'deep_parent';
+
+/**
+ * Load `deep` relations for all rows at once: one window-function query picks
+ * the child ids per parent (honouring per-parent sort/page/limit), then a
+ * single find loads those children, recursing into the next level.
+ */
 export async function resolveDeepRelations(options: {
   queryEngine: QueryEngine;
   rows: any[];
   metaData: any;
   deep: Record<string, any>;
   log?: string[];
+  queryRunner?: QueryRunner;
+  // Resolves `$CURRENT_USER` in row policies
+  user?: any;
+  fieldAccess?: TFieldAccess;
+  rowAccess?: TRowAccess;
 }) {
-  const { queryEngine, rows, metaData, deep, log = [] } = options;
+  const {
+    queryEngine,
+    rows,
+    metaData,
+    deep,
+    log = [],
+    queryRunner,
+    user,
+    fieldAccess,
+    rowAccess,
+  } = options;
 
   const metaDeep: Record<string, any[]> = {};
+  const parentIds = [
+    ...new Set(rows.map((row) => row.id).filter((id) => id != null)),
+  ];
 
   await Promise.all(
     Object.entries(deep).map(async ([relationName, deepOptions]) => {
@@ -18,22 +51,8 @@ export async function resolveDeepRelations(options: {
       );
       if (!relationMeta) return;
 
-      const childTable = relationMeta.inverseEntityMetadata.tableName;
-      const isInverse = !!relationMeta.inverseRelation;
-
-      const joinColumn = isInverse
-        ? (relationMeta.inverseRelation?.joinColumns?.[0] ??
-          relationMeta.inverseRelation?.inverseJoinColumns?.[0])
-        : relationMeta.joinColumns?.[0];
-
-      if (!joinColumn?.propertyName) {
-        log.push(
-          `! Deep relation "${relationName}" skipped due to unable to determine foreignKey`,
-        );
-        return;
-      }
-
-      const foreignKey = joinColumn.propertyName;
+      const childMeta = relationMeta.inverseEntityMetadata;
+      const childTable = childMeta.tableName;
 
       const fields: string[] = Array.isArray(deepOptions?.fields)
         ? [...deepOptions.fields]
@@ -41,42 +60,237 @@ export async function resolveDeepRelations(options: {
           ? deepOptions.fields.split(',')
           : ['*'];
 
-      const metaList: any[] = [];
+      for (const row of rows) row[relationName] = [];
+      if (parentIds.length === 0) return;
+
+      try {
+        const dataSource = childMeta.connection;
+        const limit = Number(deepOptions?.limit) || 0;
+        const page = Number(deepOptions?.page) || 1;
+        const keyset = resolveKeyset({
+          meta: childMeta,
+          sort: parseSortInput(deepOptions?.sort),
+          rootAlias: childTable,
+        });
+
+        // === Child ids per parent, ranked by the requested sort ===
+        // Joined from the parent side so relations without an inverse work too
+        const rankedQb = () =>
+          dataSource
+            .createQueryBuilder(metaData.target, PARENT_ALIAS, queryRunner)
+            .innerJoin(`${PARENT_ALIAS}.${relationName}`, childTable)
+            .where(`${PARENT_ALIAS}.id IN (:...deepParentIds)`, {
+              deepParentIds: parentIds,
+            });
+
+        // Children hidden by a policy are neither ranked nor counted
+        const policy = resolveFilterVariables(
+          rowAccess?.filter(childTable, 'read'),
+          { user },
+        );
+        const childFilter = andFilters(deepOptions?.filter, policy);
+        const readPolicy = rowAccess
+          ? (table: string) =>
+              resolveFilterVariables(rowAccess.filter(table, 'read'), { user })
+          : undefined;
+        const applyFilter = (qb: any, filter: any) => {
+          if (!filter) return;
+          const { joinArr } = buildJoinTree({
+            meta: childMeta,
+            fields: ['id'],
+            filter,
+            rootAlias: childTable,
+            dataSource,
+          });
+          const { parts } = walkFilter({
+            filter,
+            currentMeta: childMeta,
+            currentAlias: childTable,
+            readPolicy,
+          });
+          if (parts.length === 0) return;
+
+          // Filter in a subquery so filter joins don't duplicate ranked rows
+          const filterQb = dataSource
+            .createQueryBuilder(childMeta.target, childTable, queryRunner)
+            .select(`${childTable}.id`);
+          for (const join of joinArr) {
+            filterQb.leftJoin(
+              `${join.parentAlias}.${join.propertyPath}`,
+              join.alias,
+            );
+          }
+          filterQb.where(
+            new Brackets((qb2) => {
+              for (const p of parts) {
+                if (p.operator === 'AND') {
+                  qb2.andWhere(p.sql, p.params);
+                } else {
+                  qb2.orWhere(p.sql, p.params);
+                }
+              }
+            }),
+          );
+          qb.andWhere(
+            `${childTable}.id IN (${filterQb.getQuery()})`,
+            filterQb.getParameters(),
+          );
+        };
+
+        const windowQb = rankedQb();
+        const sortJoins = new Map<string, string>();
+        for (const key of keyset) {
+          const segments = key.path.split('.').slice(0, -1);
+          segments.forEach((segment, i) => {
+            const alias = `${childTable}_${segments.slice(0, i + 1).join('_')}`;
+            const parentAlias =
+              i === 0
+                ? childTable
+                : `${childTable}_${segments.slice(0, i).join('_')}`;
+            sortJoins.set(alias, `${parentAlias}.${segment}`);
+          });
+        }
+        for (const [alias, path] of sortJoins) {
+          windowQb.leftJoin(path, alias);
+        }
+        applyFilter(windowQb, childFilter);
 
-      await Promise.all(
-        rows.map(async (row) => {
-          try {
-            const res = await queryEngine.find({
+        const orderBy = keyset
+          .map((key) =>
+            [
+              `${key.alias}.${key.field}`,
+              key.direction,
+              keysetNulls(key.direction, dataSource.options.type),
+            ]
+              .filter(Boolean)
+              .join(' '),
+          )
+          .join(', ');
+        windowQb
+          .select(`${childTable}.id`, 'deep_id')
+          .addSelect(`${PARENT_ALIAS}.id`, 'deep_parent_id')
+          .addSelect(
+            `ROW_NUMBER() OVER (PARTITION BY ${PARENT_ALIAS}.id ORDER BY ${orderBy})`,
+            'deep_rn',
+          );
+
+        const idQb = dataSource
+          .createQueryBuilder(queryRunner)
+          .select('ranked.deep_id', 'deep_id')
+          .addSelect('ranked.deep_parent_id', 'deep_parent_id')
+          .from(`(${windowQb.getQuery()})`, 'ranked')
+          .setParameters(windowQb.getParameters())
+          .orderBy('ranked.deep_parent_id', 'ASC')
+          .addOrderBy('ranked.deep_rn', 'ASC');
+
+        if (limit) {
+          idQb
+            .where('ranked.deep_rn > :deepOffset', {
+              deepOffset: (page - 1) * limit,
+            })
+            .andWhere('ranked.deep_rn <= :deepEnd', { deepEnd: page * limit });
+        }
+
+        const pairs = await idQb.getRawMany();
+        const childIds = [...new Set(pairs.map((p) => p.deep_id))];
+        log.push(
+          `+ Deep relation "${relationName}": ${childIds.length} rows for ${parentIds.length} parents`,
+        );
+
+        // === Load the children once, resolving the next level in batch ===
+        const res = childIds.length
+          ? await queryEngine.find({
               tableName: childTable,
-              filter: {
-                [foreignKey]: {
-                  id: { _eq: row.id },
-                },
-              },
+              filter: { id: { _in: childIds } },
               fields,
-              sort: deepOptions?.sort,
-              page: deepOptions?.page,
-              limit: deepOptions?.limit,
-              meta: deepOptions?.meta,
               deep: deepOptions?.deep,
-            });
+              queryRunner,
+              user,
+              fieldAccess,
+              rowAccess,
+            })
+          : { data: [], meta: undefined };
 
-            row[relationName] = res.data ?? [];
+        const childById = new Map(
+          res.data.map((child) => [String(child.id), child]),
+        );
+        const childrenByParent = new Map<string, any[]>();
+        for (const pair of pairs) {
+          const child = childById.get(String(pair.deep_id));
+          if (!child) continue;
+          const key = String(pair.deep_parent_id);
+          if (!childrenByParent.has(key)) childrenByParent.set(key, []);
+          childrenByParent.get(key).push(child);
+        }
 
-            if (res.meta) {
-              metaList.push({ id: row.id, ...res.meta });
-            }
-          } catch (error) {
-            row[relationName] = [];
-            log.push(
-              `! Deep relation "${relationName}" failed with id ${row.id}: ${error.message}`,
+        for (const row of rows) {
+          row[relationName] = childrenByParent.get(String(row.id)) ?? [];
+        }
+
+        // === Per-parent meta, same shape as a per-row find ===
+        const metaParts = (deepOptions?.meta || '')
+          .split(',')
+          .map((x) => x.trim());
+        const wants = (key: string) =>
+          metaParts.includes(key) || metaParts.includes('*');
+
+        let totalCount: number;
+        if (wants('totalCount')) {
+          const totalQb = dataSource.createQueryBuilder(
+            childMeta.target,
+            childTable,
+            queryRunner,
+          );
+          applyFilter(totalQb, policy);
+          totalCount = await totalQb.getCount();
+        }
+
+        const filterCounts = new Map<string, number>();
+        if (wants('filterCount')) {
+          const countQb = rankedQb()
+            .select(`${PARENT_ALIAS}.id`, 'deep_parent_id')
+            .addSelect(`COUNT(DISTINCT ${childTable}.id)`, 'deep_count')
+            .groupBy(`${PARENT_ALIAS}.id`);
+          applyFilter(countQb, childFilter);
+          for (const raw of await countQb.getRawMany()) {
+            filterCounts.set(
+              String(raw.deep_parent_id),
+              Number(raw.deep_count),
             );
           }
-        }),
-      );
+        }
+
+        const metaList: any[] = [];
+        for (const row of rows) {
+          const nested: Record<string, any[]> = {};
+          const ownIds = new Set(
+            row[relationName].map((child) => String(child.id)),
+          );
+          for (const [nestedName, nestedList] of Object.entries(
+            (res.meta ?? {}) as Record<string, any>,
+          )) {
+            if (!Array.isArray(nestedList)) continue;
+            const own = nestedList.filter((m) => ownIds.has(String(m.id)));
+            if (own.length) nested[nestedName] = own;
+          }
+
+          if (!deepOptions?.meta && Object.keys(nested).length === 0) continue;
+          metaList.push({
+            id: row.id,
+            ...(wants('totalCount') ? { totalCount } : {}),
+            ...(wants('filterCount')
+              ? { filterCount: filterCounts.get(String(row.id)) ?? 0 }
+              : {}),
+            ...nested,
+          });
+        }
 
-      if (metaList.length > 0) {
-        metaDeep[relationName] = metaList;
+        if (metaList.length > 0) {
+          metaDeep[relationName] = metaList;
+        }
+      } catch (error) {
+        for (const row of rows) row[relationName] = [];
+        log.push(`! Deep relation "${relationName}" failed: ${error.message}`);
       }
     }),
   );
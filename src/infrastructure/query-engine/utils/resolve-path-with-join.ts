@@ -22,6 +22,8 @@ export function resolvePathWithJoin({
         type: string;
         relationType?: string;
       };
+      // Remaining segments when the path goes into a JSON column
+      jsonPath?: string[];
     }
   | undefined {
   let currentMeta = meta;
@@ -34,6 +36,16 @@ export function resolvePathWithJoin({
     if (!found) return undefined;
 
     if (found.kind === 'field') {
+      if (i !== path.length - 1 && found.isJson) {
+        return {
+          alias: currentAlias,
+          parentAlias,
+          lastMeta: currentMeta,
+          lastField: found,
+          jsonPath: path.slice(i + 1),
+        };
+      }
+
       if (i !== path.length - 1) {
         throw new Error(
           `Invalid path: "${segment}" is a field on table "${currentMeta.tableName}", but path continues.`,
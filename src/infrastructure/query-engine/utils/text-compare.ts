@@ -0,0 +1,42 @@
+/**
+ * Compile a case-insensitive (and for `_unaccent_contains` also
+ * accent-insensitive) comparison that does not depend on the column
+ * collation, so MySQL and Postgres return the same rows.
+ */
+export function buildTextComparison({
+  dbType,
+  operator,
+  column,
+  paramKey,
+}: {
+  dbType: string;
+  operator: string;
+  column: string;
+  paramKey: string;
+}): string {
+  const isMysql = dbType === 'mysql' || dbType === 'mariadb';
+  // SQLite has no unaccent(), its lower() only folds ASCII
+  const unaccent = operator === '_unaccent_contains' && dbType !== 'sqlite';
+  const normalize = (expr: string) =>
+    unaccent ? `unaccent(lower(${expr}))` : `lower(${expr})`;
+
+  // Compare the folded values byte by byte so an *_ci / *_ai_ci collation
+  // cannot make MySQL looser than Postgres
+  const left = isMysql
+    ? `${normalize(column)} COLLATE utf8mb4_bin`
+    : normalize(column);
+  const value = normalize(`:${paramKey}`);
+  const concat = (...items: string[]) =>
+    isMysql ? `CONCAT(${items.join(', ')})` : items.join(' || ');
+
+  switch (operator) {
+    case '_ieq':
+      return `${left} = ${value}`;
+    case '_istarts_with':
+      return `${left} LIKE ${concat(value, `'%'`)}`;
+    case '_iends_with':
+      return `${left} LIKE ${concat(`'%'`, value)}`;
+    default:
+      return `${left} LIKE ${concat(`'%'`, value, `'%'`)}`;
+  }
+}
@@ -0,0 +1,438 @@
+import { EntityMetadata } from 'typeorm';
+import { ValidationException } from '../../../core/exceptions/custom-exceptions';
+import { getFullTextColumns } from './full-text';
+import { lookupFieldOrRelation } from './lookup-field-or-relation';
+import { parseSortInput } from './parse-sort-input';
+
+export type TQueryValidationError = {
+  // Where the problem is, e.g. `filter.author.nmae` or `sort.-title`
+  path: string;
+  message: string;
+};
+
+const COMPARISON_OPERATORS = ['_eq', '_neq', '_gt', '_gte', '_lt', '_lte'];
+const LIST_OPERATORS = ['_in', '_not_in'];
+const TEXT_OPERATORS = [
+  '_contains',
+  '_starts_with',
+  '_ends_with',
+  '_search',
+  '_ieq',
+  '_icontains',
+  '_istarts_with',
+  '_iends_with',
+  '_unaccent_contains',
+];
+const QUANTIFIERS = ['_some', '_none', '_every'];
+const AGG_KEYS = ['_count', '_sum', '_avg', '_min', '_max'];
+const NUMERIC_TYPES = [
+  'int',
+  'integer',
+  'smallint',
+  'bigint',
+  'decimal',
+  'numeric',
+  'float',
+  'double',
+  'number',
+];
+const DATE_TYPES = ['date', 'datetime', 'timestamp'];
+const JSON_KEY = /^([A-Za-z_][A-Za-z0-9_]*|\d+)$/;
+
+const isPlainObject = (value: any) =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Mirrors what parseValue() would accept for the column type
+function checkValueType(type: string, value: any): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') {
+    return `expected a single value, got ${Array.isArray(value) ? 'an array' : 'an object'}`;
+  }
+
+  const normalized = String(type).toLowerCase();
+  if (NUMERIC_TYPES.includes(normalized)) {
+    return value === '' || isNaN(Number(value))
+      ? `expected a number, got ${JSON.stringify(value)}`
+      : null;
+  }
+  if (normalized === 'boolean') {
+    return [true, false, 'true', 'false', 1, 0].includes(value)
+      ? null
+      : `expected a boolean, got ${JSON.stringify(value)}`;
+  }
+  if (DATE_TYPES.includes(normalized)) {
+    return isNaN(new Date(value).getTime())
+      ? `expected a date, got ${JSON.stringify(value)}`
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Collect every unknown path, operator and mistyped value of a query instead
+ * of letting walkFilter/buildJoinTree skip them. Returns an empty list when
+ * the query is valid.
+ */
+export function validateQuery({
+  meta,
+  fields,
+  filter,
+  sort,
+  deep,
+}: {
+  meta: EntityMetadata;
+  fields?: string | string[];
+  filter?: any;
+  sort?: string | string[];
+  deep?: any;
+}): TQueryValidationError[] {
+  const errors: TQueryValidationError[] = [];
+  const addError = (path: string[], message: string) =>
+    errors.push({ path: path.join('.'), message });
+  const metaOf = (currentMeta: EntityMetadata, tableName: string) =>
+    currentMeta.connection.getMetadata(tableName);
+
+  const checkValue = (path: string[], type: string, value: any) => {
+    const problem = checkValueType(type, value);
+    if (problem) addError(path, problem);
+  };
+
+  const checkList = (path: string[], type: string, value: any) => {
+    let values = value;
+    if (typeof values === 'string') {
+      try {
+        values = JSON.parse(values);
+      } catch {
+        values = values
+          .split(',')
+          .map((v) => v.trim())
+          .filter((v) => v);
+      }
+    }
+    if (!Array.isArray(values)) {
+      addError(path, 'expected an array');
+      return;
+    }
+    values.forEach((v, i) => checkValue([...path, String(i)], type, v));
+  };
+
+  const checkJson = (block: any, path: string[]) => {
+    const items = Array.isArray(block) ? block : [block];
+    for (const item of items) {
+      if (!isPlainObject(item)) {
+        addError(path, 'expected an object');
+        continue;
+      }
+      for (const key of Object.keys(item)) {
+        const at = [...path, key];
+        if (['_and', '_or', '_not'].includes(key)) {
+          checkJson(item[key], at);
+        } else if (!key.startsWith('_')) {
+          if (!JSON_KEY.test(key))
+            addError(at, `Invalid JSON path key "${key}"`);
+          checkJson(item[key], at);
+        } else {
+          checkOperator(key, item[key], { type: 'text', isJson: false }, at);
+        }
+      }
+    }
+  };
+
+  const checkOperator = (
+    operator: string,
+    value: any,
+    field: { propertyName?: string; type: string; isJson: boolean },
+    path: string[],
+  ) => {
+    if (COMPARISON_OPERATORS.includes(operator)) {
+      checkValue(path, field.type, value);
+    } else if (LIST_OPERATORS.includes(operator)) {
+      checkList(path, field.type, value);
+    } else if (TEXT_OPERATORS.includes(operator)) {
+      if (typeof value === 'object' && value !== null) {
+        addError(path, 'expected a string');
+      }
+    } else if (operator === '_between') {
+      const values =
+        typeof value === 'string'
+          ? value.split(',').map((v) => v.trim())
+          : value;
+      if (!Array.isArray(values) || values.length !== 2) {
+        addError(path, 'expected exactly 2 values');
+      } else {
+        values.forEach((v, i) =>
+          checkValue([...path, String(i)], field.type, v),
+        );
+      }
+    } else if (operator === '_is_null') {
+      checkValue(path, 'boolean', value);
+    } else if (operator === '_json') {
+      if (!field.isJson) {
+        addError(
+          path,
+          `_json requires a JSON column, got "${field.propertyName}"`,
+        );
+      } else {
+        checkJson(value, path);
+      }
+    } else {
+      addError(path, `Unknown operator "${operator}"`);
+    }
+  };
+
+  const checkRelationAggregate = (
+    block: Record<string, any>,
+    nextMeta: EntityMetadata,
+    path: string[],
+  ) => {
+    for (const key of Object.keys(block)) {
+      const at = [...path, key];
+      const aggregate = block[key];
+      if (!AGG_KEYS.includes(key)) {
+        addError(at, `Unknown aggregate "${key}"`);
+        continue;
+      }
+      if (!isPlainObject(aggregate)) {
+        addError(at, 'expected an object');
+        continue;
+      }
+
+      // `_count` compares directly, the others per column
+      const targets =
+        key === '_count'
+          ? [{ ops: aggregate, type: 'number', at }]
+          : Object.keys(aggregate).map((field) => {
+              const column = nextMeta.columns.find(
+                (c) => c.propertyName === field,
+              );
+              if (!column) {
+                addError(
+                  [...at, field],
+                  `Unknown field "${field}" on "${nextMeta.tableName}"`,
+                );
+              }
+              return column
+                ? {
+                    ops: aggregate[field],
+                    type: String(column.type),
+                    at: [...at, field],
+                  }
+                : null;
+            });
+      for (const target of targets) {
+        if (!target) continue;
+        if (!isPlainObject(target.ops)) {
+          addError(target.at, 'expected an object');
+          continue;
+        }
+        for (const op of Object.keys(target.ops)) {
+          if (!COMPARISON_OPERATORS.includes(op)) {
+            addError(
+              [...target.at, op],
+              `Unsupported aggregate operator "${op}"`,
+            );
+          } else {
+            checkValue([...target.at, op], target.type, target.ops[op]);
+          }
+        }
+      }
+    }
+  };
+
+  const checkFilter = (
+    f: any,
+    currentMeta: EntityMetadata,
+    path: string[],
+    field?: { propertyName: string; type: string; isJson: boolean },
+  ) => {
+    if (Array.isArray(f)) {
+      f.forEach((item, i) =>
+        checkFilter(item, currentMeta, [...path, String(i)], field),
+      );
+      return;
+    }
+    if (!isPlainObject(f)) {
+      addError(
+        path,
+        field
+          ? 'expected an operator object, e.g. {"_eq": ...}'
+          : 'expected an object',
+      );
+      return;
+    }
+
+    for (const key of Object.keys(f)) {
+      const val = f[key];
+      const at = [...path, key];
+
+      if (['_and', '_or', '_not'].includes(key)) {
+        checkFilter(val, currentMeta, at, field);
+        continue;
+      }
+      if (field) {
+        checkOperator(key, val, field, at);
+        continue;
+      }
+      if (key === '_search') {
+        if (getFullTextColumns(currentMeta).length === 0) {
+          addError(
+            at,
+            `_search requires a full-text index on "${currentMeta.tableName}"`,
+          );
+        } else if (typeof val === 'object' && val !== null) {
+          addError(at, 'expected a string');
+        }
+        continue;
+      }
+
+      const found = lookupFieldOrRelation(currentMeta, key);
+      if (!found) {
+        addError(
+          at,
+          key.startsWith('_')
+            ? `Unknown operator "${key}" outside of a field`
+            : `Unknown field or relation "${key}" on "${currentMeta.tableName}"`,
+        );
+        continue;
+      }
+
+      if (found.kind === 'field') {
+        checkFilter(val, currentMeta, at, found);
+        continue;
+      }
+
+      const nextMeta = metaOf(currentMeta, found.type);
+      if (!isPlainObject(val)) {
+        addError(at, 'expected an object');
+        continue;
+      }
+      if (Object.keys(val).some((k) => AGG_KEYS.includes(k))) {
+        checkRelationAggregate(val, nextMeta, at);
+        continue;
+      }
+      // `{ tags: { _in: [1, 2] } }` matches related ids
+      const rest = { ...val };
+      for (const op of LIST_OPERATORS) {
+        if (op in rest) {
+          checkList([...at, op], 'number', rest[op]);
+          delete rest[op];
+        }
+      }
+      for (const quantifier of QUANTIFIERS) {
+        if (!(quantifier in rest)) continue;
+        if (!found.isMany) {
+          addError(
+            [...at, quantifier],
+            `${quantifier} requires a to-many relation, got "${key}"`,
+          );
+        } else {
+          checkFilter(rest[quantifier], nextMeta, [...at, quantifier]);
+        }
+        delete rest[quantifier];
+      }
+      checkFilter(rest, nextMeta, at);
+    }
+  };
+
+  // Resolve `a.b.c` from the root, JSON columns may continue into keys
+  const resolvePath = (
+    segments: string[],
+    root: string[],
+  ): { kind: 'field' | 'relation'; jsonPath: string[] } | null => {
+    let currentMeta = meta;
+    for (let i = 0; i < segments.length; i++) {
+      const at = [...root, ...segments.slice(0, i + 1)];
+      const found = lookupFieldOrRelation(currentMeta, segments[i]);
+      if (!found) {
+        addError(
+          at,
+          `Unknown field or relation "${segments[i]}" on "${currentMeta.tableName}"`,
+        );
+        return null;
+      }
+      if (found.kind === 'field') {
+        const jsonPath = segments.slice(i + 1);
+        if (jsonPath.length > 0 && !found.isJson) {
+          addError(at, `"${segments[i]}" is not a relation`);
+          return null;
+        }
+        const badKey = jsonPath.find((key) => !JSON_KEY.test(key));
+        if (badKey !== undefined) {
+          addError(at, `Invalid JSON path key "${badKey}"`);
+          return null;
+        }
+        return { kind: 'field', jsonPath };
+      }
+      currentMeta = metaOf(currentMeta, found.type);
+    }
+    return { kind: 'relation', jsonPath: [] };
+  };
+
+  if (fields) {
+    const entries = (Array.isArray(fields) ? fields : String(fields).split(','))
+      .map((entry) => String(entry).trim())
+      .filter(Boolean);
+    for (const entry of entries) {
+      const segments = entry.split('.');
+      if (segments[segments.length - 1] !== '*') {
+        resolvePath(segments, ['fields']);
+      } else if (segments.length > 1) {
+        const resolved = resolvePath(segments.slice(0, -1), ['fields']);
+        if (resolved?.kind === 'field') {
+          addError(['fields', entry], `"${entry}" does not end in a relation`);
+        }
+      }
+    }
+  }
+
+  for (const { field } of parseSortInput(sort)) {
+    if (typeof field !== 'string') {
+      addError(['sort'], 'expected a field name');
+      continue;
+    }
+    if (field === '_relevance') continue;
+    const resolved = resolvePath(field.split('.'), ['sort']);
+    if (resolved?.kind === 'relation') {
+      addError(['sort', field], `Cannot sort by relation "${field}"`);
+    } else if (resolved?.jsonPath.length) {
+      addError(['sort', field], `Cannot sort by JSON path "${field}"`);
+    }
+  }
+
+  if (filter !== undefined && filter !== null) {
+    if (!isPlainObject(filter)) {
+      addError(['filter'], 'expected a JSON object');
+    } else {
+      checkFilter(filter, meta, ['filter']);
+    }
+  }
+
+  if (deep !== undefined && deep !== null) {
+    if (!isPlainObject(deep)) {
+      addError(['deep'], 'expected a JSON object');
+    } else {
+      for (const key of Object.keys(deep)) {
+        if (lookupFieldOrRelation(meta, key)?.kind !== 'relation') {
+          addError(
+            ['deep', key],
+            `Unknown relation "${key}" on "${meta.tableName}"`,
+          );
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function assertValidQuery(
+  options: Parameters<typeof validateQuery>[0],
+): void {
+  const errors = validateQuery(options);
+  if (errors.length > 0) {
+    throw new ValidationException(
+      `Invalid query: ${errors.map((e) => `${e.path}: ${e.message}`).join('; ')}`,
+      { errors },
+    );
+  }
+}
@@ -1,6 +1,12 @@
-import { EntityMetadata } from 'typeorm';
+import { Brackets, EntityMetadata, NotBrackets } from 'typeorm';
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import { buildJoinTree } from './build-join-tree';
+import { buildFullTextSearch, getFullTextColumns } from './full-text';
+import { buildJsonExtract } from './json-path';
 import { lookupFieldOrRelation } from './lookup-field-or-relation';
 import { parseValue } from './parse-value';
+import { buildPolicyGuard, TReadPolicy } from './policy-guard';
+import { buildTextComparison } from './text-compare';
 
 const OPERATORS = [
   '_eq',
@@ -19,8 +25,20 @@ const OPERATORS = [
   '_contains',
   '_starts_with',
   '_ends_with',
+  '_search',
+  '_ieq',
+  '_icontains',
+  '_istarts_with',
+  '_iends_with',
+  '_unaccent_contains',
+  '_json',
+  '_some',
+  '_none',
+  '_every',
 ];
 
+const QUANTIFIERS = ['_some', '_none', '_every'];
+
 const AGG_KEYS = ['_count', '_sum', '_avg', '_min', '_max'];
 
 export function walkFilter({
@@ -30,6 +48,10 @@ export function walkFilter({
   operator = 'AND',
   path = [],
   log = [],
+  paramPrefix = 'p',
+  wrapColumn,
+  valueType,
+  readPolicy,
 }: {
   filter: any;
   currentMeta: EntityMetadata;
@@ -37,10 +59,19 @@ export function walkFilter({
   operator?: 'AND' | 'OR';
   path?: string[];
   log?: string[];
+  paramPrefix?: string;
+  // Used to compare aggregates in HAVING, e.g. (c) => `SUM(${c})`
+  wrapColumn?: (column: string) => string;
+  valueType?: string;
+  // Hides the rows of related tables the user cannot read
+  readPolicy?: TReadPolicy;
 }): {
   parts: { operator: 'AND' | 'OR'; sql: string; params: Record<string, any> }[];
+  // Ranking expressions of the `_search` conditions, for sort=_relevance
+  relevance: string[];
 } {
   const parts: { operator: 'AND' | 'OR'; sql: string; params: Record<string, any> }[] = [];
+  const relevance: string[] = [];
   let paramIndex = 1;
 
   const operatorMap: Record<string, string> = {
@@ -52,6 +83,97 @@ export function walkFilter({
     _lte: '<=',
   };
 
+  // Related rows only match when their table's read policy shows them
+  const guard = (meta: EntityMetadata, alias: string) =>
+    buildPolicyGuard({
+      meta,
+      alias,
+      readPolicy,
+      paramPrefix: `${paramPrefix}${paramIndex++}_v`,
+    });
+
+  // `_some`/`_none`/`_every` on a to-many relation, as a correlated
+  // (NOT) EXISTS so the parent rows are neither joined nor duplicated
+  const compileQuantifier = (
+    quantifier: string,
+    condition: any,
+    relation: RelationMetadata,
+    childMeta: EntityMetadata,
+    parentAlias: string,
+  ): { sql: string; params: Record<string, any> } => {
+    if (!relation.isOneToMany && !relation.isManyToMany) {
+      throw new Error(
+        `${quantifier} requires a to-many relation, got "${relation.propertyName}"`,
+      );
+    }
+    const dataSource = childMeta.connection;
+    const escape = (name: string) => dataSource.driver.escape(name);
+    const childAlias = `${parentAlias}_${relation.propertyName}_${quantifier.slice(1)}`;
+
+    const { joinArr } = buildJoinTree({
+      meta: childMeta,
+      fields: ['id'],
+      filter: condition,
+      rootAlias: childAlias,
+      dataSource,
+    });
+    const sub = walkFilter({
+      filter: condition,
+      currentMeta: childMeta,
+      currentAlias: childAlias,
+      paramPrefix: `${paramPrefix}${paramIndex++}_q`,
+      log,
+      readPolicy,
+    });
+
+    const existsQb = dataSource
+      .createQueryBuilder(childMeta.target, childAlias)
+      .select('1');
+    for (const join of joinArr) {
+      existsQb.leftJoin(`${join.parentAlias}.${join.propertyPath}`, join.alias);
+    }
+    if (relation.isManyToMany) {
+      const junctionAlias = `${childAlias}_junction`;
+      existsQb
+        .innerJoin(
+          relation.junctionEntityMetadata.target,
+          junctionAlias,
+          `${escape(junctionAlias)}.${escape(relation.inverseJoinColumns[0].databaseName)} = ${escape(childAlias)}.${escape('id')}`,
+        )
+        .where(
+          `${escape(junctionAlias)}.${escape(relation.joinColumns[0].databaseName)} = ${parentAlias}.id`,
+        );
+    } else {
+      const foreignKey = relation.inverseRelation.joinColumns[0].databaseName;
+      existsQb.where(
+        `${escape(childAlias)}.${escape(foreignKey)} = ${parentAlias}.id`,
+      );
+    }
+    const visible = guard(childMeta, childAlias);
+    if (visible) existsQb.andWhere(visible.sql, visible.params);
+
+    if (sub.parts.length > 0) {
+      const apply = (qb) => {
+        for (const p of sub.parts) {
+          if (p.operator === 'AND') qb.andWhere(p.sql, p.params);
+          else qb.orWhere(p.sql, p.params);
+        }
+      };
+      // `_every` = no child fails the condition
+      existsQb.andWhere(
+        quantifier === '_every' ? new NotBrackets(apply) : new Brackets(apply),
+      );
+    } else if (quantifier === '_every') {
+      return { sql: '1 = 1', params: {} };
+    }
+
+    const exists = quantifier === '_some' ? 'EXISTS' : 'NOT EXISTS';
+    return {
+      sql: `${exists} (${existsQb.getQuery()})`,
+      params: existsQb.getParameters(),
+    };
+  };
+
   const walk = (
     f: Record<string, any>,
     path: string[],
@@ -87,6 +209,11 @@ export function walkFilter({
           currentAlias,
           operator: 'AND',
           path,
+          paramPrefix: `${paramPrefix}not${paramIndex++}_`,
+          wrapColumn,
+          valueType,
+          log,
+          readPolicy,
         });
         subParts.parts.forEach((p) => {
           parts.push({ operator, sql: `NOT (${p.sql})`, params: p.params });
@@ -95,9 +222,127 @@ export function walkFilter({
         continue;
       }
 
+      if (key === '_json') {
+        // `{ settings: { _json: { theme: { _eq: 'dark' } } } }`
+        const lastField = path[path.length - 1];
+        const jsonField = lookupFieldOrRelation(currentMeta, lastField);
+        if (jsonField?.kind !== 'field' || !jsonField.isJson) {
+          throw new Error(`_json requires a JSON column, got "${lastField}"`);
+        }
+
+        // Compiled into one grouped condition so `_or` inside stays scoped
+        const jsonParams: Record<string, any> = {};
+        const compileJson = (
+          block: any,
+          jsonPath: string[],
+          joiner: 'AND' | 'OR',
+        ): string => {
+          const items = Array.isArray(block) ? block : [block];
+          const clauses: string[] = [];
+
+          for (const item of items) {
+            if (!item || typeof item !== 'object') continue;
+            const itemClauses: string[] = [];
+
+            for (const jsonKey in item) {
+              const jsonVal = item[jsonKey];
+              if (jsonKey === '_and' || jsonKey === '_or') {
+                const sql = compileJson(
+                  jsonVal,
+                  jsonPath,
+                  jsonKey === '_and' ? 'AND' : 'OR',
+                );
+                if (sql) itemClauses.push(`(${sql})`);
+                continue;
+              }
+              if (!jsonKey.startsWith('_')) {
+                const sql = compileJson(jsonVal, [...jsonPath, jsonKey], 'AND');
+                if (sql) itemClauses.push(sql);
+                continue;
+              }
+
+              // Numbers compare numerically, everything else as text
+              const values = Array.isArray(jsonVal) ? jsonVal : [jsonVal];
+              const isNumeric =
+                values.length > 0 && values.every((v) => typeof v === 'number');
+              const expression = buildJsonExtract({
+                dbType: currentMeta.connection.driver.options.type,
+                column: `${currentAlias}.${lastField}`,
+                columnType: jsonField.type,
+                jsonPath,
+                as: isNumeric ? 'numeric' : 'text',
+              });
+
+              const sub = walkFilter({
+                filter: { [lastField]: { [jsonKey]: jsonVal } },
+                currentMeta,
+                currentAlias,
+                paramPrefix: `${paramPrefix}${paramIndex++}_j`,
+                wrapColumn: () => expression,
+                valueType: isNumeric ? 'numeric' : 'text',
+              });
+              let sql = '';
+              for (const p of sub.parts) {
+                Object.assign(jsonParams, p.params);
+                sql = sql ? `${sql} ${p.operator} ${p.sql}` : p.sql;
+              }
+              if (sql) itemClauses.push(`(${sql})`);
+            }
+
+            if (itemClauses.length) clauses.push(itemClauses.join(' AND '));
+          }
+
+          return clauses
+            .map((c) => (clauses.length > 1 ? `(${c})` : c))
+            .join(` ${joiner} `);
+        };
+
+        const jsonSql = compileJson(val, [], 'AND');
+        if (jsonSql) {
+          parts.push({ operator, sql: jsonSql, params: jsonParams });
+          log.push?.(`[${operator}] ${jsonSql}`);
+        }
+        continue;
+      }
+
+      if (key === '_search') {
+        // `{ title: { _search } }` searches one column, `{ _search }` the
+        // entity's full-text index
+        const searched = lookupFieldOrRelation(
+          currentMeta,
+          path[path.length - 1],
+        );
+        const columns =
+          searched?.kind === 'field'
+            ? [searched.propertyName]
+            : getFullTextColumns(currentMeta);
+        if (columns.length === 0) {
+          throw new Error(
+            `_search requires a full-text index on "${currentMeta.tableName}"`,
+          );
+        }
+
+        const search = buildFullTextSearch({
+          meta: currentMeta,
+          alias: currentAlias,
+          columns,
+          query: val,
+          paramKey: `${paramPrefix}${paramIndex++}`,
+        });
+        if (!search) continue;
+
+        parts.push({ operator, sql: search.sql, params: search.params });
+        relevance.push(search.relevance);
+        log.push?.(`[${operator}] ${search.sql}`);
+        continue;
+      }
+
       if (!OPERATORS.includes(key)) {
         const found = lookupFieldOrRelation(currentMeta, key);
-        if (!found) continue;
+        if (!found) {
+          log.push?.(`! Unknown filter key "${key}" skipped`);
+          continue;
+        }
 
         const newPath = [...path, key];
 
@@ -118,6 +363,8 @@ export function walkFilter({
               console.log(`[Relation] ❌ Cannot find foreign key`);
               continue;
             }
+            const visible = guard(nextMeta, nextMeta.tableName);
+            const visibleSql = visible ? ` AND ${visible.sql}` : '';
 
             for (const aggKey of AGG_KEYS) {
               const aggVal = val[aggKey];
@@ -148,13 +395,13 @@ export function walkFilter({
                     continue;
                   }
 
-                  const paramKey = `p${paramIndex++}`;
-                  const subquery = `(SELECT COUNT(*) FROM ${nextMeta.tableName} WHERE ${nextMeta.tableName}.${foreignKey} = ${currentAlias}.id)`;
+                  const paramKey = `${paramPrefix}${paramIndex++}`;
+                  const subquery = `(SELECT COUNT(*) FROM ${nextMeta.tableName} WHERE ${nextMeta.tableName}.${foreignKey} = ${currentAlias}.id${visibleSql})`;
                   const sql = `${subquery} ${opSymbol} :${paramKey}`;
                   parts.push({
                     operator,
                     sql,
-                    params: { [paramKey]: parsedValue },
+                    params: { [paramKey]: parsedValue, ...visible?.params },
                   });
                 }
               } else {
@@ -232,14 +479,14 @@ export function walkFilter({
                         continue;
                     }
 
-                    const subquery = `(SELECT ${sqlFunc}(${nextMeta.tableName}.${field}) FROM ${nextMeta.tableName} WHERE ${nextMeta.tableName}.${foreignKey} = ${currentAlias}.id)`;
-                    const paramKey = `p${paramIndex++}`;
+                    const subquery = `(SELECT ${sqlFunc}(${nextMeta.tableName}.${field}) FROM ${nextMeta.tableName} WHERE ${nextMeta.tableName}.${foreignKey} = ${currentAlias}.id${visibleSql})`;
+                    const paramKey = `${paramPrefix}${paramIndex++}`;
                     const sql = `${subquery} ${opSymbol} :${paramKey}`;
                     console.log(`[Aggregate] ✅ SQL = ${sql}`);
                     parts.push({
                       operator,
                       sql,
-                      params: { [paramKey]: parsedValue },
+                      params: { [paramKey]: parsedValue, ...visible?.params },
                     });
                   }
                 }
@@ -248,6 +495,30 @@ export function walkFilter({
             continue;
           }
 
+          const quantifiers =
+            val && typeof val === 'object'
+              ? Object.keys(val).filter((k) => QUANTIFIERS.includes(k))
+              : [];
+          if (quantifiers.length > 0) {
+            for (const quantifier of quantifiers) {
+              const part = compileQuantifier(
+                quantifier,
+                val[quantifier],
+                found.relationMeta,
+                nextMeta,
+                currentAlias,
+              );
+              parts.push({ operator, ...part });
+              log.push?.(`[${operator}] ${part.sql}`);
+            }
+            const rest = { ...val };
+            for (const quantifier of quantifiers) delete rest[quantifier];
+            if (Object.keys(rest).length > 0) {
+              walk({ [key]: rest }, path, currentMeta, currentAlias, operator);
+            }
+            continue;
+          }
+
           // Handle relation _in/_not_in operators
           if (typeof val === 'object' && (val._in || val._not_in)) {
             const isIn = val._in !== undefined;
@@ -292,7 +563,7 @@ export function walkFilter({
             let subquery = '';
             const relationParam = {};
             const inParams = values.map((v) => {
-              const paramKey = `p${paramIndex++}`;
+              const paramKey = `${paramPrefix}${paramIndex++}`;
               
               // Cast value to correct type based on target PK type
               let castedValue = v;
@@ -319,17 +590,25 @@ export function walkFilter({
               continue;
             }
 
+            // Ids of related rows the user can't read match nothing
+            const targetTable = nextMeta.tableName;
+            const visible = guard(nextMeta, targetTable);
+            if (visible) Object.assign(relationParam, visible.params);
+
             if (relation.relationType === 'many-to-many') {
               // Many-to-many: use join table
               const joinTable = relation.joinTableName;
               const joinColumn = relation.joinColumns[0].databaseName; // current entity column
               const inverseJoinColumn = relation.inverseJoinColumns[0].databaseName; // target entity column
+              const visibleSql = visible
+                ? ` AND ${inverseJoinColumn} IN (SELECT ${targetTable}.id FROM ${targetTable} WHERE ${visible.sql})`
+                : '';
               
-              subquery = `(SELECT ${joinColumn} FROM ${joinTable} WHERE ${inverseJoinColumn} IN (${inParams.join(', ')}))`;
+              subquery = `(SELECT ${joinColumn} FROM ${joinTable} WHERE ${inverseJoinColumn} IN (${inParams.join(', ')})${visibleSql})`;
             } else {
               // One-to-many/Many-to-one: use direct relation
-              const targetTable = nextMeta.tableName;
-              subquery = `(SELECT id FROM ${targetTable} WHERE id IN (${inParams.join(', ')}))`;
+              const visibleSql = visible ? ` AND ${visible.sql}` : '';
+              subquery = `(SELECT id FROM ${targetTable} WHERE id IN (${inParams.join(', ')})${visibleSql})`;
             }
 
             const inOrNotIn = isIn ? 'IN' : 'NOT IN';
@@ -340,11 +619,43 @@ export function walkFilter({
             continue;
           }
 
+          // `_search` on a relation targets the related entity's index
           if (
             typeof val === 'object' &&
-            !Object.keys(val).some((k) => OPERATORS.includes(k))
+            !Object.keys(val).some(
+              (k) => OPERATORS.includes(k) && k !== '_search',
+            )
           ) {
-            walk(val, newPath, nextMeta, nextAlias, operator);
+            const visible = guard(nextMeta, nextAlias);
+            if (!visible) {
+              walk(val, newPath, nextMeta, nextAlias, operator);
+              continue;
+            }
+            // The related row has to match and be visible
+            const sub = walkFilter({
+              filter: val,
+              currentMeta: nextMeta,
+              currentAlias: nextAlias,
+              operator,
+              path: newPath,
+              paramPrefix: `${paramPrefix}${paramIndex++}_r`,
+              wrapColumn,
+              valueType,
+              log,
+              readPolicy,
+            });
+            const params = { ...visible.params };
+            let sql = '';
+            for (const p of sub.parts) {
+              Object.assign(params, p.params);
+              sql = sql ? `${sql} ${p.operator} ${p.sql}` : p.sql;
+            }
+            if (sql) {
+              const guarded = `(${sql}) AND ${visible.sql}`;
+              parts.push({ operator, sql: guarded, params });
+              log.push?.(`[${operator}] ${guarded}`);
+            }
+            relevance.push(...sub.relevance);
           } else {
             walk(val, newPath, currentMeta, currentAlias, operator);
           }
@@ -361,12 +672,15 @@ export function walkFilter({
       const found = lookupFieldOrRelation(currentMeta, lastField);
       if (!found) continue;
 
-      const paramKey = `p${paramIndex++}`;
+      const paramKey = `${paramPrefix}${paramIndex++}`;
       const param = {};
       let sql = '';
 
       if (found.kind === 'field') {
-        const fieldType = found.type;
+        const fieldType = valueType ?? found.type;
+        const column = wrapColumn
+          ? wrapColumn(`${currentAlias}.${lastField}`)
+          : `${currentAlias}.${lastField}`;
         // Don't parse value yet for _between operator
         const parsedValue =
           key === '_between' ? val : parseValue(fieldType, val);
@@ -377,27 +691,27 @@ export function walkFilter({
 
         switch (key) {
           case '_eq':
-            sql = `${currentAlias}.${lastField} = :${paramKey}`;
+            sql = `${column} = :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_neq':
-            sql = `${currentAlias}.${lastField} != :${paramKey}`;
+            sql = `${column} != :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_gt':
-            sql = `${currentAlias}.${lastField} > :${paramKey}`;
+            sql = `${column} > :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_gte':
-            sql = `${currentAlias}.${lastField} >= :${paramKey}`;
+            sql = `${column} >= :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_lt':
-            sql = `${currentAlias}.${lastField} < :${paramKey}`;
+            sql = `${column} < :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_lte':
-            sql = `${currentAlias}.${lastField} <= :${paramKey}`;
+            sql = `${column} <= :${paramKey}`;
             param[paramKey] = parsedValue;
             break;
           case '_in': {
@@ -428,7 +742,7 @@ export function walkFilter({
               param[inParamKey] = parseValue(fieldType, v);
               return `:${inParamKey}`;
             });
-            sql = `${currentAlias}.${lastField} IN (${inParams.join(', ')})`;
+            sql = `${column} IN (${inParams.join(', ')})`;
             break;
           }
           case '_not_in': {
@@ -459,13 +773,13 @@ export function walkFilter({
               param[notInParamKey] = parseValue(fieldType, v);
               return `:${notInParamKey}`;
             });
-            sql = `${currentAlias}.${lastField} NOT IN (${notInParams.join(', ')})`;
+            sql = `${column} NOT IN (${notInParams.join(', ')})`;
             break;
           }
           case '_between': {
-            const p1 = `p${paramIndex++}`;
-            const p2 = `p${paramIndex++}`;
-            sql = `${currentAlias}.${lastField} BETWEEN :${p1} AND :${p2}`;
+            const p1 = `${paramPrefix}${paramIndex++}`;
+            const p2 = `${paramPrefix}${paramIndex++}`;
+            sql = `${column} BETWEEN :${p1} AND :${p2}`;
 
             let val1: any, val2: any;
 
@@ -519,32 +833,45 @@ export function walkFilter({
             break;
           }
           case '_is_null':
-            sql = `${currentAlias}.${lastField} IS ${val ? '' : 'NOT '}NULL`;
+            sql = `${column} IS ${val ? '' : 'NOT '}NULL`;
             break;
           case '_contains':
             if (isSQLite) {
-              sql = `${currentAlias}.${lastField} LIKE '%' || :${paramKey} || '%'`;
+              sql = `${column} LIKE '%' || :${paramKey} || '%'`;
             } else {
-              sql = `lower(unaccent(${currentAlias}.${lastField})) COLLATE ${collation} LIKE CONCAT('%', lower(unaccent(:${paramKey})) COLLATE ${collation}, '%')`;
+              sql = `lower(unaccent(${column})) COLLATE ${collation} LIKE CONCAT('%', lower(unaccent(:${paramKey})) COLLATE ${collation}, '%')`;
             }
             param[paramKey] = parsedValue;
             break;
           case '_starts_with':
             if (isSQLite) {
-              sql = `${currentAlias}.${lastField} LIKE :${paramKey} || '%'`;
+              sql = `${column} LIKE :${paramKey} || '%'`;
             } else {
-              sql = `lower(unaccent(${currentAlias}.${lastField})) COLLATE ${collation} LIKE CONCAT(lower(unaccent(:${paramKey})) COLLATE ${collation}, '%')`;
+              sql = `lower(unaccent(${column})) COLLATE ${collation} LIKE CONCAT(lower(unaccent(:${paramKey})) COLLATE ${collation}, '%')`;
             }
             param[paramKey] = parsedValue;
             break;
           case '_ends_with':
             if (isSQLite) {
-              sql = `${currentAlias}.${lastField} LIKE '%' || :${paramKey}`;
+              sql = `${column} LIKE '%' || :${paramKey}`;
             } else {
-              sql = `lower(unaccent(${currentAlias}.${lastField})) COLLATE ${collation} LIKE CONCAT('%', lower(unaccent(:${paramKey})) COLLATE ${collation})`;
+              sql = `lower(unaccent(${column})) COLLATE ${collation} LIKE CONCAT('%', lower(unaccent(:${paramKey})) COLLATE ${collation})`;
             }
             param[paramKey] = parsedValue;
             break;
+          case '_ieq':
+          case '_icontains':
+          case '_istarts_with':
+          case '_iends_with':
+          case '_unaccent_contains':
+            sql = buildTextComparison({
+              dbType: currentMeta.connection.driver.options.type,
+              operator: key,
+              column,
+              paramKey,
+            });
+            param[paramKey] = parsedValue;
+            break;
           default:
             continue;
         }
@@ -558,5 +885,5 @@ export function walkFilter({
   };
 
   walk(filter, path, currentMeta, currentAlias, operator);
-  return { parts };
+  return { parts, relevance };
 }
@@ -2,9 +2,20 @@ import { Module } from '@nestjs/common';
 import { RedisLockService } from './services/redis-lock.service';
 import { RedisPubSubService } from './services/redis-pubsub.service';
 import { RouteCacheService } from './services/route-cache.service';
+import { QueryCacheService } from './services/query-cache.service';
 
 @Module({
-  providers: [RedisLockService, RedisPubSubService, RouteCacheService],
-  exports: [RedisLockService, RedisPubSubService, RouteCacheService],
+  providers: [
+    RedisLockService,
+    RedisPubSubService,
+    RouteCacheService,
+    QueryCacheService,
+  ],
+  exports: [
+    RedisLockService,
+    RedisPubSubService,
+    RouteCacheService,
+    QueryCacheService,
+  ],
 })
 export class RedisModule {}
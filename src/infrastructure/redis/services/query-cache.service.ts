@@ -0,0 +1,154 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import * as crypto from 'crypto';
+
+// Sorted keys so `{a, b}` and `{b, a}` share a cache entry
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+@Injectable()
+export class QueryCacheService implements OnModuleDestroy {
+  private readonly logger = new Logger(QueryCacheService.name);
+  private readonly redis: Redis | null;
+  private readonly cachePrefix = 'query:cache:';
+  private readonly tablePrefix = 'query:cache:table:';
+  private readonly statsKey = 'query:cache:stats';
+  // Table sets outlive their entries; a write to the table clears them
+  private readonly tableSetTtl = 86400;
+  private readonly statsTimer?: NodeJS.Timeout;
+
+  constructor(private redisService: RedisService) {
+    this.redis = this.redisService.getOrNil();
+    if (!this.redis) {
+      this.logger.warn('Redis not available - query result caching disabled');
+      return;
+    }
+    this.statsTimer = setInterval(() => this.logCacheStats(), 600000);
+  }
+
+  onModuleDestroy() {
+    if (this.statsTimer) clearInterval(this.statsTimer);
+  }
+
+  buildKey(query: Record<string, any>): string {
+    const hash = crypto
+      .createHash('sha1')
+      .update(stableStringify(query))
+      .digest('hex');
+    return `${this.cachePrefix}${query.tableName}:${hash}`;
+  }
+
+  /**
+   * Return the cached result of `query`, or run `load` and cache its result
+   * for `ttl` seconds under every table in `tables`.
+   */
+  async getOrLoad<T>(
+    {
+      query,
+      tables,
+      ttl,
+    }: { query: Record<string, any>; tables: string[]; ttl: number },
+    load: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.redis || !(ttl > 0)) return await load();
+
+    const key = this.buildKey(query);
+    const cached = await this.getFromCache<T>(key);
+    if (cached !== null) {
+      await this.incrementStats('hits');
+      return cached;
+    }
+
+    await this.incrementStats('misses');
+    const result = await load();
+    await this.addToCache(key, result, tables, ttl);
+    return result;
+  }
+
+  /**
+   * Drop every cached result that read one of `tables`.
+   */
+  async invalidate(tables: string[]): Promise<void> {
+    if (!this.redis || tables.length === 0) return;
+    try {
+      const tableKeys = tables.map((table) => `${this.tablePrefix}${table}`);
+      const keys = (
+        await Promise.all(tableKeys.map((key) => this.redis.smembers(key)))
+      ).flat();
+      await this.redis.del(...new Set([...keys, ...tableKeys]));
+    } catch (error) {
+      this.logger.error(`Cache invalidate error: ${error.message}`);
+    }
+  }
+
+  async getStats(): Promise<{ hits: number; misses: number; hitRate: number }> {
+    if (!this.redis) return { hits: 0, misses: 0, hitRate: 0 };
+    const stats = await this.redis.hgetall(this.statsKey);
+    const hits = parseInt(stats.hits || '0');
+    const misses = parseInt(stats.misses || '0');
+    const total = hits + misses;
+    return { hits, misses, hitRate: total ? hits / total : 0 };
+  }
+
+  private async getFromCache<T>(key: string): Promise<T | null> {
+    try {
+      const cached = await this.redis.get(key);
+      return cached === null ? null : JSON.parse(cached);
+    } catch (error) {
+      this.logger.error(`Cache get error: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async addToCache(
+    key: string,
+    value: any,
+    tables: string[],
+    ttl: number,
+  ): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline();
+      pipeline.set(key, JSON.stringify(value), 'EX', ttl);
+      for (const table of tables) {
+        pipeline.sadd(`${this.tablePrefix}${table}`, key);
+        pipeline.expire(`${this.tablePrefix}${table}`, this.tableSetTtl);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      this.logger.error(`Cache add error: ${error.message}`);
+    }
+  }
+
+  private async incrementStats(type: 'hits' | 'misses'): Promise<void> {
+    try {
+      await this.redis.hincrby(this.statsKey, type, 1);
+    } catch (error) {
+      this.logger.error(`Stats error: ${error.message}`);
+    }
+  }
+
+  private async logCacheStats(): Promise<void> {
+    try {
+      const { hits, misses, hitRate } = await this.getStats();
+      if (hits + misses === 0) return;
+
+      this.logger.log(
+        `Query cache: ${(hitRate * 100).toFixed(1)}% hit rate (${hits} hits, ${misses} misses)`,
+      );
+
+      await this.redis.del(this.statsKey);
+    } catch (error) {
+      this.logger.error(`Stats error: ${error.message}`);
+    }
+  }
+}
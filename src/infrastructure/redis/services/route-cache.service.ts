@@ -10,6 +10,7 @@ const REVALIDATING_KEY = 'revalidating:routes';
 @Injectable()
 export class RouteCacheService {
   private readonly logger = new Logger(RouteCacheService.name);
+  private reloadListeners: (() => Promise<void>)[] = [];
 
   constructor(
     private readonly dataSourceService: DataSourceService,
@@ -114,6 +115,7 @@ export class RouteCacheService {
       this.logger.log(
         `[RELOAD:${reloadId}] 💾 Updated cache in ${Date.now() - cacheStart}ms`,
       );
+      for (const listener of this.reloadListeners) await listener();
 
       this.logger.log(
         `[RELOAD:${reloadId}] ✅ Reloaded route cache with ${routes.length} routes in ${Date.now() - reloadStart}ms total`,
@@ -126,6 +128,11 @@ export class RouteCacheService {
     }
   }
 
+  // Called after every reload, e.g. to drop decisions made on old permissions
+  onReload(listener: () => Promise<void>) {
+    this.reloadListeners.push(listener);
+  }
+
   async getRoutesWithSWR(): Promise<any[]> {
     const overallStart = Date.now();
 
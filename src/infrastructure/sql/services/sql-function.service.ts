@@ -1,5 +1,6 @@
 import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { DataSourceService } from '../../../core/database/data-source/data-source.service';
+import { POSTGRES_IMMUTABLE_UNACCENT_SQL } from '../../query-engine/utils/full-text';
 
 @Injectable()
 export class SqlFunctionService implements OnApplicationBootstrap {
@@ -19,6 +20,7 @@ export class SqlFunctionService implements OnApplicationBootstrap {
       }
     } else if (dbType === 'postgres') {
       await dataSource.query(`CREATE EXTENSION IF NOT EXISTS unaccent;`);
+      await this.createImmutableUnaccentFunction();
       console.log('✅ Postgres: unaccent extension ready');
     } else {
       console.warn(`⚠️ Unsupported DB_TYPE for unaccent: ${dbType}`);
@@ -35,6 +37,13 @@ export class SqlFunctionService implements OnApplicationBootstrap {
     return result.length > 0;
   }
 
+  // Used by `_search` and the full-text indexes built on the same expression
+  private async createImmutableUnaccentFunction() {
+    const dataSource = this.dataSourceService.getDataSource();
+
+    await dataSource.query(POSTGRES_IMMUTABLE_UNACCENT_SQL);
+  }
+
   private async createUnaccentFunction() {
     const dataSource = this.dataSourceService.getDataSource();
 
@@ -55,7 +55,9 @@ async function bootstrap() {
         'Content-Type',
         'Authorization',
         'x-apollo-operation-name',
+        'If-Match',
       ],
+      exposedHeaders: ['ETag'],
     }),
   );
   app.use(express.json());
@@ -97,6 +97,14 @@ export function addColumnToClass({
     usedImports.add('HiddenField');
   }
 
+  if (col.validation && Object.keys(col.validation).length > 0) {
+    decorators.push({
+      name: 'FieldValidation',
+      arguments: [JSON.stringify(col.validation)],
+    });
+    usedImports.add('FieldValidation');
+  }
+
   const tsType =
     col.type === 'enum'
       ? col.options.map((v) => `'${v}'`).join(' | ')
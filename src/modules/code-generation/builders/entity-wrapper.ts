@@ -1,6 +1,16 @@
+import { createHash } from 'crypto';
 import { SourceFile } from 'ts-morph';
 import { ValidationException } from '../../../core/exceptions/custom-exceptions';
 
+// Stable name so the migration generator can tell which full-text indexes exist
+function getFullTextIndexName(tableName: string, fields: string[]) {
+  const hash = createHash('sha1')
+    .update(`${tableName}_${fields.join('_')}`)
+    .digest('hex')
+    .slice(0, 26);
+  return `FTS_${hash}`;
+}
+
 export function wrapEntityClass({
   sourceFile,
   className,
@@ -16,7 +26,7 @@ export function wrapEntityClass({
   className: string;
   tableName: string;
   uniques?: Array<{ value: string[] }>;
-  indexes?: Array<{ value: string[] }>;
+  indexes?: Array<{ value: string[]; fulltext?: boolean }>;
   usedImports: Set<string>;
   validEntityFields?: string[];
   actualEntityFields?: Set<string>; // Optional: actual fields that will be in the entity
@@ -246,6 +256,24 @@ export function wrapEntityClass({
 
     const key = fields.join('|');
 
+    // Full-text indexes are created by the migration generator, not synchronize
+    if (index.fulltext) {
+      const fullTextKey = `fulltext:${key}`;
+      if (!addedIndexKeys.has(fullTextKey)) {
+        decorators.push({
+          name: 'Index',
+          arguments: [
+            `'${getFullTextIndexName(tableName, fields)}'`,
+            `[${fields.map((f) => `'${f}'`).join(', ')}]`,
+            '{ fulltext: true, synchronize: false }',
+          ],
+        });
+        usedImports.add('Index');
+        addedIndexKeys.add(fullTextKey);
+      }
+      continue;
+    }
+
     // Skip if duplicate index or if unique constraint exists for same fields
     const isBlockedByUnique = allUniqueKeys.has(key);
 
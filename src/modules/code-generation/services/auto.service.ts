@@ -14,6 +14,7 @@ import { addRelationToClass } from '../builders/relation-writer';
 import { wrapEntityClass } from '../builders/entity-wrapper';
 import { writeEntityFile } from '../writers/entity-writer';
 import { importMap } from '../utils/import-map';
+import { USER_STAMP_FIELDS } from '../../../shared/utils/constant';
 
 @Injectable()
 export class AutoService {
@@ -55,17 +56,39 @@ export class AutoService {
       overwrite: true,
     });
 
+    // Tables with `userStamps` point at the users who created and last
+    // updated each row
+    const relations: any[] = [
+      ...(payload.relations || []),
+      ...(payload.userStamps
+        ? USER_STAMP_FIELDS.map((propertyName) => ({
+            propertyName,
+            type: 'many-to-one',
+            targetTable: { name: 'user_definition' },
+            isNullable: true,
+          }))
+        : []),
+    ];
+
     // Extract all valid field names from entity definition (columns + relations)
     const columnFields = payload.columns.map((col) => col.name);
-    const relationFields = (payload.relations || []).map(
-      (rel) => rel.propertyName,
-    );
-    const validEntityFields = [...columnFields, ...relationFields];
+    const relationFields = relations.map((rel) => rel.propertyName);
+    // Soft-deletable and versioned tables get extra columns that can be indexed
+    const optionalFields = [
+      ...(payload.softDelete ? ['deletedAt'] : []),
+      ...(payload.versioned ? ['version'] : []),
+    ];
+    const validEntityFields = [
+      ...columnFields,
+      ...relationFields,
+      ...optionalFields,
+    ];
 
     // Create set of actual fields that will be in the entity (columns + relations + system fields)
     const actualEntityFields = new Set([
       ...columnFields,
       ...relationFields,
+      ...optionalFields,
       'id',
       'createdAt',
       'updatedAt', // System fields
@@ -75,9 +98,12 @@ export class AutoService {
     const transformedUniques = (payload.uniques || []).map((uniqueArray) => ({
       value: uniqueArray as unknown as string[],
     }));
-    const transformedIndexes = (payload.indexes || []).map((indexArray) => ({
-      value: indexArray as unknown as string[],
-    }));
+    // Index entries are either a field array or `{ value, fulltext }`
+    const transformedIndexes = (payload.indexes || []).map((index: any) =>
+      Array.isArray(index)
+        ? { value: index as string[] }
+        : { value: index?.value, fulltext: !!index?.fulltext },
+    );
 
     const classDeclaration = wrapEntityClass({
       sourceFile,
@@ -88,7 +114,7 @@ export class AutoService {
       usedImports,
       validEntityFields,
       actualEntityFields,
-      relations: payload.relations || [], // Truyền relations
+      relations, // Truyền relations
     });
 
     for (const col of payload.columns) {
@@ -101,7 +127,7 @@ export class AutoService {
     }
 
     // Add forward relations
-    for (const rel of payload.relations || []) {
+    for (const rel of relations) {
       addRelationToClass({
         classDeclaration,
         rel,
@@ -140,6 +166,24 @@ export class AutoService {
     });
     usedImports.add('UpdateDateColumn');
 
+    if (payload.softDelete) {
+      classDeclaration.addProperty({
+        name: 'deletedAt',
+        type: 'Date',
+        decorators: [{ name: 'DeleteDateColumn', arguments: [] }],
+      });
+      usedImports.add('DeleteDateColumn');
+    }
+
+    if (payload.versioned) {
+      classDeclaration.addProperty({
+        name: 'version',
+        type: 'number',
+        decorators: [{ name: 'VersionColumn', arguments: [] }],
+      });
+      usedImports.add('VersionColumn');
+    }
+
     // Add imports
     const groupedImports: Record<string, string[]> = {};
     for (const name of usedImports) {
@@ -4,6 +4,8 @@ export const importMap: Record<string, string> = {
   PrimaryGeneratedColumn: 'typeorm',
   CreateDateColumn: 'typeorm',
   UpdateDateColumn: 'typeorm',
+  DeleteDateColumn: 'typeorm',
+  VersionColumn: 'typeorm',
   JoinColumn: 'typeorm',
   JoinTable: 'typeorm',
   OneToOne: 'typeorm',
@@ -13,4 +15,5 @@ export const importMap: Record<string, string> = {
   Unique: 'typeorm',
   Index: 'typeorm',
   HiddenField: '../../../shared/decorators/hidden-field.decorator',
+  FieldValidation: '../../../shared/decorators/field-validation.decorator',
 };
@@ -4,8 +4,88 @@ import { Logger } from '@nestjs/common';
 import { createDataSource } from '../../../core/database/data-source/data-source';
 import { CommonService } from '../../../shared/common/services/common.service';
 import { DataSource } from 'typeorm';
+import {
+  POSTGRES_IMMUTABLE_UNACCENT_SQL,
+  buildPostgresTsVector,
+  getFullTextIndexes,
+} from '../../../infrastructure/query-engine/utils/full-text';
 const logger = new Logger('MigrationHelper');
 
+// Full-text indexes are declared with `synchronize: false` because TypeORM
+// cannot build Postgres GIN expressions, so the schema builder skips them.
+// Create the missing ones (and drop stale Postgres ones) here instead.
+export async function buildFullTextIndexQueries(dataSource: DataSource) {
+  const upQueries: { query: string }[] = [];
+  const downQueries: { query: string }[] = [];
+  const dbType = dataSource.options.type;
+
+  const declared = dataSource.entityMetadatas.flatMap((meta) =>
+    getFullTextIndexes(meta).map((index) => ({
+      tableName: meta.tableName,
+      name: index.name,
+      columns: index.columns.map((col) => col.databaseName),
+    })),
+  );
+
+  if (dbType === 'mysql') {
+    const existing = await dataSource.query(`
+      SELECT DISTINCT TABLE_NAME, INDEX_NAME
+      FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND INDEX_TYPE = 'FULLTEXT'
+    `);
+    const existingKeys = new Set(
+      existing.map((row: any) => `${row.TABLE_NAME}.${row.INDEX_NAME}`),
+    );
+
+    for (const index of declared) {
+      if (existingKeys.has(`${index.tableName}.${index.name}`)) continue;
+      const columns = index.columns.map((col) => `\`${col}\``).join(', ');
+      upQueries.push({
+        query: `CREATE FULLTEXT INDEX \`${index.name}\` ON \`${index.tableName}\` (${columns})`,
+      });
+      downQueries.unshift({
+        query: `DROP INDEX \`${index.name}\` ON \`${index.tableName}\``,
+      });
+    }
+  } else if (dbType === 'postgres') {
+    const existing = await dataSource.query(`
+      SELECT tablename, indexname, indexdef
+      FROM pg_indexes
+      WHERE schemaname = current_schema()
+        AND indexname LIKE 'FTS\\_%'
+    `);
+    const existingNames = new Set(existing.map((row: any) => row.indexname));
+    const declaredNames = new Set(declared.map((index) => index.name));
+
+    for (const index of declared) {
+      if (existingNames.has(index.name)) continue;
+      const vector = buildPostgresTsVector(
+        index.columns.map((col) => `"${col}"`),
+      );
+      upQueries.push({
+        query: `CREATE INDEX "${index.name}" ON "${index.tableName}" USING GIN (${vector})`,
+      });
+      downQueries.unshift({ query: `DROP INDEX "${index.name}"` });
+    }
+
+    for (const row of existing) {
+      if (declaredNames.has(row.indexname)) continue;
+      upQueries.push({ query: `DROP INDEX "${row.indexname}"` });
+      downQueries.unshift({ query: row.indexdef });
+    }
+
+    if (upQueries.length > 0) {
+      upQueries.unshift(
+        { query: 'CREATE EXTENSION IF NOT EXISTS unaccent' },
+        { query: POSTGRES_IMMUTABLE_UNACCENT_SQL.trim() },
+      );
+    }
+  }
+
+  return { upQueries, downQueries };
+}
+
 // Helper function to clean up orphaned tables and constraints
 async function cleanupOrphanedTables(dataSource: any) {
   try {
@@ -307,6 +387,10 @@ async function generateMigrationFileDirect() {
       }
     }
 
+    const fullTextQueries = await buildFullTextIndexQueries(dataSource);
+    optimizedUpQueries.push(...fullTextQueries.upQueries);
+    optimizedDownQueries.unshift(...fullTextQueries.downQueries);
+
     if (optimizedUpQueries.length === 0) {
       logger.warn('⏭️ No changes to generate migration. Skipping.');
       await dataSource.destroy();
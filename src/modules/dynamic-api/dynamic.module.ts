@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { DynamicService } from './services/dynamic.service';
+import { ImportService } from './services/import.service';
 import { DynamicController } from './controllers/dynamic.controller';
 
 @Module({
   imports: [],
   controllers: [DynamicController],
-  providers: [DynamicService],
+  providers: [DynamicService, ImportService],
 })
 export class DynamicModule {}
@@ -2,6 +2,7 @@
 export * from './dynamic.module';
 export * from './controllers/dynamic.controller';
 export * from './services/dynamic.service';
+export * from './services/import.service';
 export * from './services/system-protection.service';
 export * from './repositories/dynamic.repository';
 export * from './interfaces/dynamic-repository.interface';
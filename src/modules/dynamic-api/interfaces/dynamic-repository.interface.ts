@@ -16,6 +16,34 @@ export interface IDynamicRepository {
 
   // Data manipulation methods
   create(data: any): Promise<any>;
-  update(id: any, data: any): Promise<any>;
-  delete(id: any): Promise<boolean>;
+  // `expectedVersion` is checked on versioned tables, 412 on a mismatch
+  update(
+    id: any,
+    data: any,
+    options?: { expectedVersion?: number | string },
+  ): Promise<any>;
+  delete(
+    id: any,
+    options?: { expectedVersion?: number | string },
+  ): Promise<boolean>;
+
+  // Creates or updates by a unique constraint of the table
+  upsert(
+    data: any,
+    options?: { conflictFields?: string[] | string },
+  ): Promise<any>;
+
+  // Trash of soft-deletable tables; `purge` deletes for good
+  restore(id: any): Promise<any>;
+  purge(id: any): Promise<any>;
+
+  // Revision history of tables with `trackRevisions`
+  revisions(id: any): Promise<any>;
+  compareRevisions(fromId: any, toId: any): Promise<any>;
+  revert(id: any, revisionId: any): Promise<any>;
+
+  // Bulk operations, each in one transaction; `target` is a filter or ids
+  createMany(data: any[]): Promise<{ ids: any[]; count: number }>;
+  updateMany(target: any, data: any): Promise<{ ids: any[]; count: number }>;
+  deleteMany(target: any): Promise<{ ids: any[]; count: number }>;
 }
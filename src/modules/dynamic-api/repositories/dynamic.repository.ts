@@ -1,11 +1,34 @@
 import { BadRequestException } from '@nestjs/common';
 import { DataSourceService } from '../../../core/database/data-source/data-source.service';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { TableHandlerService } from '../../table-management/services/table-handler.service';
 import { QueryEngine } from '../../../infrastructure/query-engine/services/query-engine.service';
 import { RouteCacheService } from '../../../infrastructure/redis/services/route-cache.service';
+import { QueryCacheService } from '../../../infrastructure/redis/services/query-cache.service';
 import { SystemProtectionService } from '../services/system-protection.service';
+import { AuthorizationService } from '../../../core/auth/services/authorization.service';
 import { TDynamicContext } from '../../../shared/interfaces/dynamic-context.interface';
+import {
+  AuthorizationException,
+  PreconditionFailedException,
+  ValidationException,
+} from '../../../core/exceptions/custom-exceptions';
+import {
+  resolveQueryCostLimits,
+  TQueryCostLimits,
+} from '../../../infrastructure/query-engine/utils/query-cost';
+import { collectQueryTables } from '../../../infrastructure/query-engine/utils/collect-query-tables';
+import { resolveFilterVariables } from '../../../infrastructure/query-engine/utils/filter-variables';
+import { parseExpectedVersion } from '../../../shared/utils/etag';
+import { assertValidRecord } from '../../../shared/utils/field-validation';
+import { assertWritableFields } from '../../../shared/utils/field-permission';
+import { TRowAction } from '../../../shared/utils/row-policy';
+import { USER_STAMP_FIELDS } from '../../../shared/utils/constant';
+import { stripHiddenFields } from '../../../shared/utils/export-stream';
+import {
+  diffRecords,
+  TRevisionAction,
+} from '../../../shared/utils/record-revision';
 
 export class DynamicRepository {
   private context: TDynamicContext;
@@ -16,6 +39,10 @@ export class DynamicRepository {
   private tableHandlerService: TableHandlerService;
   private routeCacheService: RouteCacheService;
   private systemProtectionService: SystemProtectionService;
+  private queryCacheService?: QueryCacheService;
+  private authorizationService?: AuthorizationService;
+  private cacheTtl?: number;
+  private trackRevisions?: boolean;
 
   constructor({
     context,
@@ -25,6 +52,10 @@ export class DynamicRepository {
     tableHandlerService,
     routeCacheService,
     systemProtectionService,
+    queryCacheService,
+    authorizationService,
+    cacheTtl,
+    trackRevisions,
   }: {
     context: TDynamicContext;
     tableName: string;
@@ -33,6 +64,13 @@ export class DynamicRepository {
     tableHandlerService: TableHandlerService;
     routeCacheService: RouteCacheService;
     systemProtectionService: SystemProtectionService;
+    queryCacheService?: QueryCacheService;
+    // Checks route permissions of writes that bypass the route's method
+    authorizationService?: AuthorizationService;
+    // Seconds to cache find() results; unset or 0 disables the cache
+    cacheTtl?: number;
+    // Writes record a row in `record_revision`
+    trackRevisions?: boolean;
   }) {
     this.context = context;
     this.tableName = tableName;
@@ -41,6 +79,10 @@ export class DynamicRepository {
     this.tableHandlerService = tableHandlerService;
     this.routeCacheService = routeCacheService;
     this.systemProtectionService = systemProtectionService;
+    this.queryCacheService = queryCacheService;
+    this.authorizationService = authorizationService;
+    this.cacheTtl = cacheTtl;
+    this.trackRevisions = trackRevisions;
   }
 
   async init() {
@@ -48,7 +90,7 @@ export class DynamicRepository {
   }
 
   async find(opt: { where?: any }) {
-    return await this.queryEngine.find({
+    const options = {
       tableName: this.tableName,
       fields: this.context.$query?.fields || '',
       filter: opt?.where || this.context.$query?.filter || {},
@@ -58,42 +100,230 @@ export class DynamicRepository {
       sort: this.context.$query?.sort || 'id',
       aggregate: this.context.$query?.aggregate || {},
       deep: this.context.$query?.deep || {},
+      after: this.context.$query?.after,
+      before: this.context.$query?.before,
+      debug: this.resolveDebug(),
+      strict: this.resolveStrict(),
+      user: this.context.$user,
+      costLimits: this.resolveCostLimits(),
+      queryRunner: this.context.$trx?.queryRunner,
+      withDeleted: this.resolveFlag('withDeleted'),
+      onlyDeleted: this.resolveFlag('onlyDeleted'),
+      fieldAccess: await this.getFieldAccess(),
+      rowAccess: await this.getRowAccess(),
+    };
+    // Uncommitted rows must never reach the shared cache
+    if (
+      !this.queryCacheService ||
+      !this.cacheTtl ||
+      options.debug ||
+      options.queryRunner
+    ) {
+      return await this.queryEngine.find(options);
+    }
+
+    const {
+      tableName,
+      fields,
+      sort,
+      page,
+      limit,
+      meta,
+      after,
+      before,
+      withDeleted,
+      onlyDeleted,
+      fieldAccess,
+      rowAccess,
+    } = options;
+    // Keyed on resolved variables so `$CURRENT_USER` is never shared.
+    // `$NOW` is rounded down to the TTL, so such queries can be cached too
+    const ttlMs = this.cacheTtl * 1000;
+    const now = new Date(Math.floor(Date.now() / ttlMs) * ttlMs);
+    const { filter, deep, aggregate } = resolveFilterVariables(
+      {
+        filter: options.filter,
+        deep: options.deep,
+        aggregate: options.aggregate,
+      },
+      { user: this.context.$user, now },
+    );
+    const metaData = this.dataSourceService
+      .getDataSource()
+      .getMetadata(tableName);
+    return await this.queryCacheService.getOrLoad(
+      {
+        query: {
+          tableName,
+          fields,
+          filter,
+          sort,
+          page,
+          limit,
+          deep,
+          meta,
+          aggregate,
+          after,
+          before,
+          withDeleted,
+          onlyDeleted,
+          fieldAccess: fieldAccess?.key,
+          rowAccess: rowAccess?.key,
+        },
+        tables: collectQueryTables({
+          meta: metaData,
+          fields,
+          filter,
+          sort,
+          deep,
+          readPolicy: rowAccess
+            ? (table) => rowAccess.filter(table, 'read')
+            : undefined,
+        }),
+        ttl: this.cacheTtl,
+      },
+      () => this.queryEngine.find({ ...options, now }),
+    );
+  }
+
+  // Every row of the current query in batches, for exports. Batches are read
+  // while the response is sent, after the request's transaction has ended
+  async *stream() {
+    yield* this.queryEngine.stream({
+      tableName: this.tableName,
+      fields: this.context.$query?.fields || '',
+      filter: this.context.$query?.filter || {},
+      sort: this.context.$query?.sort || 'id',
+      deep: this.context.$query?.deep || {},
+      strict: this.resolveStrict(),
+      user: this.context.$user,
+      costLimits: this.resolveCostLimits(),
+      fieldAccess: await this.getFieldAccess(),
+      rowAccess: await this.getRowAccess(),
     });
   }
 
+  // Cached results of this table, of tables it cascades into and of every
+  // query joining them are dropped after a write, once it is committed
+  private async invalidateCache(body?: any) {
+    if (!this.queryCacheService) return;
+    const relations = this.dataSourceService
+      .getDataSource()
+      .getMetadata(this.tableName).relations;
+    const touched = relations.filter(
+      (relation) => !body || body[relation.propertyName] !== undefined,
+    );
+    const tables = [
+      this.tableName,
+      ...touched.map((relation) => relation.inverseEntityMetadata.tableName),
+    ];
+    await this.onCommit(() => this.queryCacheService.invalidate(tables));
+  }
+
+  // Side effects of a write wait for the context's transaction, if any
+  async onCommit(task: () => Promise<void>) {
+    if (this.context.$trx) return await this.context.$trx.onCommit(task);
+    await task();
+  }
+
+  // `work` in a transaction of its own, nested in the context's open one
+  // through a savepoint, e.g. for writes made by an import
+  transaction<T>(work: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return this.getManager().transaction(work);
+  }
+
+  // Writes join the context's open transaction, if any
+  private getRepo(): Repository<any> {
+    return (
+      this.context.$trx?.manager?.getRepository(this.tableName) ?? this.repo
+    );
+  }
+
+  private getManager(): EntityManager {
+    return (
+      this.context.$trx?.manager ??
+      this.dataSourceService.getDataSource().manager
+    );
+  }
+
+  // Root admins are not limited, anonymous requests get the defaults
+  private resolveCostLimits(): TQueryCostLimits | undefined {
+    if (this.context.$user?.isRootAdmin) return undefined;
+    return resolveQueryCostLimits(this.context.$user?.role);
+  }
+
+  // `strict` overrides the global strictQueryValidation setting
+  private resolveStrict(): boolean | undefined {
+    const strict = this.context.$query?.strict;
+    if (strict === undefined) return undefined;
+    return strict === true || strict === 'true';
+  }
+
+  // `?withDeleted` and `?withDeleted=true` both turn a flag on
+  private resolveFlag(key: string): boolean {
+    const value = this.context.$query?.[key];
+    return value === true || value === '' || value === 'true';
+  }
+
+  // `debug=true` exposes the generated SQL, so only root admins may use it
+  private resolveDebug(): boolean | 'explain' {
+    const debug = this.context.$query?.debug;
+    if (debug === undefined || debug === false || debug === 'false') {
+      return false;
+    }
+    if (!this.context.$user?.isRootAdmin) {
+      throw new AuthorizationException(
+        'debug is only available to root admins',
+      );
+    }
+    return debug === 'explain' ? 'explain' : true;
+  }
+
   async create(body: any) {
     try {
-      await this.systemProtectionService.assertSystemSafe({
-        operation: 'create',
-        tableName: this.tableName,
-        data: body,
-        existing: null,
-        currentUser: this.context.$user,
-      });
+      await this.prepareCreate(body);
 
       if (this.tableName === 'table_definition') {
         body.isSystem = false;
         const table: any = await this.tableHandlerService.createTable(body);
+        await this.invalidateCache(body);
         await this.reload();
         return await this.find({ where: { id: { _eq: table.id } } });
       }
 
-      const created: any = await this.repo.save(body);
+      const created: any = await this.trackWrite(
+        'create',
+        undefined,
+        (manager) => manager.getRepository(this.tableName).save(body),
+      );
+      await this.invalidateCache(body);
       const result = await this.find({ where: { id: { _eq: created.id } } });
       await this.reload();
       return result;
     } catch (error) {
       console.error('❌ Error in dynamic repo [create]:', error);
-
+      if (
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
       throw new BadRequestException(error.message);
     }
   }
 
-  async update(id: string | number, body: any) {
+  // `expectedVersion` (a version or an `If-Match` value) stops a versioned
+  // record from overwriting a change made since it was read
+  async update(
+    id: string | number,
+    body: any,
+    options?: { expectedVersion?: number | string },
+  ) {
     try {
-      const existsResult = await this.find({ where: { id: { _eq: id } } });
-      const exists = existsResult?.data?.[0];
+      const expectedVersion = parseExpectedVersion(options?.expectedVersion);
+      const exists = await this.findExisting(id);
       if (!exists) throw new BadRequestException(`id ${id} is not exists!`);
+      await this.assertRowAllowed(exists.id, 'update');
 
       await this.systemProtectionService.assertSystemSafe({
         operation: 'update',
@@ -102,37 +332,60 @@ export class DynamicRepository {
         existing: exists,
         currentUser: this.context.$user,
       });
+      await this.assertWritable(body);
+      this.assertValid(body, { existing: await this.loadStored(exists.id) });
+      this.stampUsers(body, 'update');
 
       if (this.tableName === 'table_definition') {
         const table: any = await this.tableHandlerService.updateTable(
           +id,
           body,
         );
+        await this.invalidateCache(body);
         return this.find({ where: { id: { _eq: table.id } } });
       }
 
       body.id = exists.id;
+      // Only saving moves the version forward
+      const versionField = this.getVersionField();
+      if (versionField) delete body[versionField];
 
       try {
-        await this.repo.save(body);
+        await this.trackWrite('update', exists.id, (manager) =>
+          this.writeVersioned(manager, exists.id, expectedVersion, (repo) =>
+            repo.save(body),
+          ),
+        );
       } catch (dbError) {
         throw dbError;
       }
+      await this.invalidateCache(body);
 
       const result = await this.find({ where: { id: { _eq: id } } });
       await this.reload();
       return result;
     } catch (error) {
       console.error('❌ Error in dynamic repo [update]:', error);
+      if (
+        error instanceof PreconditionFailedException ||
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
       throw new BadRequestException(error.message);
     }
   }
 
-  async delete(id: string | number) {
+  async delete(
+    id: string | number,
+    options?: { expectedVersion?: number | string },
+  ) {
     try {
-      const existsResult = await this.find({ where: { id: { _eq: id } } });
-      const exists = existsResult?.data?.[0];
+      const expectedVersion = parseExpectedVersion(options?.expectedVersion);
+      const exists = await this.findExisting(id);
       if (!exists) throw new BadRequestException(`id ${id} is not exists!`);
+      await this.assertRowAllowed(exists.id, 'delete');
 
       await this.systemProtectionService.assertSystemSafe({
         operation: 'delete',
@@ -144,23 +397,924 @@ export class DynamicRepository {
 
       if (this.tableName === 'table_definition') {
         await this.tableHandlerService.delete(+id);
+        await this.invalidateCache();
         return { message: 'Success', statusCode: 200 };
       }
 
       try {
-        await this.repo.delete(id);
+        await this.trackWrite('delete', exists.id, (manager) =>
+          this.writeVersioned(manager, exists.id, expectedVersion, (repo) =>
+            this.getDeletedAtField()
+              ? repo.softDelete(exists.id)
+              : repo.delete(exists.id),
+          ),
+        );
       } catch (dbError) {
         throw dbError;
       }
+      await this.invalidateCache();
 
       await this.reload();
       return { message: 'Delete successfully!', statusCode: 200 };
     } catch (error) {
       console.error('❌ Error in dynamic repo [delete]:', error);
+      if (
+        error instanceof PreconditionFailedException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Brings a soft-deleted record back from the trash
+  async restore(id: string | number) {
+    try {
+      const deletedAt = this.getDeletedAtField();
+      if (!deletedAt) {
+        throw new BadRequestException(
+          `${this.tableName} does not use soft delete`,
+        );
+      }
+      const exists = await this.findWithDeleted(id);
+      if (!exists?.[deletedAt]) {
+        throw new BadRequestException(`id ${id} is not in the trash!`);
+      }
+      await this.assertRowAllowed(exists.id, 'update');
+
+      await this.systemProtectionService.assertSystemSafe({
+        operation: 'update',
+        tableName: this.tableName,
+        data: { [deletedAt]: null },
+        existing: exists,
+        currentUser: this.context.$user,
+      });
+
+      await this.trackWrite('restore', exists.id, (manager) =>
+        manager.getRepository(this.tableName).restore(exists.id),
+      );
+      await this.invalidateCache();
+
+      const result = await this.find({ where: { id: { _eq: id } } });
+      await this.reload();
+      return result;
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [restore]:', error);
+      if (error instanceof AuthorizationException) throw error;
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Deletes a record for good, whether it is in the trash or not
+  async purge(id: string | number) {
+    try {
+      const exists = await this.findWithDeleted(id);
+      if (!exists) throw new BadRequestException(`id ${id} is not exists!`);
+      await this.assertRowAllowed(exists.id, 'delete');
+
+      await this.systemProtectionService.assertSystemSafe({
+        operation: 'delete',
+        tableName: this.tableName,
+        data: {},
+        existing: exists,
+        currentUser: this.context.$user,
+      });
+
+      if (this.tableName === 'table_definition') {
+        await this.tableHandlerService.delete(+id);
+        await this.invalidateCache();
+        return { message: 'Success', statusCode: 200 };
+      }
+
+      await this.trackWrite('delete', exists.id, (manager) =>
+        manager.getRepository(this.tableName).delete(exists.id),
+      );
+      await this.invalidateCache();
+
+      await this.reload();
+      return { message: 'Purge successfully!', statusCode: 200 };
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [purge]:', error);
+      if (error instanceof AuthorizationException) throw error;
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Revisions of one record, newest first
+  async revisions(id: string | number) {
+    await this.assertRowAllowed(id, 'read');
+    const result = await this.queryEngine.find({
+      tableName: 'record_revision',
+      fields: '*,user.id,user.email',
+      filter: {
+        tableName: { _eq: this.tableName },
+        recordId: { _eq: String(id) },
+      },
+      sort: '-id',
+      page: this.context.$query?.page || 1,
+      limit: this.context.$query?.limit || 10,
+      meta: this.context.$query?.meta,
+      queryRunner: this.context.$trx?.queryRunner,
+    });
+    for (const revision of result.data) {
+      revision.data = await this.withoutUnreadable(revision.data);
+      revision.changes = await this.withoutUnreadable(revision.changes);
+    }
+    return result;
+  }
+
+  // Field-level diff between the records left by two revisions
+  async compareRevisions(fromId: string | number, toId: string | number) {
+    try {
+      const [from, to] = await Promise.all(
+        [fromId, toId].map((revisionId) => this.findRevision(revisionId)),
+      );
+      if (from.recordId !== to.recordId) {
+        throw new BadRequestException(
+          `Revisions ${fromId} and ${toId} belong to different records`,
+        );
+      }
+      await this.assertRowAllowed(from.recordId, 'read');
+      const state = (revision: any) =>
+        revision.action === 'delete' ? null : revision.data;
+      return {
+        recordId: from.recordId,
+        from: { id: from.id, action: from.action, createdAt: from.createdAt },
+        to: { id: to.id, action: to.action, createdAt: to.createdAt },
+        changes: await this.withoutUnreadable(
+          diffRecords(state(from), state(to)),
+        ),
+      };
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [compareRevisions]:', error);
+      if (error instanceof AuthorizationException) throw error;
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Puts a record back the way a revision left it, recreating it if it was
+  // deleted for good; the rollback is itself recorded as a revision
+  async revert(id: string | number, revisionId: string | number) {
+    try {
+      const revision = await this.findRevision(revisionId);
+      if (revision.recordId !== String(id)) {
+        throw new BadRequestException(
+          `Revision ${revisionId} does not belong to id ${id}`,
+        );
+      }
+      if (revision.action === 'delete') {
+        throw new BadRequestException(
+          `Revision ${revisionId} deleted the record, revert to an earlier one`,
+        );
+      }
+      const exists = await this.findWithDeleted(id);
+      if (exists) await this.assertRowAllowed(exists.id, 'update');
+      else this.assertCanCreate();
+      const body = { ...revision.data, id: exists?.id ?? revision.data.id };
+
+      await this.systemProtectionService.assertSystemSafe({
+        operation: exists ? 'update' : 'create',
+        tableName: this.tableName,
+        data: body,
+        existing: exists ?? null,
+        currentUser: this.context.$user,
+      });
+      // Only the fields the rollback changes have to be writable
+      const current =
+        exists &&
+        Object.fromEntries(Object.keys(body).map((key) => [key, exists[key]]));
+      await this.assertWritable(diffRecords(current, body));
+      this.assertValid(body, {
+        existing: exists && (await this.loadStored(exists.id)),
+      });
+      this.stampUsers(body, exists ? 'update' : 'create');
+
+      const deletedAt = this.getDeletedAtField();
+      if (deletedAt) body[deletedAt] = null;
+
+      await this.trackWrite('revert', exists?.id, (manager) =>
+        manager.transaction(async (manager) => {
+          const saved = await manager.getRepository(this.tableName).save(body);
+          // A recreated record must be one the user's policies let them edit
+          if (!exists) {
+            await this.assertRowAllowed(
+              saved.id,
+              'update',
+              manager.queryRunner,
+            );
+          }
+          return saved;
+        }),
+      );
+      await this.invalidateCache(body);
+
+      const result = await this.find({ where: { id: { _eq: body.id } } });
+      await this.reload();
+      return result;
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [revert]:', error);
+      if (
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Creates or updates the record whose `conflictFields` match, in a single
+  // INSERT ... ON CONFLICT / ON DUPLICATE KEY UPDATE. The fields must form one
+  // of the table's unique constraints (or the primary key); without them the
+  // first unique constraint the body fully covers is used. The lookup that
+  // picks the checks holds a row lock until the write, so a concurrent write
+  // can't turn a checked create into an unchecked update
+  async upsert(body: any, options?: { conflictFields?: string[] | string }) {
+    try {
+      if (this.tableName === 'table_definition') {
+        throw new BadRequestException(
+          'Upsert is not supported on table_definition',
+        );
+      }
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new BadRequestException('upsert needs a single record');
+      }
+      const conflictFields = this.resolveConflictFields(
+        body,
+        options?.conflictFields,
+      );
+      this.assertUpsertUnambiguous(conflictFields);
+
+      const saved = await this.getManager().transaction(async (manager) => {
+        const repo = manager.getRepository(this.tableName);
+        const exists = await this.findByFields(body, conflictFields, repo, {
+          lock: true,
+        });
+        if (exists) {
+          await this.assertRowAllowed(exists.id, 'update', manager.queryRunner);
+        }
+
+        await this.systemProtectionService.assertSystemSafe({
+          operation: exists ? 'update' : 'create',
+          tableName: this.tableName,
+          data: body,
+          existing: exists ?? null,
+          currentUser: this.context.$user,
+        });
+        await this.assertWritable(body);
+        this.assertValid(body, { existing: exists });
+        this.stampUsers(body, exists ? 'update' : 'create');
+
+        if (!conflictFields.includes('id')) delete body.id;
+        const versionField = this.getVersionField();
+        if (versionField) delete body[versionField];
+        // Upserting a record that sits in the trash brings it back
+        const deletedAt = this.getDeletedAtField();
+        if (deletedAt) body[deletedAt] = null;
+
+        return await this.trackWrite(
+          exists ? 'update' : 'create',
+          exists?.id,
+          (manager) =>
+            manager.transaction(async (manager) => {
+              const repo = manager.getRepository(this.tableName);
+              await repo.upsert(body, { conflictPaths: conflictFields });
+              // ON CONFLICT leaves the version column alone
+              if (exists && versionField) {
+                await repo.increment({ id: exists.id }, versionField, 1);
+              }
+              return await this.findByFields(body, conflictFields, repo);
+            }),
+          manager,
+        );
+      });
+      await this.invalidateCache(body);
+
+      const result = await this.find({ where: { id: { _eq: saved.id } } });
+      await this.reload();
+      return result;
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [upsert]:', error);
+      if (
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
       throw new BadRequestException(error.message);
     }
   }
 
+  async createMany(bodies: any[]) {
+    try {
+      if (!Array.isArray(bodies) || bodies.length === 0) {
+        throw new BadRequestException('createMany needs an array of records');
+      }
+      this.assertBulkSupported();
+
+      const ids = await this.getManager().transaction(async (manager) => {
+        for (const [index, body] of bodies.entries()) {
+          await this.prepareCreate(body, { index });
+        }
+        const created = await manager
+          .getRepository(this.tableName)
+          .save(bodies);
+        for (const record of created) {
+          await this.addRevision(manager, 'create', record.id, null);
+        }
+        return created.map((record: any) => record.id);
+      });
+
+      await this.invalidateCache(Object.assign({}, ...bodies));
+      await this.reload();
+      return { ids, count: ids.length };
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [createMany]:', error);
+      if (
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // `target` is a filter or a list of ids. With `expectedVersion`, every
+  // matched record must still be at that version or nothing is written
+  async updateMany(
+    target: any,
+    body: any,
+    options?: { expectedVersion?: number | string },
+  ) {
+    try {
+      const expectedVersion = parseExpectedVersion(options?.expectedVersion);
+      this.assertBulkSupported();
+      await this.assertWritable(body);
+      const existing = await this.findBulkTargets(target, 'update');
+      // Only saving moves the version forward
+      const versionField = this.getVersionField();
+      if (versionField) delete body[versionField];
+
+      const ids = await this.getManager().transaction(async (manager) => {
+        for (const record of existing) {
+          await this.systemProtectionService.assertSystemSafe({
+            operation: 'update',
+            tableName: this.tableName,
+            data: body,
+            existing: record,
+            currentUser: this.context.$user,
+          });
+          this.assertValid(body, {
+            existing: await this.loadStored(record.id, manager),
+          });
+          this.stampUsers(body, 'update');
+          const before = await this.loadRevisionState(manager, record.id);
+          await this.writeVersioned(
+            manager,
+            record.id,
+            expectedVersion,
+            (repo) => repo.save({ ...body, id: record.id }),
+          );
+          await this.addRevision(manager, 'update', record.id, before);
+        }
+        return existing.map((record) => record.id);
+      });
+
+      if (ids.length > 0) {
+        await this.invalidateCache(body);
+        await this.reload();
+      }
+      return { ids, count: ids.length };
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [updateMany]:', error);
+      if (
+        error instanceof PreconditionFailedException ||
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // `target` is a filter or a list of ids
+  async deleteMany(target: any) {
+    try {
+      this.assertBulkSupported();
+      const existing = await this.findBulkTargets(target, 'delete');
+
+      const ids = await this.getManager().transaction(async (manager) => {
+        for (const record of existing) {
+          await this.systemProtectionService.assertSystemSafe({
+            operation: 'delete',
+            tableName: this.tableName,
+            data: {},
+            existing: record,
+            currentUser: this.context.$user,
+          });
+        }
+        const ids = existing.map((record) => record.id);
+        const before = await Promise.all(
+          ids.map((id) => this.loadRevisionState(manager, id)),
+        );
+        if (ids.length > 0) {
+          const repo = manager.getRepository(this.tableName);
+          if (this.getDeletedAtField()) {
+            await repo.softDelete(ids);
+          } else {
+            await repo.delete(ids);
+          }
+        }
+        for (const [index, id] of ids.entries()) {
+          await this.addRevision(manager, 'delete', id, before[index]);
+        }
+        return ids;
+      });
+
+      if (ids.length > 0) {
+        await this.invalidateCache();
+        await this.reload();
+      }
+      return { ids, count: ids.length };
+    } catch (error) {
+      console.error('❌ Error in dynamic repo [deleteMany]:', error);
+      if (
+        error instanceof ValidationException ||
+        error instanceof AuthorizationException
+      ) {
+        throw error;
+      }
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  // Checks and stamps a record about to be inserted, by create() or outside
+  // of it (e.g. an import). Throws what create() would
+  async prepareCreate(body: any, options?: { index?: number }) {
+    await this.systemProtectionService.assertSystemSafe({
+      operation: 'create',
+      tableName: this.tableName,
+      data: body,
+      existing: null,
+      currentUser: this.context.$user,
+    });
+    await this.assertWritable(body);
+    this.assertValid(body, options);
+    this.stampUsers(body, 'create');
+  }
+
+  // Revisions of records inserted outside create(), written with `manager`
+  async recordCreated(manager: EntityManager, ids: (string | number)[]) {
+    for (const id of ids) {
+      await this.addRevision(manager, 'create', id, null);
+    }
+  }
+
+  // Records of another table as the user sees them, e.g. the targets of an
+  // import's relations: rows their policies hide are left out
+  async findReadable(tableName: string, filter: any, fields: string[]) {
+    const { data } = await this.queryEngine.find({
+      tableName,
+      fields,
+      filter,
+      limit: 0,
+      user: this.context.$user,
+      queryRunner: this.context.$trx?.queryRunner,
+      fieldAccess: await this.getFieldAccess(),
+      rowAccess: await this.getRowAccess(),
+    });
+    return data;
+  }
+
+  // Set on tables created with `softDelete`
+  private getDeletedAtField(): string | undefined {
+    return this.dataSourceService.getDataSource().getMetadata(this.tableName)
+      .deleteDateColumn?.propertyName;
+  }
+
+  // Set on tables created with `versioned`
+  private getVersionField(): string | undefined {
+    return this.dataSourceService.getDataSource().getMetadata(this.tableName)
+      .versionColumn?.propertyName;
+  }
+
+  // The version is checked by an UPDATE that also locks the row until the
+  // write commits, so two writers holding the same version can't both pass
+  private async writeVersioned(
+    manager: EntityManager,
+    id: string | number,
+    expectedVersion: number | undefined,
+    write: (repo: Repository<any>) => Promise<any>,
+  ) {
+    const versionField = this.getVersionField();
+    if (!versionField || expectedVersion === undefined) {
+      return await write(manager.getRepository(this.tableName));
+    }
+
+    await manager.transaction(async (manager) => {
+      const meta = manager.connection.getMetadata(this.tableName);
+      const column = manager.connection.driver.escape(
+        meta.versionColumn.databaseName,
+      );
+      const { affected } = await manager
+        .createQueryBuilder()
+        .update(meta.target)
+        .set({ [versionField]: () => column })
+        .where('id = :id', { id })
+        .andWhere(`${column} = :expectedVersion`, { expectedVersion })
+        .execute();
+      if (!affected) {
+        const current = await manager
+          .getRepository(this.tableName)
+          .findOne({ where: { id }, withDeleted: true });
+        throw new PreconditionFailedException(
+          `Version mismatch: expected ${expectedVersion}, current is ${current?.[versionField]}`,
+          { expected: expectedVersion, current: current?.[versionField] },
+        );
+      }
+      await write(manager.getRepository(this.tableName));
+    });
+  }
+
+  // Runs a single-record write and records its revision in one transaction
+  private async trackWrite<T>(
+    action: TRevisionAction,
+    id: string | number | undefined,
+    write: (manager: EntityManager) => Promise<T>,
+    manager: EntityManager = this.getManager(),
+  ): Promise<T> {
+    if (!this.trackRevisions) return await write(manager);
+
+    return await manager.transaction(async (manager) => {
+      const before =
+        id === undefined ? null : await this.loadRevisionState(manager, id);
+      const result: any = await write(manager);
+      await this.addRevision(manager, action, id ?? result?.id, before);
+      return result;
+    });
+  }
+
+  // Columns and owned relation ids; timestamps, the version and hidden
+  // fields are left out
+  private async loadRevisionState(manager: EntityManager, id: string | number) {
+    if (!this.trackRevisions) return null;
+    const meta = manager.connection.getMetadata(this.tableName);
+    const row = await manager.getRepository(this.tableName).findOne({
+      where: { id },
+      withDeleted: true,
+      loadRelationIds: {
+        relations: meta.relations
+          .filter((relation) => relation.isOwning)
+          .map((relation) => relation.propertyName),
+        disableMixedMap: true,
+      },
+    });
+    if (!row) return null;
+
+    const state = stripHiddenFields(meta, row);
+    for (const column of [
+      meta.createDateColumn,
+      meta.updateDateColumn,
+      meta.deleteDateColumn,
+      meta.versionColumn,
+    ]) {
+      if (column) delete state[column.propertyName];
+    }
+    return state;
+  }
+
+  private async addRevision(
+    manager: EntityManager,
+    action: TRevisionAction,
+    id: string | number,
+    before: any,
+  ) {
+    if (!this.trackRevisions) return;
+    const after =
+      action === 'delete' ? null : await this.loadRevisionState(manager, id);
+    const changes = diffRecords(before, after);
+    if (action === 'update' && Object.keys(changes).length === 0) return;
+
+    const req: any = this.context.$req;
+    await manager.getRepository('record_revision').save({
+      tableName: this.tableName,
+      recordId: String(id),
+      action,
+      changes,
+      data: after ?? before,
+      route: req?.method
+        ? `${req.method} ${req.routeData?.path ?? req.path ?? req.url}`
+        : null,
+      user: this.context.$user?.id ? { id: this.context.$user.id } : null,
+    });
+  }
+
+  private async findRevision(revisionId: string | number) {
+    const revision: any = await this.getManager()
+      .getRepository('record_revision')
+      .findOne({ where: { id: revisionId } });
+    if (!revision || revision.tableName !== this.tableName) {
+      throw new BadRequestException(
+        `Revision ${revisionId} is not a revision of ${this.tableName}`,
+      );
+    }
+    return revision;
+  }
+
+  // Validation compares with every stored column, whatever the request
+  // selects or the user may read
+  private async loadStored(
+    id: string | number,
+    manager: EntityManager = this.getManager(),
+  ) {
+    return await manager
+      .getRepository(this.tableName)
+      .findOne({ where: { id }, withDeleted: true });
+  }
+
+  // Existence checks read the stored row: no cache, none of the request's
+  // query options, only the rows the user's policies let them see
+  private async findExisting(id: string | number) {
+    const { data } = await this.queryEngine.find({
+      tableName: this.tableName,
+      fields: '',
+      filter: { id: { _eq: id } },
+      limit: 1,
+      user: this.context.$user,
+      queryRunner: this.context.$trx?.queryRunner,
+      rowAccess: await this.getRowAccess(),
+    });
+    return data[0];
+  }
+
+  private async findWithDeleted(id: string | number) {
+    const { data } = await this.queryEngine.find({
+      tableName: this.tableName,
+      fields: '',
+      filter: { id: { _eq: id } },
+      limit: 1,
+      user: this.context.$user,
+      queryRunner: this.context.$trx?.queryRunner,
+      withDeleted: true,
+    });
+    return data[0];
+  }
+
+  // Every unique constraint of the table, the primary key last
+  private getUniqueConstraints(): string[][] {
+    const meta = this.dataSourceService
+      .getDataSource()
+      .getMetadata(this.tableName);
+    const constraints = [
+      ...meta.uniques,
+      ...meta.indices.filter((index) => index.isUnique),
+    ].map((unique) => unique.columns.map((column) => column.propertyName));
+    constraints.push(meta.primaryColumns.map((column) => column.propertyName));
+    return constraints;
+  }
+
+  private resolveConflictFields(
+    body: any,
+    requested?: string[] | string,
+  ): string[] {
+    const constraints = this.getUniqueConstraints();
+    const hasValue = (field: string) =>
+      body[field] !== undefined && body[field] !== null;
+
+    if (requested === undefined || requested === '') {
+      const covered = constraints.find((fields) => fields.every(hasValue));
+      if (!covered) {
+        throw new BadRequestException(
+          `No unique constraint of ${this.tableName} is covered by the body, pass conflictFields`,
+        );
+      }
+      return covered;
+    }
+
+    const fields = Array.isArray(requested)
+      ? requested
+      : String(requested)
+          .split(',')
+          .map((field) => field.trim())
+          .filter(Boolean);
+    const match = constraints.find(
+      (constraint) =>
+        constraint.length === fields.length &&
+        constraint.every((field) => fields.includes(field)),
+    );
+    if (!match) {
+      throw new BadRequestException(
+        `conflictFields [${fields.join(', ')}] is not a unique constraint of ${this.tableName}`,
+      );
+    }
+    const missing = match.filter((field) => !hasValue(field));
+    if (missing.length) {
+      throw new BadRequestException(
+        `Missing value for conflict fields: ${missing.join(', ')}`,
+      );
+    }
+    return match;
+  }
+
+  // MySQL has no conflict target: ON DUPLICATE KEY UPDATE fires on any
+  // unique key, so one besides `conflictFields` could update another record
+  private assertUpsertUnambiguous(conflictFields: string[]) {
+    const dbType = this.dataSourceService.getDataSource().options.type;
+    if (!['mysql', 'mariadb'].includes(dbType)) return;
+    const others = this.getUniqueConstraints().filter(
+      (fields) =>
+        fields.join(',') !== conflictFields.join(',') &&
+        // Dropped from the body unless it is the conflict target
+        fields.join(',') !== 'id',
+    );
+    if (others.length > 0) {
+      throw new BadRequestException(
+        `Upsert on ${this.tableName} is not supported on MySQL: it has unique keys besides [${conflictFields.join(', ')}]`,
+      );
+    }
+  }
+
+  // Looks a record up by the values the body carries for `fields`, trash
+  // included; relation fields may hold an id or an object with one. `lock`
+  // holds the row until the transaction ends (SQLite locks the whole file)
+  private async findByFields(
+    body: any,
+    fields: string[],
+    repo: Repository<any> = this.getRepo(),
+    options?: { lock?: boolean },
+  ) {
+    const meta = this.dataSourceService
+      .getDataSource()
+      .getMetadata(this.tableName);
+    const where = Object.fromEntries(
+      fields.map((field) => {
+        const value = body[field];
+        if (!meta.findRelationWithPropertyPath(field)) return [field, value];
+        return [field, { id: typeof value === 'object' ? value.id : value }];
+      }),
+    );
+    const lock =
+      options?.lock && repo.manager.connection.options.type !== 'sqlite';
+    return await repo.findOne({
+      where,
+      withDeleted: true,
+      ...(lock && { lock: { mode: 'pessimistic_write' as const } }),
+    });
+  }
+
+  // Set on tables created with `userStamps`, or with hand-written
+  // `createdBy`/`updatedBy` relations to user_definition
+  private getUserStampFields(): string[] {
+    return this.dataSourceService
+      .getDataSource()
+      .getMetadata(this.tableName)
+      .relations.filter(
+        (relation) =>
+          USER_STAMP_FIELDS.includes(relation.propertyName) &&
+          relation.inverseEntityMetadata.tableName === 'user_definition',
+      )
+      .map((relation) => relation.propertyName);
+  }
+
+  // The acting user always wins over whatever the body claims
+  private stampUsers(body: any, operation: 'create' | 'update') {
+    const fields = this.getUserStampFields();
+    if (fields.length === 0) return;
+
+    const userId = this.context.$user?.id;
+    const user = userId ? { id: userId } : null;
+    for (const field of fields) delete body[field];
+    if (operation === 'create' && fields.includes('createdBy')) {
+      body.createdBy = user;
+    }
+    if (fields.includes('updatedBy')) body.updatedBy = user;
+  }
+
+  private getFieldAccess() {
+    return this.queryEngine.getFieldAccess(this.context.$user);
+  }
+
+  // Revisions keep every field, so the unreadable ones go on the way out
+  private async withoutUnreadable(state: any) {
+    const access = await this.getFieldAccess();
+    if (!access || !state) return state;
+    return Object.fromEntries(
+      Object.entries(state).filter(([field]) =>
+        access.can(this.tableName, field, 'read'),
+      ),
+    );
+  }
+
+  private getRowAccess() {
+    return this.queryEngine.getRowAccess(this.context.$user);
+  }
+
+  // A record must pass the user's `read` policies as well as the ones on
+  // `action`: a row the user can't see can't be changed either
+  private async assertRowAllowed(
+    id: string | number,
+    action: TRowAction,
+    queryRunner = this.context.$trx?.queryRunner,
+  ) {
+    const rowAccess = await this.getRowAccess();
+    if (!rowAccess) return;
+    for (const checked of new Set<TRowAction>(['read', action])) {
+      const [allowed] = await this.queryEngine.findVisibleIds({
+        tableName: this.tableName,
+        ids: [id],
+        action: checked,
+        user: this.context.$user,
+        queryRunner,
+        rowAccess,
+      });
+      if (allowed === undefined) {
+        throw new AuthorizationException(
+          `Not allowed to ${action} id ${id} of ${this.tableName}`,
+          { id },
+        );
+      }
+    }
+  }
+
+  // Writes that create a record from another method, like reverting a
+  // purged one, need the route's POST permission as create() does
+  private assertCanCreate() {
+    const req: any = this.context.$req;
+    const route = req?.routeData;
+    if (!route || !this.authorizationService) return;
+    const decision = this.authorizationService.checkRoute(
+      route,
+      this.context.$user,
+      'POST',
+    );
+    if (!decision.allowed) throw new AuthorizationException(decision.reason);
+  }
+
+  // Fields named by a `write` field permission need one of its roles
+  private async assertWritable(data: any) {
+    assertWritableFields(this.tableName, data, await this.getFieldAccess());
+  }
+
+  // Column `validation` rules are checked before anything is written
+  private assertValid(data: any, options?: { existing?: any; index?: number }) {
+    const meta = this.dataSourceService
+      .getDataSource()
+      .getMetadata(this.tableName);
+    assertValidRecord(meta, data, options);
+  }
+
+  // Table definitions need TableHandlerService, one table at a time
+  private assertBulkSupported() {
+    if (this.tableName === 'table_definition') {
+      throw new BadRequestException(
+        'Bulk operations are not supported on table_definition',
+      );
+    }
+  }
+
+  // An empty filter would match every row, so one is required. Rows the
+  // user's `action` policies leave out are skipped
+  private async findBulkTargets(
+    target: any,
+    action: TRowAction,
+  ): Promise<any[]> {
+    const filter = Array.isArray(target) ? { id: { _in: target } } : target;
+    if (
+      !filter ||
+      typeof filter !== 'object' ||
+      Object.keys(filter).length === 0 ||
+      (Array.isArray(target) && target.length === 0)
+    ) {
+      throw new BadRequestException('A filter or a list of ids is required');
+    }
+
+    const rowAccess = await this.getRowAccess();
+    const { data } = await this.queryEngine.find({
+      tableName: this.tableName,
+      fields: '',
+      filter,
+      limit: 0,
+      strict: this.resolveStrict(),
+      user: this.context.$user,
+      queryRunner: this.context.$trx?.queryRunner,
+      fieldAccess: await this.getFieldAccess(),
+      rowAccess,
+    });
+    const allowed = await this.queryEngine.findVisibleIds({
+      tableName: this.tableName,
+      ids: data.map((record: any) => record.id),
+      action,
+      user: this.context.$user,
+      queryRunner: this.context.$trx?.queryRunner,
+      rowAccess,
+    });
+    const allowedIds = new Set(allowed.map(String));
+    return data.filter((record: any) => allowedIds.has(String(record.id)));
+  }
+
   private async reload() {
     if (
       [
@@ -174,5 +1328,11 @@ export class DynamicRepository {
     ) {
       await this.routeCacheService.reloadRouteCache();
     }
+    if (this.tableName === 'field_permission_definition') {
+      await this.queryEngine.reloadFieldPermissions();
+    }
+    if (this.tableName === 'row_policy_definition') {
+      this.queryEngine.reloadRowPolicies();
+    }
   }
 }
@@ -2,16 +2,32 @@
 import { Request } from 'express';
 
 // @nestjs packages
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, StreamableFile } from '@nestjs/common';
 
 // Internal imports
 import {
+  BusinessLogicException,
   ResourceNotFoundException,
   ScriptExecutionException,
 } from '../../../core/exceptions/custom-exceptions';
 import { LoggingService } from '../../../core/exceptions/services/logging.service';
+import { DataSourceService } from '../../../core/database/data-source/data-source.service';
 import { HandlerExecutorService } from '../../../infrastructure/handler-executor/services/handler-executor.service';
 import { RequestWithRouteData } from '../../../shared/interfaces/dynamic-context.interface';
+import {
+  createExportStream,
+  EXPORT_CONTENT_TYPES,
+  resolveExportFormat,
+  stripHiddenFields,
+  TExportFormat,
+} from '../../../shared/utils/export-stream';
+import {
+  parseImportFile,
+  resolveImportFormat,
+  TImportFormat,
+} from '../../../shared/utils/import-rows';
+import { formatETag } from '../../../shared/utils/etag';
+import { ImportService } from './import.service';
 
 @Injectable()
 export class DynamicService {
@@ -20,6 +36,8 @@ export class DynamicService {
   constructor(
     private handlerExecutorService: HandlerExecutorService,
     private loggingService: LoggingService,
+    private dataSourceService: DataSourceService,
+    private importService: ImportService,
   ) {}
 
   async runHandler(req: RequestWithRouteData) {
@@ -42,6 +60,39 @@ export class DynamicService {
         throw new ResourceNotFoundException('Handler', req.method);
       }
 
+      const exportFormat =
+        req.method === 'GET'
+          ? resolveExportFormat(req.query, req.headers?.accept)
+          : null;
+      if (exportFormat) {
+        // Custom handlers return arbitrary data, which cannot be streamed
+        if (userHandler || !defaultHandler) {
+          throw new BusinessLogicException(
+            'Export is only available on routes without a custom GET handler',
+          );
+        }
+        return await this.exportRows(req, exportFormat);
+      }
+
+      const importFormat =
+        req.method === 'POST' ? resolveImportFormat(req.query) : null;
+      if (importFormat) {
+        if (userHandler || !defaultHandler) {
+          throw new BusinessLogicException(
+            'Import is only available on routes without a custom POST handler',
+          );
+        }
+        return await this.importRows(req, importFormat);
+      }
+
+      // Progress of a background import started on this route
+      if (req.method === 'GET' && req.query?.importJob) {
+        return await this.importService.getJob(
+          String(req.query.importJob),
+          req.user,
+        );
+      }
+
       const scriptCode = userHandler || defaultHandler;
 
       const result = await this.handlerExecutorService.run(
@@ -49,6 +100,7 @@ export class DynamicService {
         req.routeData.context,
       );
 
+      this.setETag(req, result);
       return result;
     } catch (error) {
       this.loggingService.error('Handler execution failed', {
@@ -81,16 +133,112 @@ export class DynamicService {
     }
   }
 
+  // A single versioned record, read or updated by its `:id`, is tagged with
+  // its version, for `If-Match`. A list that holds one row is not tagged
+  private setETag(req: RequestWithRouteData, result: any) {
+    const tableName = req.routeData.mainTable?.name;
+    if (!tableName || !['GET', 'PATCH'].includes(req.method)) return;
+    if (req.routeData.params?.id === undefined) return;
+    const versionField = this.dataSourceService
+      .getDataSource()
+      .getMetadata(tableName).versionColumn?.propertyName;
+    const rows = result?.data;
+    if (!versionField || !Array.isArray(rows) || rows.length !== 1) return;
+
+    const version = rows[0]?.[versionField];
+    if (version === undefined || version === null) return;
+    req.res?.setHeader('ETag', formatETag(version));
+  }
+
+  private async exportRows(
+    req: RequestWithRouteData,
+    format: TExportFormat,
+  ): Promise<StreamableFile> {
+    const tableName = req.routeData.mainTable.name;
+    const meta = this.dataSourceService.getDataSource().getMetadata(tableName);
+    const stream = await createExportStream({
+      batches: req.routeData.context.$repos.main.stream(),
+      format,
+      mapRow: (row) => stripHiddenFields(meta, row),
+    });
+
+    return new StreamableFile(stream, {
+      type: EXPORT_CONTENT_TYPES[format],
+      disposition: `attachment; filename="${tableName}.${format}"`,
+    });
+  }
+
+  // Rows come from an uploaded `file`, or `rows` in a JSON body
+  private async importRows(req: RequestWithRouteData, format: TImportFormat) {
+    const { mainTable } = req.routeData;
+    if (mainTable.isSystem) {
+      throw new BusinessLogicException(
+        'Import is not available for system tables',
+      );
+    }
+
+    const { $body, $uploadedFile, $query } = req.routeData.context;
+    const body = $body ?? {};
+    const records = $uploadedFile
+      ? parseImportFile($uploadedFile.buffer, format)
+      : Array.isArray(body)
+        ? body
+        : body.rows;
+    if (!Array.isArray(records)) {
+      throw new BusinessLogicException(
+        'Import needs a `file` upload or a `rows` array',
+      );
+    }
+
+    let mapping = body.mapping;
+    if (typeof mapping === 'string') {
+      try {
+        mapping = JSON.parse(mapping);
+      } catch {
+        throw new BusinessLogicException('`mapping` must be a JSON object');
+      }
+    }
+    const dryRun = $query?.dryRun ?? body.dryRun;
+
+    return await this.importService.import({
+      tableName: mainTable.name,
+      repo: req.routeData.context.$repos.main,
+      records,
+      mapping,
+      dryRun: dryRun === true || dryRun === 'true',
+      user: req.user,
+    });
+  }
+
+  // Without an id, PATCH and DELETE apply to every row matching `filter`
+  // (or the `ids` in the body); an array body creates many rows.
+  // `PATCH /:id?restore` and `DELETE /:id?purge` manage the trash,
+  // `If-Match` guards single-record writes to versioned tables, and PUT
+  // upserts by a unique constraint. `GET ?revisions=<id>`, `GET ?compare=a,b`
+  // and `PATCH /:id?revision=<id>` read and roll back revision history
   private getDefaultHandler(method: string): string {
+    const flag = (name: string) =>
+      `['', 'true', true].includes($ctx.$query.${name})`;
+    const ifMatch = `{ expectedVersion: $ctx.$req.headers?.['if-match'] }`;
     switch (method) {
       case 'DELETE':
-        return `return await $ctx.$repos.main.delete($ctx.$params.id);`;
+        return `if ($ctx.$params.id === undefined) return await $ctx.$repos.main.deleteMany($ctx.$body?.ids ?? $ctx.$query.filter);
+if (${flag('purge')}) return await $ctx.$repos.main.purge($ctx.$params.id);
+return await $ctx.$repos.main.delete($ctx.$params.id, ${ifMatch});`;
       case 'POST':
-        return `return await $ctx.$repos.main.create($ctx.$body);`;
+        return `if (Array.isArray($ctx.$body)) return await $ctx.$repos.main.createMany($ctx.$body);
+return await $ctx.$repos.main.create($ctx.$body);`;
       case 'PATCH':
-        return `return await $ctx.$repos.main.update($ctx.$params.id, $ctx.$body);`;
+        return `if ($ctx.$params.id === undefined) return await $ctx.$repos.main.updateMany($ctx.$query.filter, $ctx.$body, ${ifMatch});
+if (${flag('restore')}) return await $ctx.$repos.main.restore($ctx.$params.id);
+if ($ctx.$query.revision !== undefined) return await $ctx.$repos.main.revert($ctx.$params.id, $ctx.$query.revision);
+return await $ctx.$repos.main.update($ctx.$params.id, $ctx.$body, ${ifMatch});`;
+      case 'PUT':
+        return `return await $ctx.$repos.main.upsert($ctx.$body, { conflictFields: $ctx.$query.conflictFields });`;
       default:
-        return `return await $ctx.$repos.main.find();`;
+        return `if ($ctx.$query.revisions !== undefined) return await $ctx.$repos.main.revisions($ctx.$query.revisions);
+if ($ctx.$query.compare !== undefined) return await $ctx.$repos.main.compareRevisions(...String($ctx.$query.compare).split(','));
+return await $ctx.$repos.main.find();`;
     }
   }
 }
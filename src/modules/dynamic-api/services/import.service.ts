@@ -0,0 +1,531 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { Redis } from 'ioredis';
+import * as crypto from 'crypto';
+import { EntityManager, EntityMetadata } from 'typeorm';
+import { RelationMetadata } from 'typeorm/metadata/RelationMetadata';
+import { DataSourceService } from '../../../core/database/data-source/data-source.service';
+import {
+  BusinessLogicException,
+  ResourceNotFoundException,
+} from '../../../core/exceptions/custom-exceptions';
+import { QueryCacheService } from '../../../infrastructure/redis/services/query-cache.service';
+import { DynamicRepository } from '../repositories/dynamic.repository';
+import { coerceImportValue } from '../../../shared/utils/import-rows';
+
+export type TImportRowError = {
+  // 1-based position of the record in the file, header excluded
+  row: number;
+  field?: string;
+  message: string;
+};
+
+export type TImportReport = {
+  dryRun: boolean;
+  total: number;
+  processed: number;
+  inserted: number;
+  failed: number;
+  errors: TImportRowError[];
+};
+
+export type TImportJob = TImportReport & {
+  id: string;
+  tableName: string;
+  status: 'running' | 'completed' | 'failed';
+  userId: string | number | null;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+};
+
+type TImportTarget =
+  | { kind: 'column'; source: string; field: string; column: any }
+  | {
+      kind: 'relation';
+      source: string;
+      field: string;
+      relation: RelationMetadata;
+      // Related column the cell is matched against
+      lookup: string;
+    };
+
+type TPreparedRow = { row: number; entity: Record<string, any> };
+
+@Injectable()
+export class ImportService {
+  private readonly logger = new Logger(ImportService.name);
+  private readonly redis: Redis | null;
+  private readonly jobPrefix = 'import:job:';
+  private readonly jobTtl = 86400;
+  // Without Redis, progress is only visible on this instance
+  private readonly localJobs = new Map<string, TImportJob>();
+
+  // Larger files are imported in the background
+  readonly backgroundThreshold = 5000;
+  readonly batchSize = 500;
+  readonly maxReportedErrors = 1000;
+
+  constructor(
+    private dataSourceService: DataSourceService,
+    private queryCacheService: QueryCacheService,
+    private redisService: RedisService,
+  ) {
+    this.redis = this.redisService.getOrNil();
+  }
+
+  /**
+   * Validate `records` against the table's columns and insert them in
+   * batched transactions. `mapping` maps a source column to a column name,
+   * a relation (matched by id) or `relation.field` (matched by a unique
+   * field); without it the source columns are used as is. Rows are
+   * stamped and their revisions recorded through `repo`, the route's
+   * repository of the table, as its create() would.
+   */
+  async import({
+    tableName,
+    repo,
+    records,
+    mapping,
+    dryRun = false,
+    user,
+  }: {
+    tableName: string;
+    repo: DynamicRepository;
+    records: Record<string, any>[];
+    mapping?: Record<string, string>;
+    dryRun?: boolean;
+    user?: any;
+  }): Promise<TImportReport | TImportJob> {
+    const targets = await this.resolveTargets(tableName, records, mapping);
+    if (records.length <= this.backgroundThreshold) {
+      return await this.runImport(tableName, repo, records, targets, dryRun);
+    }
+
+    const job: TImportJob = {
+      id: crypto.randomUUID(),
+      tableName,
+      status: 'running',
+      userId: user?.id ?? null,
+      dryRun,
+      total: records.length,
+      processed: 0,
+      inserted: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date().toISOString(),
+    };
+    await this.saveJob(job);
+
+    this.runImport(tableName, repo, records, targets, dryRun, (report) =>
+      this.saveJob({ ...job, ...report }),
+    )
+      .then((report) =>
+        this.saveJob({
+          ...job,
+          ...report,
+          status: 'completed',
+          finishedAt: new Date().toISOString(),
+        }),
+      )
+      .catch(async (error) => {
+        this.logger.error(`Import job ${job.id} failed: ${error.message}`);
+        const current = (await this.loadJob(job.id)) ?? job;
+        await this.saveJob({
+          ...current,
+          status: 'failed',
+          error: error.message,
+          finishedAt: new Date().toISOString(),
+        });
+      });
+
+    return job;
+  }
+
+  // Jobs are only visible to the user who started them and root admins
+  async getJob(id: string, user?: any): Promise<TImportJob> {
+    const job = await this.loadJob(id);
+    if (!job || (!user?.isRootAdmin && job.userId !== (user?.id ?? null))) {
+      throw new ResourceNotFoundException('Import job', id);
+    }
+    return job;
+  }
+
+  private async runImport(
+    tableName: string,
+    repo: DynamicRepository,
+    records: Record<string, any>[],
+    targets: TImportTarget[],
+    dryRun: boolean,
+    onProgress?: (report: TImportReport) => Promise<void>,
+  ): Promise<TImportReport> {
+    const report: TImportReport = {
+      dryRun,
+      total: records.length,
+      processed: 0,
+      inserted: 0,
+      failed: 0,
+      errors: [],
+    };
+    const failedRows = new Set<number>();
+    const addError = (error: TImportRowError) => {
+      failedRows.add(error.row);
+      report.failed = failedRows.size;
+      if (report.errors.length < this.maxReportedErrors) {
+        report.errors.push(error);
+      }
+    };
+
+    for (let start = 0; start < records.length; start += this.batchSize) {
+      const batch = records.slice(start, start + this.batchSize);
+      const prepared = await this.prepareBatch(
+        repo,
+        batch,
+        start,
+        targets,
+        addError,
+      );
+      if (!dryRun && prepared.length > 0) {
+        report.inserted += await this.insertBatch(
+          tableName,
+          repo,
+          prepared,
+          addError,
+        );
+      }
+      report.processed = start + batch.length;
+      await onProgress?.({ ...report });
+    }
+
+    if (report.inserted > 0) {
+      await repo.onCommit(() =>
+        this.queryCacheService.invalidate([
+          tableName,
+          ...targets
+            .filter((target) => target.kind === 'relation')
+            .map(
+              (target: any) => target.relation.inverseEntityMetadata.tableName,
+            ),
+        ]),
+      );
+    }
+    return report;
+  }
+
+  private async resolveTargets(
+    tableName: string,
+    records: Record<string, any>[],
+    mapping?: Record<string, string>,
+  ): Promise<TImportTarget[]> {
+    const dataSource = this.dataSourceService.getDataSource();
+    const meta = dataSource.getMetadata(tableName);
+    const columns = await dataSource
+      .getRepository('column_definition')
+      .find({ where: { table: { name: tableName } } });
+
+    // Imports only create records, an id would update an existing one
+    const isPrimary = (field: string) =>
+      meta.primaryColumns.some((column) => column.propertyName === field);
+    const sources = mapping
+      ? Object.entries(mapping)
+      : [...new Set(records.flatMap((record) => Object.keys(record)))]
+          .filter((source) => !isPrimary(source))
+          .map((source) => [source, source]);
+
+    const targets = sources.map(([source, target]): TImportTarget => {
+      const [field, lookup, ...rest] = String(target).split('.');
+      if (isPrimary(field)) {
+        throw new BusinessLogicException(
+          `Column "${source}" cannot be imported into the primary key "${field}"`,
+        );
+      }
+      const column = columns.find((c: any) => c.name === field);
+      if (column && lookup === undefined) {
+        return { kind: 'column', source, field, column };
+      }
+
+      const relation = meta.relations.find((r) => r.propertyName === field);
+      if (
+        !relation ||
+        rest.length > 0 ||
+        relation.isOneToMany ||
+        relation.isOneToOneNotOwner
+      ) {
+        throw new BusinessLogicException(
+          `Unknown import target "${target}" for column "${source}"`,
+        );
+      }
+      const relatedMeta = relation.inverseEntityMetadata;
+      const key = lookup ?? 'id';
+      if (!this.isUniqueField(relatedMeta, key)) {
+        throw new BusinessLogicException(
+          `"${target}" must be the id or a unique field of ${relatedMeta.tableName}`,
+        );
+      }
+      return { kind: 'relation', source, field, relation, lookup: key };
+    });
+
+    // Required columns the file never fills would fail every row
+    for (const column of columns) {
+      const isRequired =
+        column.isNullable === false &&
+        !column.isGenerated &&
+        column.defaultValue == null;
+      if (isRequired && !targets.some((t) => t.field === column.name)) {
+        throw new BusinessLogicException(
+          `Required column "${column.name}" is not mapped`,
+        );
+      }
+    }
+    return targets;
+  }
+
+  private isUniqueField(meta: EntityMetadata, field: string): boolean {
+    if (meta.primaryColumns.some((c) => c.propertyName === field)) return true;
+    return [...meta.uniques, ...meta.indices.filter((i) => i.isUnique)].some(
+      (unique) =>
+        unique.columns.length === 1 && unique.columns[0].propertyName === field,
+    );
+  }
+
+  // Coerce every cell and resolve relations with one query per relation.
+  // Rows then go through the repository's create checks and stamps
+  private async prepareBatch(
+    repo: DynamicRepository,
+    batch: Record<string, any>[],
+    offset: number,
+    targets: TImportTarget[],
+    addError: (error: TImportRowError) => void,
+  ): Promise<TPreparedRow[]> {
+    const lookups = new Map<TImportTarget, Map<string, any>>();
+    for (const target of targets) {
+      if (target.kind !== 'relation') continue;
+      const values = new Set<string>();
+      for (const record of batch) {
+        for (const value of this.relationValues(target, record[target.source]))
+          values.add(value);
+      }
+      lookups.set(target, await this.lookupRelated(repo, target, [...values]));
+    }
+
+    const prepared: TPreparedRow[] = [];
+    for (const [index, record] of batch.entries()) {
+      const row = offset + index + 1;
+      const entity: Record<string, any> = {};
+      let valid = true;
+
+      for (const target of targets) {
+        const value = record[target.source];
+        if (target.kind === 'column') {
+          try {
+            entity[target.field] = coerceImportValue(target.column, value);
+          } catch (error) {
+            addError({ row, field: target.source, message: error.message });
+            valid = false;
+            continue;
+          }
+          const { column } = target;
+          if (
+            entity[target.field] === null &&
+            column.isNullable === false &&
+            !column.isGenerated &&
+            column.defaultValue == null
+          ) {
+            addError({ row, field: target.source, message: 'is required' });
+            valid = false;
+          }
+          continue;
+        }
+
+        const found = lookups.get(target);
+        const ids = this.relationValues(target, value).map((key) => {
+          if (!found.has(key)) {
+            addError({
+              row,
+              field: target.source,
+              message: `no ${target.relation.inverseEntityMetadata.tableName} with ${target.lookup} "${key}"`,
+            });
+            valid = false;
+          }
+          return { id: found.get(key) };
+        });
+        entity[target.field] = target.relation.isManyToMany
+          ? ids
+          : (ids[0] ?? null);
+      }
+
+      if (!valid) continue;
+      try {
+        await repo.prepareCreate(entity);
+      } catch (error) {
+        this.reportRejected(row, error, targets, addError);
+        continue;
+      }
+      prepared.push({ row, entity });
+    }
+    return prepared;
+  }
+
+  // Validation and field permission errors name the fields they reject,
+  // reported under the file's column names
+  private reportRejected(
+    row: number,
+    error: any,
+    targets: TImportTarget[],
+    addError: (error: TImportRowError) => void,
+  ) {
+    const fields = error?.details?.fields;
+    if (!fields) {
+      addError({ row, message: error.message });
+      return;
+    }
+    const rejected: [string, string][] = Array.isArray(fields)
+      ? fields.map((field) => [field, 'is not writable'])
+      : Object.entries(fields).map(([field, messages]: [string, any]) => [
+          field,
+          messages.join(', '),
+        ]);
+    for (const [field, message] of rejected) {
+      const source = targets.find((t) => t.field === field)?.source ?? field;
+      addError({ row, field: source, message });
+    }
+  }
+
+  // To-many cells hold a JSON array or a comma separated list; JSON
+  // imports may also give `{ id }` objects
+  private relationValues(target: TImportTarget, value: any): string[] {
+    if (target.kind !== 'relation') return [];
+    let values = value;
+    if (target.relation.isManyToMany && typeof value === 'string') {
+      try {
+        values = JSON.parse(value);
+      } catch {
+        values = value.split(',');
+      }
+    }
+    return (Array.isArray(values) ? values : [values])
+      .map((v) => (v && typeof v === 'object' ? v[target.lookup] : v))
+      .filter((v) => v !== undefined && v !== null && String(v).trim() !== '')
+      .map((v) => String(v).trim());
+  }
+
+  // Read as the importing user: a record their policies hide is reported
+  // like a missing one and can't be linked
+  private async lookupRelated(
+    repo: DynamicRepository,
+    target: Extract<TImportTarget, { kind: 'relation' }>,
+    values: string[],
+  ): Promise<Map<string, any>> {
+    if (values.length === 0) return new Map();
+    const rows = await repo.findReadable(
+      target.relation.inverseEntityMetadata.tableName,
+      { [target.lookup]: { _in: values } },
+      ['id', target.lookup],
+    );
+    return new Map(
+      rows.map((row: any) => [String(row[target.lookup]), row.id]),
+    );
+  }
+
+  // A failing batch is rolled back and retried row by row, so only the rows
+  // the database rejects are skipped. Inside a route's transaction, batches
+  // are savepoints and commit with it
+  private async insertBatch(
+    tableName: string,
+    repo: DynamicRepository,
+    prepared: TPreparedRow[],
+    addError: (error: TImportRowError) => void,
+  ): Promise<number> {
+    try {
+      await repo.transaction((manager) =>
+        this.insertRows(
+          manager,
+          tableName,
+          repo,
+          prepared.map((p) => p.entity),
+        ),
+      );
+      return prepared.length;
+    } catch {
+      let inserted = 0;
+      for (const { row, entity } of prepared) {
+        try {
+          await repo.transaction((manager) =>
+            this.insertRows(manager, tableName, repo, [entity]),
+          );
+          inserted++;
+        } catch (error) {
+          addError({ row, message: error.message });
+        }
+      }
+      return inserted;
+    }
+  }
+
+  // A plain INSERT, so a row can never overwrite an existing record;
+  // many-to-many links are added once the rows have ids
+  private async insertRows(
+    manager: EntityManager,
+    tableName: string,
+    repo: DynamicRepository,
+    entities: Record<string, any>[],
+  ): Promise<any[]> {
+    const meta = manager.connection.getMetadata(tableName);
+    const links = meta.manyToManyRelations.map(
+      (relation) => relation.propertyName,
+    );
+    const rows = entities.map((entity) =>
+      Object.fromEntries(
+        Object.entries(entity).filter(([field]) => !links.includes(field)),
+      ),
+    );
+    const { identifiers } = await manager.getRepository(tableName).insert(rows);
+
+    const ids = identifiers.map((identifier) => identifier.id);
+    for (const [index, entity] of entities.entries()) {
+      for (const field of links) {
+        if (!entity[field]?.length) continue;
+        await manager
+          .createQueryBuilder()
+          .relation(meta.target, field)
+          .of(ids[index])
+          .add(entity[field].map((related: any) => related.id));
+      }
+    }
+    await repo.recordCreated(manager, ids);
+    return ids;
+  }
+
+  private async saveJob(job: TImportJob) {
+    if (!this.redis) {
+      this.evictLocalJobs();
+      this.localJobs.set(job.id, job);
+      return;
+    }
+    await this.redis.set(
+      `${this.jobPrefix}${job.id}`,
+      JSON.stringify(job),
+      'EX',
+      this.jobTtl,
+    );
+  }
+
+  private async loadJob(id: string): Promise<TImportJob | null> {
+    if (!this.redis) {
+      this.evictLocalJobs();
+      return this.localJobs.get(id) ?? null;
+    }
+    const raw = await this.redis.get(`${this.jobPrefix}${id}`);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  // Finished jobs expire after jobTtl, as they do in Redis
+  private evictLocalJobs() {
+    const expiredBefore = Date.now() - this.jobTtl * 1000;
+    for (const [id, job] of this.localJobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < expiredBefore) {
+        this.localJobs.delete(id);
+      }
+    }
+  }
+}
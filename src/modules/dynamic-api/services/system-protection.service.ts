@@ -81,9 +81,11 @@ export class SystemProtectionService {
     const repo = dataSource.getRepository(meta.target);
     const relations = this.getAllRelationFieldsWithInverse(tableName);
 
+    // Restores and purges check records that are in the trash
     const full = await repo.findOne({
       where: { id: existing.id },
       relations,
+      withDeleted: true,
     });
 
     if (!full) throw new Error('Full system record not found');
@@ -4,6 +4,7 @@ import {
   AuthorizationException,
 } from '../../../core/exceptions/custom-exceptions';
 import { DataSourceService } from '../../../core/database/data-source/data-source.service';
+import { AuthorizationService } from '../../../core/auth/services/authorization.service';
 import { FileManagementService } from './file-management.service';
 import { Response } from 'express';
 import { RequestWithRouteData } from '../../../shared/interfaces/dynamic-context.interface';
@@ -42,6 +43,7 @@ export class FileAssetsService {
     private dataSourceService: DataSourceService,
     private fileManagementService: FileManagementService,
     private redisService: RedisService,
+    private authorizationService: AuthorizationService,
   ) {
     this.redis = this.redisService.getOrNil();
     if (!this.redis)
@@ -338,20 +340,12 @@ export class FileAssetsService {
     file: any,
     req: RequestWithRouteData,
   ): Promise<void> {
-    if (file.isPublished === true) return;
-
     const user = req.routeData?.context?.$user || req.user;
-    if (!user?.id) throw new AuthenticationException('Authentication required');
-    if (user.isRootAdmin === true) return;
-
-    const hasAccess = (file.permissions || []).some(
-      (p: any) =>
-        p.isEnabled !== false &&
-        (p.allowedUsers?.id === user.id ||
-          (p.role && user.role?.id === p.role.id)),
-    );
-
-    if (!hasAccess) throw new AuthorizationException('Access denied');
+    const decision = this.authorizationService.checkFile(file, user);
+    if (decision.rule === 'unauthenticated') {
+      throw new AuthenticationException('Authentication required');
+    }
+    if (!decision.allowed) throw new AuthorizationException('Access denied');
   }
 
   private generateCacheKey(
@@ -16,8 +16,18 @@ import { DataSourceService } from '../../../core/database/data-source/data-sourc
 import { GLOBAL_ROUTES_KEY } from '../../../shared/utils/constant';
 import { HandlerExecutorService } from '../../../infrastructure/handler-executor/services/handler-executor.service';
 import { RouteCacheService } from '../../../infrastructure/redis/services/route-cache.service';
+import { QueryCacheService } from '../../../infrastructure/redis/services/query-cache.service';
 import { SystemProtectionService } from '../../dynamic-api/services/system-protection.service';
 import { ScriptErrorFactory } from '../../../shared/utils/script-error-factory';
+import { validateQuery } from '../../../infrastructure/query-engine/utils/validate-query';
+import { resolveFilterVariables } from '../../../infrastructure/query-engine/utils/filter-variables';
+import {
+  analyzeQueryCost,
+  assertQueryCost,
+  resolveQueryCostLimits,
+} from '../../../infrastructure/query-engine/utils/query-cost';
+import { QueryCostExceededException } from '../../../core/exceptions/custom-exceptions';
+import { AuthorizationService } from '../../../core/auth/services/authorization.service';
 
 @Injectable()
 export class DynamicResolver {
@@ -31,6 +41,8 @@ export class DynamicResolver {
     private handlerExecutorService: HandlerExecutorService,
     private routeCacheService: RouteCacheService,
     private systemProtectionService: SystemProtectionService,
+    private queryCacheService: QueryCacheService,
+    private authorizationService: AuthorizationService,
   ) {}
 
   async dynamicResolver(
@@ -42,15 +54,15 @@ export class DynamicResolver {
       meta: 'filterCount' | 'totalCount' | '*';
       sort: string | string[];
       aggregate: any;
+      after?: string;
+      before?: string;
+      strict?: boolean;
     },
     context: any,
     info: any,
   ) {
-    const { mainTable, targetTables, user } = await this.middleware(
-      tableName,
-      context,
-      info,
-    );
+    const { matchedRoute, mainTable, targetTables, user } =
+      await this.middleware(tableName, context, info);
 
     const selections = info.fieldNodes?.[0]?.selectionSet?.selections || [];
     const fullFieldPicker = convertFieldNodesToFieldPicker(selections);
@@ -61,6 +73,41 @@ export class DynamicResolver {
       .filter((f) => f.startsWith('meta.'))
       .map((f) => f.replace(/^meta\./, ''));
 
+    // The selection set is checked by the schema, the JSON arguments are not
+    if (args.strict ?? (await this.queryEngine.isStrictByDefault())) {
+      const errors = validateQuery({
+        meta: this.dataSourceService
+          .getDataSource()
+          .getMetadata(mainTable.name),
+        filter: resolveFilterVariables(args.filter, { user }),
+        sort: args.sort,
+      });
+      if (errors.length > 0) {
+        throwGqlError('422', 'Invalid query', { errors });
+      }
+    }
+
+    // Same limits as REST, checked here so the error keeps its details
+    if (!user?.isRootAdmin) {
+      try {
+        assertQueryCost(
+          analyzeQueryCost({
+            meta: this.dataSourceService
+              .getDataSource()
+              .getMetadata(mainTable.name),
+            fields: fieldPicker,
+            filter: resolveFilterVariables(args.filter, { user }),
+            sort: args.sort,
+            limit: args.limit || 10,
+          }),
+          resolveQueryCostLimits(user?.role),
+        );
+      } catch (error) {
+        if (!(error instanceof QueryCostExceededException)) throw error;
+        throwGqlError('400', error.message, error.details);
+      }
+    }
+
     // Create context compatible with DynamicRepository
     const handlerCtx: any = {
       $errors: ScriptErrorFactory.createErrorHandlers(),
@@ -76,6 +123,9 @@ export class DynamicResolver {
         meta: metaPicker.join(',') as any,
         sort: args.sort,
         aggregate: args.aggregate,
+        after: args.after,
+        before: args.before,
+        strict: args.strict,
       },
       $query: {
         fields: fieldPicker.join(','),
@@ -85,6 +135,9 @@ export class DynamicResolver {
         meta: metaPicker.join(',') as any,
         sort: args.sort,
         aggregate: args.aggregate,
+        after: args.after,
+        before: args.before,
+        strict: args.strict,
       },
       $user: user ?? undefined,
       $repos: {}, // Will be populated below
@@ -106,6 +159,11 @@ export class DynamicResolver {
           queryEngine: this.queryEngine,
           routeCacheService: this.routeCacheService,
           systemProtectionService: this.systemProtectionService,
+          queryCacheService: this.queryCacheService,
+          cacheTtl:
+            (table.name === mainTable.name && matchedRoute.cacheTtl) ||
+            table.cacheTtl,
+          trackRevisions: table.trackRevisions,
           // folderManagementService is optional, not needed in GraphQL
         });
 
@@ -161,16 +219,17 @@ export class DynamicResolver {
     };
   }
 
+  // Same rules as the REST RoleGuard, for the GQL_QUERY method
   private async canPass(currentRoute: any, accessToken: string) {
-    if (!currentRoute?.isEnabled) {
+    const anonymous = this.authorizationService.checkRoute(
+      currentRoute,
+      null,
+      'GQL_QUERY',
+    );
+    if (anonymous.rule === 'not-found') {
       throwGqlError('404', 'NotFound');
     }
-
-    const isPublished = currentRoute.publishedMethods.some(
-      (item: any) => item.method === 'GQL_QUERY',
-    );
-
-    if (isPublished) {
+    if (anonymous.allowed) {
       return { isAnonymous: true };
     }
 
@@ -191,15 +250,12 @@ export class DynamicResolver {
       throwGqlError('401', 'Invalid user');
     }
 
-    const canPass =
-      user.isRootAdmin ||
-      currentRoute.routePermissions?.some(
-        (permission: any) =>
-          permission.role?.id === user.role?.id &&
-          permission.methods?.includes('GQL_QUERY'),
-      );
-
-    if (!canPass) {
+    const decision = this.authorizationService.checkRoute(
+      currentRoute,
+      user,
+      'GQL_QUERY',
+    );
+    if (!decision.allowed) {
       throwGqlError('403', 'Not allowed');
     }
 
@@ -9,6 +9,8 @@ import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 
 // Internal imports
 import { DataSourceService } from '../../../core/database/data-source/data-source.service';
+import { QueryEngine } from '../../../infrastructure/query-engine/services/query-engine.service';
+import { getReadRestrictedFields } from '../../../shared/utils/field-permission';
 
 // Relative imports
 import { DynamicResolver } from '../resolvers/dynamic.resolver';
@@ -19,9 +21,12 @@ export class GraphqlService implements OnApplicationBootstrap {
   constructor(
     private dataSourceService: DataSourceService,
     private dynamicResolver: DynamicResolver,
+    private queryEngine: QueryEngine,
   ) {}
   async onApplicationBootstrap() {
     await this.reloadSchema();
+    // Read rules decide which fields may be null
+    this.queryEngine.onFieldPermissionsReload(() => this.reloadSchema());
   }
   private yogaApp: ReturnType<typeof createYoga>;
 
@@ -71,7 +76,14 @@ export class GraphqlService implements OnApplicationBootstrap {
   private async schemaGenerator(): Promise<GraphQLSchema> {
     const tables = await this.pullMetadataFromDb();
     const metadatas = this.dataSourceService.getDataSource().entityMetadatas;
-    const typeDefs = generateGraphQLTypeDefsFromTables(tables, metadatas);
+    const readRestricted = getReadRestrictedFields(
+      await this.queryEngine.getFieldPermissionRules(),
+    );
+    const typeDefs = generateGraphQLTypeDefsFromTables(
+      tables,
+      metadatas,
+      readRestricted,
+    );
 
     const resolvers = {
       Query: new Proxy(
@@ -26,6 +26,9 @@ function mapColumnTypeToGraphQL(type: string): string {
 export function generateGraphQLTypeDefsFromTables(
   tables: any[],
   metadatas: EntityMetadata[],
+  // `table.field` of fields some roles cannot read; they come back empty
+  // for those roles, so they can't be non-null
+  readRestricted: Set<string> = new Set(),
 ): string {
   let typeDefs = '';
   let queryDefs = '';
@@ -69,7 +72,11 @@ export function generateGraphQLTypeDefsFromTables(
           }
 
           const gqlType = mapColumnTypeToGraphQL(columnType);
-          const isRequired = !column.isNullable ? '!' : '';
+          const isRequired =
+            !column.isNullable &&
+            !readRestricted.has(`${typeName}.${fieldName}`)
+              ? '!'
+              : '';
 
           const finalType =
             column.isPrimary && gqlType === 'ID'
@@ -94,7 +101,10 @@ export function generateGraphQLTypeDefsFromTables(
     for (const column of table.columns || []) {
       const gqlType = mapColumnTypeToGraphQL(column.type);
       const fieldName = column.name;
-      const isRequired = !column.isNullable ? '!' : '';
+      const isRequired =
+        !column.isNullable && !readRestricted.has(`${typeName}.${fieldName}`)
+          ? '!'
+          : '';
 
       const finalType =
         column.isPrimary && gqlType === 'ID'
@@ -118,6 +128,13 @@ export function generateGraphQLTypeDefsFromTables(
     if (hasUpdatedAt) {
       typeDefs += `  updatedAt: String!\n`;
     }
+    // Only soft-deletable tables have it, and it is null until deleted
+    if (entityMeta.deleteDateColumn) {
+      typeDefs += `  deletedAt: String\n`;
+    }
+    if (entityMeta.versionColumn) {
+      typeDefs += `  version: Int!\n`;
+    }
 
     // Relations → lấy từ entityMeta.relations
     for (const rel of entityMeta.relations) {
@@ -150,7 +167,10 @@ export function generateGraphQLTypeDefsFromTables(
       const isArray = rel.isOneToMany || rel.isManyToMany;
 
       if (isArray) {
-        const fieldDef = `  ${relName}: [${targetType}!]!\n`;
+        const isRequired = readRestricted.has(`${typeName}.${relName}`)
+          ? ''
+          : '!';
+        const fieldDef = `  ${relName}: [${targetType}!]${isRequired}\n`;
         typeDefs += fieldDef;
       } else {
         const fieldDef = `  ${relName}: ${targetType}\n`;
@@ -173,7 +193,11 @@ type ${typeName}Result {
     filter: JSON,
     sort: [String!],
     page: Int,
-    limit: Int
+    limit: Int,
+    aggregate: JSON,
+    after: String,
+    before: String,
+    strict: Boolean
   ): ${typeName}Result!\n`;
   }
 
@@ -182,6 +206,8 @@ type MetaResult {
   totalCount: Int
   filterCount: Int
   aggregate: JSON
+  nextCursor: String
+  prevCursor: String
 }
 `;
 
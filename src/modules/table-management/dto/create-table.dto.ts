@@ -4,6 +4,7 @@ import {
   IsIn,
   IsNotEmpty,
   IsNumber,
+  IsObject,
   IsOptional,
   IsString,
   ValidateNested,
@@ -83,6 +84,10 @@ export class CreateColumnDto {
   @IsOptional()
   @IsBoolean()
   isIndex?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  validation?: Record<string, any>;
 }
 
 export class CreateRelationDto {
@@ -149,6 +154,10 @@ export class CreateRelationDto {
 export class CreateIndexDto {
   @IsNotEmpty()
   value: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  fulltext?: boolean;
 }
 
 export class CreateUniqueDto {
@@ -180,6 +189,26 @@ export class CreateTableDto {
   @IsString()
   description?: string;
 
+  // Adds a `deletedAt` column; deletes then move rows to the trash
+  @IsOptional()
+  @IsBoolean()
+  softDelete?: boolean;
+
+  // Adds a `version` column checked against `If-Match` on writes
+  @IsOptional()
+  @IsBoolean()
+  versioned?: boolean;
+
+  // Records every write in `record_revision`
+  @IsOptional()
+  @IsBoolean()
+  trackRevisions?: boolean;
+
+  // Adds `createdBy`/`updatedBy` relations filled from the acting user
+  @IsOptional()
+  @IsBoolean()
+  userStamps?: boolean;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => CreateRelationDto)
@@ -10,6 +10,8 @@ import {
   ValidationException,
 } from '../../../core/exceptions/custom-exceptions';
 import { validateUniquePropertyNames } from '../utils/duplicate-field-check';
+import { USER_STAMP_FIELDS } from '../../../shared/utils/constant';
+import { assertValidationRules } from '../../../shared/utils/field-validation';
 import { getDeletedIds } from '../utils/get-deleted-ids';
 import { CreateTableDto } from '../dto/create-table.dto';
 
@@ -80,7 +82,14 @@ export class TableHandlerService {
         throw new Error(`Only one column is allowed to have isPrimary = true.`);
       }
 
-      validateUniquePropertyNames(body.columns || [], body.relations || []);
+      validateUniquePropertyNames(
+        body.columns || [],
+        body.relations || [],
+        body.userStamps ? USER_STAMP_FIELDS : [],
+      );
+      for (const col of body.columns || []) {
+        assertValidationRules(col.name, col.validation);
+      }
 
       const newTable = { ...body };
 
@@ -175,7 +184,14 @@ export class TableHandlerService {
         );
       }
 
-      validateUniquePropertyNames(body.columns || [], body.relations || []);
+      validateUniquePropertyNames(
+        body.columns || [],
+        body.relations || [],
+        (body.userStamps ?? exists.userStamps) ? USER_STAMP_FIELDS : [],
+      );
+      for (const col of body.columns || []) {
+        assertValidationRules(col.name, col.validation);
+      }
 
       // Handle deletion of columns and relations (if not system, deletion is allowed)
       const deletedColumnIds = getDeletedIds(exists.columns, body.columns);
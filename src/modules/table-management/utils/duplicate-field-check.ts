@@ -1,4 +1,8 @@
-export function validateUniquePropertyNames(columns: any[], relations: any[]) {
+export function validateUniquePropertyNames(
+  columns: any[],
+  relations: any[],
+  reserved: string[] = [],
+) {
   const normalize = (s: string) => s.trim().toLowerCase();
 
   const columnNames = columns.map((c, idx) => {
@@ -18,6 +22,14 @@ export function validateUniquePropertyNames(columns: any[], relations: any[]) {
   const allNames = [...columnNames, ...relationNames];
   const seen = new Set<string>();
 
+  for (const name of reserved) {
+    if (allNames.includes(normalize(name))) {
+      throw new Error(
+        `Field name "${name}" is reserved by the table options and cannot be defined manually.`,
+      );
+    }
+  }
+
   for (const name of allNames) {
     if (seen.has(name)) {
       throw new Error(
@@ -0,0 +1,8 @@
+import { FIELD_VALIDATION_KEY } from '../utils/constant';
+import { TFieldValidation } from '../utils/field-validation';
+
+export function FieldValidation(rules: TFieldValidation): PropertyDecorator {
+  return (target, propertyKey) => {
+    Reflect.defineMetadata(FIELD_VALIDATION_KEY, rules, target, propertyKey);
+  };
+}
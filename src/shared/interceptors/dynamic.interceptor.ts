@@ -3,8 +3,9 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
-import { mergeMap } from 'rxjs/operators';
+import { catchError, finalize, mergeMap } from 'rxjs/operators';
 import { Observable } from 'rxjs';
 import { HandlerExecutorService } from '../../infrastructure/handler-executor/services/handler-executor.service';
 
@@ -17,6 +18,9 @@ export class DynamicInterceptor<T> implements NestInterceptor<T, any> {
   ): Promise<Observable<any>> {
     const req = context.switchToHttp().getRequest();
     const hooks = req.routeData?.hooks;
+    // Pre-hooks, handler and after-hooks commit or roll back together
+    const trx = req.routeData?.context?.$trx;
+    if (req.routeData?.useTransaction) await trx?.begin();
     if (hooks?.length) {
       for (const hook of hooks) {
         if (!hook.preHook) continue;
@@ -31,6 +35,7 @@ export class DynamicInterceptor<T> implements NestInterceptor<T, any> {
           req.body = req.routeData.context.$body;
 
           if (result !== undefined) {
+            await trx?.commit();
             const statusCode = req.routeData.context.$statusCode ?? 200;
             const res = context.switchToHttp().getResponse();
             res
@@ -43,12 +48,18 @@ export class DynamicInterceptor<T> implements NestInterceptor<T, any> {
             return new Observable();
           }
         } catch (error) {
+          await trx?.release();
           throw error;
         }
       }
     }
     return next.handle().pipe(
       mergeMap(async (data) => {
+        // After-hooks can't rewrite a stream, so exports are sent as-is
+        if (data instanceof StreamableFile) {
+          await trx?.commit();
+          return data;
+        }
         if (hooks?.length) {
           for (const hook of hooks) {
             if (!hook.afterHook) continue;
@@ -68,10 +79,17 @@ export class DynamicInterceptor<T> implements NestInterceptor<T, any> {
             }
           }
         }
+        await trx?.commit();
         return req.routeData.context.$share.$logs.length
           ? { ...data, logs: req.routeData.context.$share.$logs }
           : data;
       }),
+      catchError(async (error) => {
+        await trx?.release();
+        throw error;
+      }),
+      // Whatever a timed out or crashed script left open is rolled back
+      finalize(() => trx?.release()),
     );
   }
 }
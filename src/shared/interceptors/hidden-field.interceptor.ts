@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable, map } from 'rxjs';
 import { EntityMetadata } from 'typeorm';
@@ -14,7 +15,14 @@ export class HideFieldInterceptor implements NestInterceptor {
   constructor(private dataSourceService: DataSourceService) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    return next.handle().pipe(map((data) => this.sanitizeDeep(data)));
+    // Exports strip hidden fields row by row while streaming
+    return next
+      .handle()
+      .pipe(
+        map((data) =>
+          data instanceof StreamableFile ? data : this.sanitizeDeep(data),
+        ),
+      );
   }
 
   private sanitizeDeep(value: any): any {
@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import * as multer from 'multer';
+import { RequestWithRouteData } from '../interfaces/dynamic-context.interface';
+import { FileUploadException } from '../../core/exceptions/custom-exceptions';
+
+// Runs after the guards, so only users allowed to import get their upload
+// buffered, and before DynamicInterceptor so pre-hooks see the file
+@Injectable()
+export class ImportUploadInterceptor implements NestInterceptor {
+  private upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 10 * 1024 * 1024,
+    },
+  });
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<any>> {
+    const req = context.switchToHttp().getRequest<RequestWithRouteData>();
+    const isImport = req.method === 'POST' && req.query?.import !== undefined;
+    const isMultipartContent = req.headers['content-type']?.includes(
+      'multipart/form-data',
+    );
+
+    if (isImport && isMultipartContent && req.routeData?.context) {
+      await this.parse(req, context.switchToHttp().getResponse());
+    }
+    return next.handle();
+  }
+
+  private parse(req: RequestWithRouteData, res: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.upload.single('file')(req, res, (error: any) => {
+        if (error) {
+          return reject(
+            new FileUploadException(
+              error.code === 'LIMIT_FILE_SIZE'
+                ? 'Import files are limited to 10MB'
+                : error.message,
+            ),
+          );
+        }
+
+        // Form fields such as `mapping` and `dryRun` become the body
+        req.routeData.context.$body = { ...req.body };
+        if (req.file) {
+          req.routeData.context.$uploadedFile = {
+            originalname: req.file.originalname,
+            mimetype: req.file.mimetype,
+            buffer: req.file.buffer,
+            size: req.file.size,
+            fieldname: req.file.fieldname,
+          };
+        }
+        resolve();
+      });
+    });
+  }
+}
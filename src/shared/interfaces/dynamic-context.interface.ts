@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import { UploadedFileInfo } from './file-management.interface';
+import { ContextTransaction } from '../utils/context-transaction';
 
 export interface TDynamicContext {
   $body: any;
@@ -22,6 +23,8 @@ export interface TDynamicContext {
     $logs: any[];
   };
   $uploadedFile?: UploadedFileInfo;
+  // Scripts call it as `await $ctx.$trx(async () => ...)`
+  $trx?: ContextTransaction;
 }
 
 export interface RequestWithRouteData extends Request {
@@ -37,4 +40,4 @@ export interface RequestWithRouteData extends Request {
   };
   user?: any;
   file?: any; // Multer file object
-}
\ No newline at end of file
+}
@@ -7,10 +7,13 @@ import { DynamicRepository } from '../../modules/dynamic-api/repositories/dynami
 import { TDynamicContext } from '../interfaces/dynamic-context.interface';
 import { QueryEngine } from '../../infrastructure/query-engine/services/query-engine.service';
 import { RouteCacheService } from '../../infrastructure/redis/services/route-cache.service';
+import { QueryCacheService } from '../../infrastructure/redis/services/query-cache.service';
 import { SystemProtectionService } from '../../modules/dynamic-api/services/system-protection.service';
 import { BcryptService } from '../../core/auth/services/bcrypt.service';
+import { AuthorizationService } from '../../core/auth/services/authorization.service';
 import { ScriptErrorFactory } from '../../shared/utils/script-error-factory';
 import { autoSlug } from '../utils/auto-slug.helper';
+import { ContextTransaction } from '../utils/context-transaction';
 
 @Injectable()
 export class RouteDetectMiddleware implements NestMiddleware {
@@ -23,6 +26,8 @@ export class RouteDetectMiddleware implements NestMiddleware {
     private routeCacheService: RouteCacheService,
     private systemProtectionService: SystemProtectionService,
     private bcryptService: BcryptService,
+    private queryCacheService: QueryCacheService,
+    private authorizationService: AuthorizationService,
   ) {}
 
   async use(req: any, res: any, next: (error?: any) => void) {
@@ -58,6 +63,7 @@ export class RouteDetectMiddleware implements NestMiddleware {
         $user: req.user ?? undefined,
         $repos: {}, // Will be populated after repos are created
         $req: req,
+        $trx: new ContextTransaction(this.dataSourceService),
         $share: {
           $logs: [],
         },
@@ -82,6 +88,14 @@ export class RouteDetectMiddleware implements NestMiddleware {
             queryEngine: this.queryEngine,
             routeCacheService: this.routeCacheService,
             systemProtectionService: this.systemProtectionService,
+            queryCacheService: this.queryCacheService,
+            authorizationService: this.authorizationService,
+            // The route's TTL applies to its main table only
+            cacheTtl:
+              (table.name === matchedRoute.route.mainTable.name &&
+                matchedRoute.route.cacheTtl) ||
+              table.cacheTtl,
+            trackRevisions: table.trackRevisions,
           });
 
           await dynamicRepo.init();
@@ -15,6 +15,8 @@ export const knownGlobalImports: Record<string, string> = {
   Unique: 'typeorm',
   CreateDateColumn: 'typeorm',
   UpdateDateColumn: 'typeorm',
+  DeleteDateColumn: 'typeorm',
+  VersionColumn: 'typeorm',
 };
 
 export async function loadDynamicEntities(entityDir: string) {
@@ -1,4 +1,6 @@
 export const HIDDEN_FIELD_KEY = 'hidden_field';
+export const FIELD_VALIDATION_KEY = 'field_validation';
+export const USER_STAMP_FIELDS = ['createdBy', 'updatedBy'];
 export const GLOBAL_ROUTES_KEY = 'global-routes';
 export const GLOBAL_SETTINGS_KEY = 'global-settings';
 
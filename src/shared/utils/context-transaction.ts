@@ -0,0 +1,84 @@
+import { EntityManager, QueryRunner } from 'typeorm';
+import { DataSourceService } from '../../core/database/data-source/data-source.service';
+
+/**
+ * The transaction shared by every repository of one request context, exposed
+ * to scripts as `$ctx.$trx`. `begin`/`commit`/`rollback` nest through
+ * savepoints, so a script's `$ctx.$trx(...)` can run inside a route-level
+ * transaction.
+ */
+export class ContextTransaction {
+  private runner?: QueryRunner;
+  private afterCommit: (() => Promise<void>)[] = [];
+
+  constructor(private dataSourceService: DataSourceService) {}
+
+  // Set while a transaction is open; repositories read and write through it
+  get queryRunner(): QueryRunner | undefined {
+    return this.isActive ? this.runner : undefined;
+  }
+
+  get manager(): EntityManager | undefined {
+    return this.queryRunner?.manager;
+  }
+
+  get isActive(): boolean {
+    return !!this.runner?.isTransactionActive;
+  }
+
+  async begin() {
+    if (!this.runner) {
+      this.runner = this.dataSourceService.getDataSource().createQueryRunner();
+      await this.runner.connect();
+    }
+    await this.runner.startTransaction();
+  }
+
+  async commit() {
+    if (!this.isActive) return;
+    await this.runner.commitTransaction();
+    if (!this.runner.isTransactionActive) await this.finish(true);
+  }
+
+  async rollback() {
+    if (!this.isActive) return;
+    await this.runner.rollbackTransaction();
+    if (!this.runner.isTransactionActive) await this.finish(false);
+  }
+
+  // Roll back whatever a failed or timed out script left open
+  async release() {
+    while (this.isActive) await this.runner.rollbackTransaction();
+    await this.finish(false);
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.begin();
+    try {
+      const result = await fn();
+      await this.commit();
+      return result;
+    } catch (error) {
+      await this.rollback();
+      throw error;
+    }
+  }
+
+  // Side effects such as cache invalidation wait for the outermost commit
+  async onCommit(task: () => Promise<void>) {
+    if (!this.isActive) return await task();
+    this.afterCommit.push(task);
+  }
+
+  private async finish(committed: boolean) {
+    const tasks = this.afterCommit;
+    this.afterCommit = [];
+    if (this.runner && !this.runner.isReleased) {
+      await this.runner.release();
+    }
+    this.runner = undefined;
+    if (committed) {
+      for (const task of tasks) await task();
+    }
+  }
+}
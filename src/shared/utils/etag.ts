@@ -0,0 +1,23 @@
+import { PreconditionFailedException } from '../../core/exceptions/custom-exceptions';
+
+// A versioned record is tagged with its version, e.g. `"3"`
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * The version an `If-Match` header or a script expects. Accepts `3`, `"3"`
+ * and `W/"3"`; nothing or `*` matches any version.
+ */
+export function parseExpectedVersion(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+
+  const tag = String(value).trim();
+  if (tag === '*') return undefined;
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(tag);
+  if (!match) {
+    throw new PreconditionFailedException(`Invalid version "${tag}"`);
+  }
+  return Number(match[1]);
+}
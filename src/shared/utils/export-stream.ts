@@ -0,0 +1,159 @@
+import { Readable } from 'stream';
+import { EntityMetadata } from 'typeorm';
+import { BusinessLogicException } from '../../core/exceptions/custom-exceptions';
+import { HIDDEN_FIELD_KEY } from './constant';
+
+export type TExportFormat = 'csv' | 'ndjson' | 'json';
+
+export const EXPORT_CONTENT_TYPES: Record<TExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+};
+
+/**
+ * `?export=csv|ndjson|json`, or an `Accept: text/csv` /
+ * `application/x-ndjson` header. Returns null for a normal request.
+ */
+export function resolveExportFormat(
+  query: Record<string, any> | undefined,
+  accept?: string,
+): TExportFormat | null {
+  const requested = query?.export;
+  if (requested !== undefined && requested !== '') {
+    if (!(requested in EXPORT_CONTENT_TYPES)) {
+      throw new BusinessLogicException(
+        `Unknown export format "${requested}", expected csv, ndjson or json`,
+      );
+    }
+    return requested as TExportFormat;
+  }
+  if (accept?.includes('text/csv')) return 'csv';
+  if (accept?.includes('application/x-ndjson')) return 'ndjson';
+  return null;
+}
+
+/**
+ * Drop `@HiddenField()` columns from a row and its loaded relations, as
+ * HideFieldInterceptor does for normal responses.
+ */
+export function stripHiddenFields(meta: EntityMetadata, row: any): any {
+  if (Array.isArray(row))
+    return row.map((item) => stripHiddenFields(meta, item));
+  if (!row || typeof row !== 'object') return row;
+
+  const stripped = { ...row };
+  if (typeof meta.target === 'function') {
+    for (const column of meta.columns) {
+      const key = column.propertyName;
+      if (Reflect.getMetadata(HIDDEN_FIELD_KEY, meta.target.prototype, key)) {
+        delete stripped[key];
+      }
+    }
+  }
+  for (const relation of meta.relations) {
+    const key = relation.propertyName;
+    if (stripped[key] !== undefined) {
+      stripped[key] = stripHiddenFields(
+        relation.inverseEntityMetadata,
+        stripped[key],
+      );
+    }
+  }
+  return stripped;
+}
+
+// `{ brand: { name } }` becomes `{ 'brand.name': ... }`; to-many relations
+// and JSON arrays stay a single JSON cell
+function flattenRow(
+  row: any,
+  prefix = '',
+  out: Record<string, any> = {},
+): Record<string, any> {
+  for (const [key, value] of Object.entries(row)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      if (value instanceof Date) out[path] = value;
+      else flattenRow(value, path, out);
+    } else {
+      out[path] = value;
+    }
+  }
+  return out;
+}
+
+function toCsvCell(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Columns seen in the first batch; a null relation (`brand`) gives way to
+// the paths other rows have under it (`brand.name`)
+function collectCsvColumns(rows: Record<string, any>[]): string[] {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  return columns.filter(
+    (column) => !columns.some((other) => other.startsWith(`${column}.`)),
+  );
+}
+
+async function* formatRows(
+  first: any[],
+  rest: AsyncIterator<any[]>,
+  format: TExportFormat,
+  mapRow: (row: any) => any,
+): AsyncGenerator<string> {
+  let columns: string[] | undefined;
+  let isFirstRow = true;
+  let batch: any[] | undefined = first;
+
+  if (format === 'json') yield '[';
+  while (batch) {
+    const rows = batch.map(mapRow);
+    if (format === 'csv' && rows.length > 0) {
+      const flatRows = rows.map((row) => flattenRow(row));
+      if (!columns) {
+        columns = collectCsvColumns(flatRows);
+        yield `${columns.map(toCsvCell).join(',')}\r\n`;
+      }
+      yield flatRows
+        .map((row) => `${columns.map((c) => toCsvCell(row[c])).join(',')}\r\n`)
+        .join('');
+    } else if (format === 'ndjson') {
+      yield rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+    } else if (rows.length > 0) {
+      yield `${isFirstRow ? '' : ','}${rows.map((row) => JSON.stringify(row)).join(',')}`;
+      isFirstRow = false;
+    }
+
+    const next = await rest.next();
+    batch = next.done ? undefined : next.value;
+  }
+  if (format === 'json') yield ']';
+}
+
+/**
+ * Turn batches of rows into a CSV, NDJSON or JSON array stream, pulling the
+ * next batch only when the client has read the previous one. The first
+ * batch is awaited here so query errors still become a normal error response.
+ */
+export async function createExportStream({
+  batches,
+  format,
+  mapRow = (row) => row,
+}: {
+  batches: AsyncIterable<any[]>;
+  format: TExportFormat;
+  mapRow?: (row: any) => any;
+}): Promise<Readable> {
+  const iterator = batches[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  return Readable.from(
+    formatRows(first.done ? [] : first.value, iterator, format, mapRow),
+  );
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { EntityMetadata } from 'typeorm';
+import { AuthorizationException } from '../../core/exceptions/custom-exceptions';
+
+export type TFieldAction = 'read' | 'write';
+
+// An enabled field_permission_definition row
+export type TFieldPermissionRule = {
+  tableName: string;
+  field: string;
+  actions: TFieldAction[];
+  roleId: number | string | null;
+};
+
+/**
+ * What one user may do with table fields. A field named by a rule for an
+ * action is limited to the roles of those rules; fields without rules are
+ * open to everyone the route lets in.
+ */
+export type TFieldAccess = {
+  // Results read with different access must not share a cache entry; it
+  // changes with the rules too, so edited ones never hit stale results
+  key: string;
+  can(tableName: string, field: string, action: TFieldAction): boolean;
+};
+
+// Undefined when nothing is limited for the user, e.g. for root admins
+export function createFieldAccess(
+  rules: TFieldPermissionRule[],
+  user: any,
+): TFieldAccess | undefined {
+  if (user?.isRootAdmin || rules.length === 0) return undefined;
+
+  const roleId = user?.role?.id ?? null;
+  const granted = new Map<string, boolean>();
+  for (const rule of rules) {
+    for (const action of rule.actions) {
+      const key = `${rule.tableName}.${rule.field}.${action}`;
+      const matches =
+        roleId !== null &&
+        rule.roleId !== null &&
+        String(rule.roleId) === String(roleId);
+      granted.set(key, granted.get(key) || matches);
+    }
+  }
+
+  const version = createHash('sha1')
+    .update(JSON.stringify([...granted]))
+    .digest('hex')
+    .slice(0, 12);
+  return {
+    key: `role:${roleId}:${version}`,
+    can: (tableName, field, action) =>
+      granted.get(`${tableName}.${field}.${action}`) ?? true,
+  };
+}
+
+// `table.field` of every field some role cannot read
+export function getReadRestrictedFields(
+  rules: TFieldPermissionRule[],
+): Set<string> {
+  return new Set(
+    rules
+      .filter((rule) => rule.actions.includes('read'))
+      .map((rule) => `${rule.tableName}.${rule.field}`),
+  );
+}
+
+/**
+ * Drop the fields the user cannot read from a row and its loaded relations,
+ * in place so entities keep their class.
+ */
+export function stripUnreadableFields(
+  meta: EntityMetadata,
+  row: any,
+  access: TFieldAccess,
+): any {
+  if (Array.isArray(row)) {
+    for (const item of row) stripUnreadableFields(meta, item, access);
+    return row;
+  }
+  if (!row || typeof row !== 'object') return row;
+
+  for (const key of Object.keys(row)) {
+    if (!access.can(meta.tableName, key, 'read')) {
+      delete row[key];
+      continue;
+    }
+    const relation = meta.relations.find((rel) => rel.propertyName === key);
+    if (relation) {
+      stripUnreadableFields(relation.inverseEntityMetadata, row[key], access);
+    }
+  }
+  return row;
+}
+
+export function assertWritableFields(
+  tableName: string,
+  data: any,
+  access?: TFieldAccess,
+) {
+  if (!access || !data || typeof data !== 'object') return;
+  const denied = Object.keys(data).filter(
+    (field) => !access.can(tableName, field, 'write'),
+  );
+  if (denied.length > 0) {
+    throw new AuthorizationException(
+      `Not allowed to write ${denied.join(', ')} of ${tableName}`,
+      { fields: denied },
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { EntityMetadata } from 'typeorm';
+import { ValidationException } from '../../core/exceptions/custom-exceptions';
+import { FIELD_VALIDATION_KEY } from './constant';
+
+/**
+ * The `validation` rules of a column_definition. Comparison rules (`gt`,
+ * `lte`, ...) name another field of the same record; `message` replaces
+ * every message of the field.
+ */
+export type TFieldValidation = {
+  required?: boolean;
+  email?: boolean;
+  url?: boolean;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  in?: any[];
+  gt?: string;
+  gte?: string;
+  lt?: string;
+  lte?: string;
+  eq?: string;
+  neq?: string;
+  message?: string;
+};
+
+const COMPARISONS: Record<string, [string, (a: number, b: number) => boolean]> =
+  {
+    gt: ['greater than', (a, b) => a > b],
+    gte: ['greater than or equal to', (a, b) => a >= b],
+    lt: ['less than', (a, b) => a < b],
+    lte: ['less than or equal to', (a, b) => a <= b],
+    eq: ['equal to', (a, b) => a === b],
+    neq: ['different from', (a, b) => a !== b],
+  };
+
+const RULE_TYPES: Record<string, string> = {
+  required: 'boolean',
+  email: 'boolean',
+  url: 'boolean',
+  pattern: 'string',
+  minLength: 'number',
+  maxLength: 'number',
+  min: 'number',
+  max: 'number',
+  in: 'array',
+  message: 'string',
+  ...Object.fromEntries(Object.keys(COMPARISONS).map((key) => [key, 'string'])),
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Rejects rules the validator would not understand, before they are saved
+export function assertValidationRules(field: string, rules: any) {
+  if (rules === undefined || rules === null) return;
+  if (typeof rules !== 'object' || Array.isArray(rules)) {
+    throw new Error(`validation of "${field}" must be an object`);
+  }
+  for (const [key, value] of Object.entries(rules)) {
+    const type = RULE_TYPES[key];
+    if (!type) {
+      throw new Error(`Unknown validation rule "${key}" on "${field}"`);
+    }
+    const matches =
+      type === 'array' ? Array.isArray(value) : typeof value === type;
+    if (!matches) {
+      throw new Error(
+        `Validation rule "${key}" on "${field}" must be a ${type}`,
+      );
+    }
+  }
+  if (rules.pattern !== undefined) {
+    try {
+      new RegExp(rules.pattern);
+    } catch {
+      throw new Error(`Invalid pattern on "${field}": ${rules.pattern}`);
+    }
+  }
+}
+
+export function getFieldValidations(
+  meta: EntityMetadata,
+): [string, TFieldValidation][] {
+  if (typeof meta.target !== 'function') return [];
+  const prototype = meta.target.prototype;
+  return meta.columns
+    .map((column): [string, TFieldValidation] => [
+      column.propertyName,
+      Reflect.getMetadata(FIELD_VALIDATION_KEY, prototype, column.propertyName),
+    ])
+    .filter(([, rules]) => rules);
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '';
+
+// Numbers, numeric strings and dates compare as numbers
+function toComparable(value: any): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const number = Number(value);
+  return isNaN(number) ? Date.parse(value) : number;
+}
+
+function checkField(
+  rules: TFieldValidation,
+  value: any,
+  record: any,
+): string[] {
+  if (isEmpty(value)) return rules.required ? ['is required'] : [];
+
+  const errors: string[] = [];
+  if (rules.email && !EMAIL_PATTERN.test(String(value))) {
+    errors.push('must be a valid email');
+  }
+  if (rules.url) {
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(String(value)).protocol;
+    } catch {}
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      errors.push('must be a valid URL');
+    }
+  }
+  if (rules.pattern && !new RegExp(rules.pattern).test(String(value))) {
+    errors.push(`must match ${rules.pattern}`);
+  }
+  const length = Array.isArray(value) ? value.length : String(value).length;
+  if (rules.minLength !== undefined && length < rules.minLength) {
+    errors.push(`must be at least ${rules.minLength} characters`);
+  }
+  if (rules.maxLength !== undefined && length > rules.maxLength) {
+    errors.push(`must be at most ${rules.maxLength} characters`);
+  }
+  if (rules.min !== undefined || rules.max !== undefined) {
+    const number = Number(value);
+    if (isNaN(number)) {
+      errors.push('must be a number');
+    } else {
+      if (rules.min !== undefined && number < rules.min) {
+        errors.push(`must be at least ${rules.min}`);
+      }
+      if (rules.max !== undefined && number > rules.max) {
+        errors.push(`must be at most ${rules.max}`);
+      }
+    }
+  }
+  if (rules.in && !rules.in.includes(value)) {
+    errors.push(`must be one of: ${rules.in.join(', ')}`);
+  }
+  for (const [key, [label, compare]] of Object.entries(COMPARISONS)) {
+    const other = rules[key];
+    if (!other || isEmpty(record[other])) continue;
+    const [a, b] = [toComparable(value), toComparable(record[other])];
+    if (isNaN(a) || isNaN(b) || !compare(a, b)) {
+      errors.push(`must be ${label} ${other}`);
+    }
+  }
+
+  return errors.length && rules.message ? [rules.message] : errors;
+}
+
+/**
+ * Per-field messages for a record about to be written. With `existing` the
+ * write is an update: only the fields in `data`, and the fields compared
+ * with them, are checked against the merged record.
+ */
+export function validateRecord(
+  meta: EntityMetadata,
+  data: any,
+  existing?: any,
+): Record<string, string[]> {
+  const record = existing ? { ...existing, ...data } : data;
+  const errors: Record<string, string[]> = {};
+
+  for (const [field, rules] of getFieldValidations(meta)) {
+    if (existing) {
+      const compared = Object.keys(COMPARISONS).some(
+        (key) => rules[key] && rules[key] in data,
+      );
+      if (!(field in data) && !compared) continue;
+    }
+    const messages = checkField(rules, record[field], record);
+    if (messages.length) errors[field] = messages;
+  }
+  return errors;
+}
+
+export function assertValidRecord(
+  meta: EntityMetadata,
+  data: any,
+  options?: { existing?: any; index?: number },
+) {
+  const fields = validateRecord(meta, data, options?.existing);
+  if (Object.keys(fields).length === 0) return;
+
+  const summary = Object.entries(fields)
+    .map(([field, messages]) => `${field} ${messages.join(', ')}`)
+    .join('; ');
+  const record =
+    options?.index === undefined ? '' : `Record ${options.index}: `;
+  throw new ValidationException(
+    `${record}${summary}`,
+    options?.index === undefined
+      ? { fields }
+      : { index: options.index, fields },
+  );
+}
@@ -0,0 +1,174 @@
+import { BusinessLogicException } from '../../core/exceptions/custom-exceptions';
+
+export type TImportFormat = 'csv' | 'json';
+
+/**
+ * `?import=csv|json` on a POST. Returns null for a normal request.
+ */
+export function resolveImportFormat(
+  query: Record<string, any> | undefined,
+): TImportFormat | null {
+  const requested = query?.import;
+  if (requested === undefined) return null;
+  if (requested !== 'csv' && requested !== 'json') {
+    throw new BusinessLogicException(
+      `Unknown import format "${requested}", expected csv or json`,
+    );
+  }
+  return requested;
+}
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) throw new BusinessLogicException('Unterminated quote in CSV');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no record
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+/**
+ * Turn an uploaded CSV (header row first) or JSON array into records keyed
+ * by source column.
+ */
+export function parseImportFile(
+  content: Buffer | string,
+  format: TImportFormat,
+): Record<string, any>[] {
+  const text = content.toString();
+  if (format === 'json') {
+    let records: any;
+    try {
+      records = JSON.parse(text);
+    } catch (error) {
+      throw new BusinessLogicException(`Invalid JSON file: ${error.message}`);
+    }
+    if (
+      !Array.isArray(records) ||
+      records.some((r) => !r || typeof r !== 'object' || Array.isArray(r))
+    ) {
+      throw new BusinessLogicException(
+        'JSON imports must be an array of objects',
+      );
+    }
+    return records;
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map((row) =>
+    Object.fromEntries(header.map((name, i) => [name.trim(), row[i] ?? ''])),
+  );
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Coerce an imported cell to a `column_definition.type`. Empty cells become
+ * null; a value that doesn't fit throws with the reason.
+ */
+export function coerceImportValue(
+  column: { type: string; options?: any },
+  value: any,
+): any {
+  if (value === undefined || value === null || value === '') return null;
+  const text = typeof value === 'string' ? value.trim() : value;
+
+  switch (column.type) {
+    case 'int':
+    case 'bigint': {
+      const number = Number(text);
+      if (!Number.isInteger(number)) {
+        throw new Error(`expected an integer, got "${value}"`);
+      }
+      return number;
+    }
+    case 'float':
+    case 'decimal': {
+      const number = Number(text);
+      if (!Number.isFinite(number)) {
+        throw new Error(`expected a number, got "${value}"`);
+      }
+      return number;
+    }
+    case 'boolean': {
+      const normalized = String(text).toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return true;
+      if (['false', '0', 'no'].includes(normalized)) return false;
+      throw new Error(`expected a boolean, got "${value}"`);
+    }
+    case 'date': {
+      const date = text instanceof Date ? text : new Date(text);
+      if (isNaN(date.getTime())) {
+        throw new Error(`expected a date, got "${value}"`);
+      }
+      return date;
+    }
+    case 'enum': {
+      const options: any[] = column.options ?? [];
+      if (!options.map(String).includes(String(text))) {
+        throw new Error(
+          `expected one of ${options.join(', ')}, got "${value}"`,
+        );
+      }
+      return String(text);
+    }
+    case 'uuid':
+      if (!UUID_PATTERN.test(String(text))) {
+        throw new Error(`expected a uuid, got "${value}"`);
+      }
+      return String(text);
+    case 'simple-json':
+    case 'array-select': {
+      let parsed = text;
+      if (typeof text === 'string') {
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          throw new Error(`expected JSON, got "${value}"`);
+        }
+      }
+      if (column.type === 'array-select' && !Array.isArray(parsed)) {
+        throw new Error(`expected an array, got "${value}"`);
+      }
+      return parsed;
+    }
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,33 @@
+export type TRevisionAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'revert';
+
+export type TFieldChanges = Record<string, { from: any; to: any }>;
+
+// Relation values are compared by their ids, dates by their time
+function normalize(value: any): string {
+  if (value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  return JSON.stringify(value);
+}
+
+/**
+ * Field-level diff of two states of a record; a missing state (before a
+ * create, after a delete) counts as every field being null.
+ */
+export function diffRecords(before: any, after: any): TFieldChanges {
+  const changes: TFieldChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (normalize(from) !== normalize(to)) changes[field] = { from, to };
+  }
+  return changes;
+}
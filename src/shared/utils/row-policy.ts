@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+
+export type TRowAction = 'read' | 'update' | 'delete';
+
+// An enabled row_policy_definition row; a null role applies to every role
+export type TRowPolicyRule = {
+  tableName: string;
+  filter: any;
+  actions: TRowAction[];
+  roleId: number | string | null;
+};
+
+/**
+ * The rows one user may reach. A table with policies for the user's role is
+ * limited to rows matching any of them; tables without policies are open to
+ * everyone the route lets in.
+ */
+export type TRowAccess = {
+  // Results read with different access must not share a cache entry; it
+  // changes with the policies too, so edited ones never hit stale results
+  key: string;
+  // Unresolved, `$CURRENT_USER` is filled in by the query
+  filter(tableName: string, action: TRowAction): any | undefined;
+};
+
+// Undefined when no policy applies to the user, e.g. for root admins
+export function createRowAccess(
+  rules: TRowPolicyRule[],
+  user: any,
+): TRowAccess | undefined {
+  if (user?.isRootAdmin) return undefined;
+
+  const roleId = user?.role?.id ?? null;
+  const applicable = rules.filter(
+    (rule) =>
+      rule.roleId === null ||
+      (roleId !== null && String(rule.roleId) === String(roleId)),
+  );
+  if (applicable.length === 0) return undefined;
+
+  const filters = new Map<string, any[]>();
+  for (const rule of applicable) {
+    for (const action of rule.actions) {
+      const key = `${rule.tableName}.${action}`;
+      filters.set(key, [...(filters.get(key) ?? []), rule.filter]);
+    }
+  }
+
+  // Policies naming the user can't be shared with the rest of the role
+  const applied = JSON.stringify(applicable);
+  const personal = applied.includes('$CURRENT_USER');
+  const version = createHash('sha1').update(applied).digest('hex').slice(0, 12);
+  return {
+    key: `${personal ? `user:${user?.id ?? null}` : `role:${roleId}`}:${version}`,
+    filter: (tableName, action) => {
+      const matching = filters.get(`${tableName}.${action}`);
+      if (!matching) return undefined;
+      return matching.length === 1 ? matching[0] : { _or: matching };
+    },
+  };
+}
+
+// Both must match; either may be missing
+export function andFilters(filter: any, policy: any): any {
+  if (!policy) return filter;
+  if (!filter || Object.keys(filter).length === 0) return policy;
+  return { _and: [filter, policy] };
+}
@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { ContextTransaction } from '../context-transaction';
 
 export type TDynamicContext = {
   $repos: any;
@@ -46,6 +47,7 @@ export type TGqlDynamicContext = {
   };
   $result?: any;
   $data?: any;
+  $trx?: ContextTransaction;
   $share?: {
     $data?: any;
     [key: string]: any;
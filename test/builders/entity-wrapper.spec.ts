@@ -100,6 +100,32 @@ describe('EntityWrapper - Simplified Approach', () => {
       expect(indexDecorators[0].getArguments()[0].getText()).toBe("['category', 'user']"); // Sorted alphabetically
     });
 
+    it('should create a named full-text @Index left out of synchronize', () => {
+      const sourceFile = project.createSourceFile('test.ts', '', { overwrite: true });
+      const usedImports = new Set<string>();
+
+      const classDeclaration = wrapEntityClass({
+        sourceFile,
+        className: 'TestEntity',
+        tableName: 'test_entity',
+        uniques: [{ value: ['title'] }],
+        indexes: [{ value: ['title', 'body'], fulltext: true }, { value: ['title'] }],
+        usedImports,
+        validEntityFields: ['title', 'body'],
+      });
+
+      const indexDecorators = classDeclaration
+        .getDecorators()
+        .filter(d => d.getName() === 'Index');
+
+      // The plain index on title is blocked by the unique, the full-text one is not
+      expect(indexDecorators).toHaveLength(1);
+      const args = indexDecorators[0].getArguments().map(a => a.getText());
+      expect(args[0]).toMatch(/^'FTS_[0-9a-f]{26}'$/);
+      expect(args[1]).toBe("['body', 'title']");
+      expect(args[2]).toBe('{ fulltext: true, synchronize: false }');
+    });
+
     it('should handle both unique and index constraints together', () => {
       const sourceFile = project.createSourceFile('test.ts', '', { overwrite: true });
       const usedImports = new Set<string>();
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { RouteDetectMiddleware } from '../../src/shared/middleware/route-detect.middleware';
 import { RouteCacheService } from '../../src/infrastructure/redis/services/route-cache.service';
+import { QueryCacheService } from '../../src/infrastructure/redis/services/query-cache.service';
 import { CommonService } from '../../src/shared/common/services/common.service';
 import { DataSourceService } from '../../src/core/database/data-source/data-source.service';
 import { JwtService } from '@nestjs/jwt';
@@ -9,6 +10,7 @@ import { RedisLockService } from '../../src/infrastructure/redis/services/redis-
 import { QueryEngine } from '../../src/infrastructure/query-engine/services/query-engine.service';
 import { SystemProtectionService } from '../../src/modules/dynamic-api/services/system-protection.service';
 import { BcryptService } from '../../src/core/auth/services/bcrypt.service';
+import { AuthorizationService } from '../../src/core/auth/services/authorization.service';
 
 interface MockRequest {
   method: string;
@@ -88,6 +90,7 @@ describe('RouteDetectMiddleware - Integration with SWR Cache', () => {
       routeCacheService: {
         getRoutesWithSWR: jest.fn(),
       },
+      queryCacheService: {},
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -114,6 +117,11 @@ describe('RouteDetectMiddleware - Integration with SWR Cache', () => {
           useValue: mockServices.systemProtectionService,
         },
         { provide: BcryptService, useValue: mockServices.bcryptService },
+        {
+          provide: QueryCacheService,
+          useValue: mockServices.queryCacheService,
+        },
+        { provide: AuthorizationService, useValue: {} },
       ],
     }).compile();
 
@@ -0,0 +1,155 @@
+import { AuthorizationService } from '../../../src/core/auth/services/authorization.service';
+import {
+  AuthorizationException,
+  ResourceNotFoundException,
+} from '../../../src/core/exceptions/custom-exceptions';
+
+describe('AuthorizationService', () => {
+  let service: AuthorizationService;
+  let routeCacheService: any;
+  let userRepo: any;
+
+  const editor = { id: 1, role: { id: 10, name: 'editor' } };
+  const guest = { id: 2, role: { id: 20, name: 'guest' } };
+  const route = () => ({
+    id: 5,
+    path: '/posts',
+    isEnabled: true,
+    mainTable: { name: 'posts' },
+    publishedMethods: [{ method: 'GET' }],
+    routePermissions: [
+      {
+        id: 7,
+        role: { id: 10 },
+        allowedUsers: [],
+        methods: [{ method: 'POST' }, { method: 'GQL_QUERY' }],
+      },
+      {
+        id: 8,
+        role: null,
+        allowedUsers: [{ id: 2 }],
+        methods: [{ method: 'PATCH' }],
+      },
+      {
+        id: 9,
+        isEnabled: false,
+        role: { id: 20 },
+        methods: [{ method: 'DELETE' }],
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    routeCacheService = {
+      onReload: jest.fn(),
+      getRoutesWithSWR: jest.fn().mockResolvedValue([route()]),
+    };
+    userRepo = { findOne: jest.fn().mockResolvedValue(guest) };
+    service = new AuthorizationService(
+      { getRepository: () => userRepo } as any,
+      routeCacheService,
+    );
+  });
+
+  it('should explain route decisions', () => {
+    expect(service.checkRoute(route(), null, 'GET')).toMatchObject({
+      allowed: true,
+      rule: 'published',
+    });
+    expect(service.checkRoute(route(), null, 'POST')).toMatchObject({
+      allowed: false,
+      rule: 'unauthenticated',
+    });
+    expect(
+      service.checkRoute(route(), { id: 3, isRootAdmin: true }, 'DELETE'),
+    ).toMatchObject({ allowed: true, rule: 'root-admin' });
+    expect(service.checkRoute(route(), editor, 'POST')).toEqual({
+      allowed: true,
+      rule: 'role',
+      reason: 'Role #10 is allowed POST by route permission #7',
+      permissionId: 7,
+    });
+    expect(service.checkRoute(route(), guest, 'PATCH')).toMatchObject({
+      allowed: true,
+      rule: 'allowed-user',
+      permissionId: 8,
+    });
+    expect(service.checkRoute(route(), guest, 'DELETE')).toMatchObject({
+      allowed: false,
+      rule: 'no-permission',
+      reason:
+        'No route permission of /posts grants DELETE to user #2 or role #20',
+    });
+    expect(
+      service.checkRoute({ ...route(), isEnabled: false }, editor, 'POST'),
+    ).toMatchObject({ allowed: false, rule: 'not-found' });
+  });
+
+  it('should decide GraphQL queries like REST methods', () => {
+    expect(service.checkRoute(route(), editor, 'GQL_QUERY').allowed).toBe(true);
+    expect(service.checkRoute(route(), guest, 'GQL_QUERY').allowed).toBe(false);
+  });
+
+  it('should cache decisions until the routes reload', async () => {
+    const cached = route();
+    expect(service.checkRoute(cached, editor, 'POST').allowed).toBe(true);
+    cached.routePermissions = [];
+    expect(service.checkRoute(cached, editor, 'POST').allowed).toBe(true);
+
+    const [listener] = routeCacheService.onReload.mock.calls[0];
+    await listener();
+    expect(service.checkRoute(cached, editor, 'POST').allowed).toBe(false);
+  });
+
+  it('should check file permissions', () => {
+    const file = {
+      isPublished: false,
+      permissions: [
+        { id: 1, role: { id: 10 } },
+        { id: 2, allowedUsers: { id: 3 } },
+        { id: 3, isEnabled: false, allowedUsers: { id: 2 } },
+      ],
+    };
+    expect(service.checkFile({ isPublished: true }, null).allowed).toBe(true);
+    expect(service.checkFile(file, null).rule).toBe('unauthenticated');
+    expect(service.checkFile(file, editor)).toMatchObject({
+      allowed: true,
+      rule: 'role',
+      permissionId: 1,
+    });
+    expect(service.checkFile(file, { id: 3, role: null })).toMatchObject({
+      allowed: true,
+      rule: 'allowed-user',
+    });
+    expect(service.checkFile(file, guest).allowed).toBe(false);
+  });
+
+  it('should let root admins inspect any user on a route or table', async () => {
+    const result = await service.explain(
+      { userId: '2', table: 'posts', action: 'update' },
+      { id: 1, isRootAdmin: true },
+    );
+    expect(result).toMatchObject({
+      allowed: true,
+      rule: 'allowed-user',
+      route: '/posts',
+      table: 'posts',
+      method: 'PATCH',
+      user: { id: 2, role: { id: 20, name: 'guest' } },
+    });
+
+    const anonymous = await service.explain(
+      { route: 'posts', action: 'POST' },
+      { id: 1, isRootAdmin: true },
+    );
+    expect(anonymous).toMatchObject({ allowed: false, user: null });
+
+    await expect(
+      service.explain({ table: 'posts' }, editor),
+    ).rejects.toBeInstanceOf(AuthorizationException);
+    userRepo.findOne.mockResolvedValue(null);
+    await expect(
+      service.explain({ userId: '9', table: 'posts' }, { isRootAdmin: true }),
+    ).rejects.toBeInstanceOf(ResourceNotFoundException);
+  });
+});
@@ -0,0 +1,66 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { RoleGuard } from '../../../src/core/auth/guards/role.guard';
+import { AuthorizationService } from '../../../src/core/auth/services/authorization.service';
+
+describe('RoleGuard', () => {
+  let guard: RoleGuard;
+
+  beforeEach(() => {
+    guard = new RoleGuard(
+      { getAllAndOverride: jest.fn().mockReturnValue(false) } as any,
+      new AuthorizationService({} as any, { onReload: jest.fn() } as any),
+    );
+  });
+
+  const contextFor = (req: any) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as any;
+  const route = {
+    id: 5,
+    isEnabled: true,
+    routePermissions: [
+      {
+        id: 7,
+        role: { id: 10 },
+        allowedUsers: [],
+        methods: [{ method: 'GET' }],
+      },
+    ],
+  };
+
+  it('should ask for authentication before looking at the route', async () => {
+    await expect(
+      guard.canActivate(contextFor({ method: 'GET', routeData: undefined })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should let root admins through before checking the route', async () => {
+    const rootAdmin = { id: 1, isRootAdmin: true };
+    await expect(
+      guard.canActivate(
+        contextFor({
+          method: 'DELETE',
+          user: rootAdmin,
+          routeData: { ...route, isEnabled: false },
+        }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('should check the route permissions of everyone else', async () => {
+    const editor = { id: 2, role: { id: 10 } };
+    await expect(
+      guard.canActivate(
+        contextFor({ method: 'GET', user: editor, routeData: route }),
+      ),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(
+        contextFor({ method: 'DELETE', user: editor, routeData: route }),
+      ),
+    ).resolves.toBe(false);
+  });
+});
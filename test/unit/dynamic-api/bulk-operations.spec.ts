@@ -0,0 +1,205 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  In,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { AuthorizationException } from '../../../src/core/exceptions/custom-exceptions';
+
+@Entity('test_task')
+class TestTask {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  title: string;
+
+  @Column({ type: 'varchar', default: 'open' })
+  status: string;
+
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean;
+}
+
+describe('DynamicRepository bulk operations', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let assertSystemSafe: jest.Mock;
+  let seeded: Record<string, number>;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestTask],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestTask],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_task', TestTask);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(TestTask).clear();
+    const tasks = await dataSource.getRepository(TestTask).save([
+      { title: 'Write docs', status: 'open' },
+      { title: 'Fix bug', status: 'open' },
+      { title: 'Ship', status: 'done' },
+      { title: 'Core task', status: 'open', isSystem: true },
+    ]);
+    seeded = Object.fromEntries(tasks.map((task) => [task.title, task.id]));
+    // System records may not be touched
+    assertSystemSafe = jest.fn(async ({ existing }) => {
+      if (existing?.isSystem) throw new Error('Cannot modify system record');
+    });
+  });
+
+  const createRepo = () =>
+    new DynamicRepository({
+      context: { $query: {}, $user: { id: 1, isRootAdmin: true } } as any,
+      tableName: 'test_task',
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe } as any,
+    });
+
+  const titles = async () =>
+    (await dataSource.getRepository(TestTask).find({ order: { id: 'ASC' } }))
+      .map((task) => `${task.title}:${task.status}`)
+      .sort();
+
+  it('should create every record in one call and return the new ids', async () => {
+    const result = await createRepo().createMany([
+      { title: 'Plan' },
+      { title: 'Review', status: 'done' },
+    ]);
+
+    expect(result.count).toBe(2);
+    expect(
+      await dataSource.getRepository(TestTask).findBy({ id: In(result.ids) }),
+    ).toMatchObject([{ title: 'Plan' }, { title: 'Review', status: 'done' }]);
+    expect(assertSystemSafe).toHaveBeenCalledTimes(2);
+    expect(assertSystemSafe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'create',
+        data: expect.objectContaining({ title: 'Plan' }),
+      }),
+    );
+    expect(await dataSource.getRepository(TestTask).count()).toBe(6);
+  });
+
+  it('should roll back the whole create when one record fails', async () => {
+    await expect(
+      createRepo().createMany([{ title: 'Plan' }, { title: null }]),
+    ).rejects.toThrow('NOT NULL constraint failed');
+    expect(await dataSource.getRepository(TestTask).count()).toBe(4);
+
+    await expect(createRepo().createMany([])).rejects.toThrow(
+      'createMany needs an array of records',
+    );
+  });
+
+  it('should update every row matching a filter or an id list', async () => {
+    const result = await createRepo().updateMany(
+      { title: { _in: ['Write docs', 'Fix bug'] } },
+      { status: 'done' },
+    );
+
+    expect(result).toEqual({
+      ids: [seeded['Write docs'], seeded['Fix bug']],
+      count: 2,
+    });
+    expect(assertSystemSafe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'update',
+        data: { status: 'done' },
+        existing: expect.objectContaining({ title: 'Write docs' }),
+      }),
+    );
+
+    expect(
+      await createRepo().updateMany([seeded['Ship']], { status: 'open' }),
+    ).toEqual({ ids: [seeded['Ship']], count: 1 });
+    expect(await titles()).toEqual([
+      'Core task:open',
+      'Fix bug:done',
+      'Ship:open',
+      'Write docs:done',
+    ]);
+  });
+
+  it('should leave every row untouched when one is protected', async () => {
+    await expect(
+      createRepo().updateMany({ status: { _eq: 'open' } }, { status: 'done' }),
+    ).rejects.toThrow('Cannot modify system record');
+    await expect(
+      createRepo().deleteMany({ status: { _eq: 'open' } }),
+    ).rejects.toThrow('Cannot modify system record');
+
+    expect(await titles()).toEqual([
+      'Core task:open',
+      'Fix bug:open',
+      'Ship:done',
+      'Write docs:open',
+    ]);
+  });
+
+  it('should pass authorization errors of bulk deletes through', async () => {
+    assertSystemSafe.mockRejectedValue(new AuthorizationException('Denied'));
+
+    await expect(
+      createRepo().deleteMany({ status: { _eq: 'done' } }),
+    ).rejects.toBeInstanceOf(AuthorizationException);
+    expect(await titles()).toContain('Ship:done');
+  });
+
+  it('should delete by id list or filter and refuse an empty target', async () => {
+    const ids = [seeded['Write docs'], seeded['Fix bug']];
+    expect(await createRepo().deleteMany([...ids, 999])).toEqual({
+      ids,
+      count: 2,
+    });
+    expect(await createRepo().deleteMany({ status: { _eq: 'done' } })).toEqual({
+      ids: [seeded['Ship']],
+      count: 1,
+    });
+    expect(await titles()).toEqual(['Core task:open']);
+
+    await expect(createRepo().deleteMany({})).rejects.toThrow(
+      'A filter or a list of ids is required',
+    );
+    await expect(createRepo().updateMany([], { status: 'x' })).rejects.toThrow(
+      'A filter or a list of ids is required',
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { Entity, PrimaryGeneratedColumn, Column, DataSource } from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { ContextTransaction } from '../../../src/shared/utils/context-transaction';
+
+@Entity('test_order')
+class TestOrder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  code: string;
+}
+
+@Entity('test_stock')
+class TestStock {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  sku: string;
+
+  @Column('int')
+  quantity: number;
+}
+
+describe('ContextTransaction', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let queryCacheService: { invalidate: jest.Mock };
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestOrder, TestStock],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestOrder, TestStock],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_order', TestOrder);
+    dsService.entityClassMap.set('test_stock', TestStock);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(TestOrder).clear();
+    await dataSource.getRepository(TestStock).clear();
+    queryCacheService = { invalidate: jest.fn() };
+  });
+
+  // One context shared by both repositories, as RouteDetectMiddleware builds it
+  const createContext = async () => {
+    const context: any = {
+      $query: {},
+      $user: { id: 1, isRootAdmin: true },
+      $trx: new ContextTransaction(dsService),
+    };
+    const repos = await Promise.all(
+      ['test_order', 'test_stock'].map(async (tableName) => {
+        const repo = new DynamicRepository({
+          context,
+          tableName,
+          queryEngine,
+          dataSourceService: dsService,
+          tableHandlerService: {} as any,
+          routeCacheService: {} as any,
+          systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+          queryCacheService: queryCacheService as any,
+        });
+        await repo.init();
+        return repo;
+      }),
+    );
+    context.$repos = { orders: repos[0], stock: repos[1] };
+    return context;
+  };
+
+  const count = (entity: any) => dataSource.getRepository(entity).count();
+
+  it('should commit writes of every repository together', async () => {
+    const ctx = await createContext();
+
+    await ctx.$trx.run(async () => {
+      await ctx.$repos.orders.create({ code: 'A-1' });
+      await ctx.$repos.stock.create({ sku: 'anvil', quantity: 4 });
+    });
+
+    expect(ctx.$trx.isActive).toBe(false);
+    expect(await count(TestOrder)).toBe(1);
+    expect(await count(TestStock)).toBe(1);
+  });
+
+  it('should roll back every repository when the script throws', async () => {
+    const ctx = await createContext();
+
+    await expect(
+      ctx.$trx.run(async () => {
+        await ctx.$repos.orders.create({ code: 'A-1' });
+        await ctx.$repos.stock.create({ sku: 'anvil', quantity: null });
+      }),
+    ).rejects.toThrow('NOT NULL constraint failed');
+
+    expect(await count(TestOrder)).toBe(0);
+    expect(await count(TestStock)).toBe(0);
+  });
+
+  it('should read uncommitted rows inside the transaction', async () => {
+    const ctx = await createContext();
+
+    await ctx.$trx.begin();
+    const created = await ctx.$repos.stock.create({
+      sku: 'anvil',
+      quantity: 4,
+    });
+    await ctx.$repos.stock.update(created.data[0].id, { quantity: 3 });
+    const updated = await ctx.$repos.stock.find({
+      where: { sku: { _eq: 'anvil' } },
+    });
+    expect(updated.data).toMatchObject([{ sku: 'anvil', quantity: 3 }]);
+    await ctx.$trx.rollback();
+
+    expect(await count(TestStock)).toBe(0);
+  });
+
+  it('should undo only the inner block of a nested transaction', async () => {
+    const ctx = await createContext();
+
+    await ctx.$trx.run(async () => {
+      await ctx.$repos.orders.create({ code: 'A-1' });
+      await expect(
+        ctx.$trx.run(async () => {
+          await ctx.$repos.orders.create({ code: 'A-2' });
+          throw new Error('out of stock');
+        }),
+      ).rejects.toThrow('out of stock');
+      expect(ctx.$trx.isActive).toBe(true);
+    });
+
+    const orders = await dataSource.getRepository(TestOrder).find();
+    expect(orders.map((order) => order.code)).toEqual(['A-1']);
+  });
+
+  it('should run bulk writes inside the open transaction', async () => {
+    const ctx = await createContext();
+
+    await ctx.$trx.begin();
+    await ctx.$repos.stock.createMany([
+      { sku: 'anvil', quantity: 1 },
+      { sku: 'rocket', quantity: 2 },
+    ]);
+    await ctx.$repos.stock.deleteMany({ sku: { _eq: 'anvil' } });
+    await ctx.$trx.release();
+
+    expect(await count(TestStock)).toBe(0);
+    expect(ctx.$trx.queryRunner).toBeUndefined();
+  });
+
+  it('should invalidate the cache only once the transaction commits', async () => {
+    const ctx = await createContext();
+
+    await ctx.$trx.begin();
+    await ctx.$repos.orders.create({ code: 'A-1' });
+    expect(queryCacheService.invalidate).not.toHaveBeenCalled();
+    await ctx.$trx.commit();
+    expect(queryCacheService.invalidate).toHaveBeenCalledWith(['test_order']);
+
+    queryCacheService.invalidate.mockClear();
+    await ctx.$trx.begin();
+    await ctx.$repos.orders.create({ code: 'A-2' });
+    await ctx.$trx.rollback();
+    expect(queryCacheService.invalidate).not.toHaveBeenCalled();
+    expect(await count(TestOrder)).toBe(1);
+  });
+});
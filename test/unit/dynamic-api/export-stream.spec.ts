@@ -0,0 +1,250 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { DynamicService } from '../../../src/modules/dynamic-api/services/dynamic.service';
+import { HiddenField } from '../../../src/shared/decorators/hidden-field.decorator';
+import {
+  createExportStream,
+  resolveExportFormat,
+} from '../../../src/shared/utils/export-stream';
+
+@Entity('test_team')
+class TestTeam {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestMember, (member) => member.team)
+  members: TestMember[];
+}
+
+@Entity('test_member')
+class TestMember {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @HiddenField()
+  @Column('varchar')
+  secret: string;
+
+  @ManyToOne(() => TestTeam, (team) => team.members, { nullable: true })
+  team: TestTeam;
+}
+
+const readAll = async (stream: Readable) => {
+  let out = '';
+  for await (const chunk of stream) out += chunk;
+  return out;
+};
+
+describe('Export streaming', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+  let dynamicService: DynamicService;
+  let dsService: DataSourceService;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestTeam, TestMember],
+    });
+    await dataSource.initialize();
+
+    const [red, blue] = await dataSource
+      .getRepository(TestTeam)
+      .save([{ name: 'Red' }, { name: 'Blue, Inc' }]);
+    await dataSource.getRepository(TestMember).save([
+      { name: 'Ann', secret: 's1', team: red },
+      { name: 'Bob', secret: 's2', team: blue },
+      { name: 'Cid', secret: 's3', team: red },
+      { name: 'Dee "D"', secret: 's4', team: null },
+      { name: 'Eve', secret: 's5', team: blue },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestTeam, TestMember],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_team', TestTeam);
+    dsService.entityClassMap.set('test_member', TestMember);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    dynamicService = new DynamicService(
+      {} as any,
+      mockLoggingService as any,
+      dsService,
+      {} as any,
+    );
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const exportRequest = ($query: any, headers: any = {}) => {
+    const context: any = { $query, $user: { id: 1, isRootAdmin: true } };
+    context.$repos = {
+      main: new DynamicRepository({
+        context,
+        tableName: 'test_member',
+        queryEngine,
+        dataSourceService: dsService,
+        tableHandlerService: {} as any,
+        routeCacheService: {} as any,
+        systemProtectionService: {} as any,
+      }),
+    };
+    return {
+      method: 'GET',
+      query: $query,
+      headers,
+      routeData: { context, mainTable: { name: 'test_member' } },
+    } as any;
+  };
+
+  it('should stream every matching row in sort order across batches', async () => {
+    const batches: any[][] = [];
+    for await (const batch of queryEngine.stream({
+      tableName: 'test_team',
+      fields: 'name',
+      // The to-many join repeats teams; each must be exported once
+      filter: { members: { name: { _neq: 'x' } } },
+      sort: '-name',
+      batchSize: 1,
+    })) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((batch) => batch.map((t) => t.name))).toEqual([
+      ['Red'],
+      ['Blue, Inc'],
+    ]);
+  });
+
+  it('should not skip rows when earlier ones are deleted during the export', async () => {
+    const members = dataSource.getRepository(TestMember);
+    const ann = await members.findOne({
+      where: { name: 'Ann' },
+      relations: ['team'],
+    });
+    const names: string[] = [];
+    for await (const batch of queryEngine.stream({
+      tableName: 'test_member',
+      fields: 'name',
+      sort: 'name',
+      batchSize: 2,
+    })) {
+      names.push(...batch.map((m) => m.name));
+      if (names.length === 2) await members.delete(ann.id);
+    }
+    await members.save(ann);
+
+    expect(names).toEqual(['Ann', 'Bob', 'Cid', 'Dee "D"', 'Eve']);
+  });
+
+  it('should export CSV with flattened relation paths and no hidden fields', async () => {
+    const result = await dynamicService.runHandler(
+      exportRequest(
+        { fields: 'name,secret,team.name', sort: 'id' },
+        {
+          accept: 'text/csv',
+        },
+      ),
+    );
+
+    expect(result).toBeInstanceOf(StreamableFile);
+    expect(result.getHeaders()).toMatchObject({
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="test_member.csv"',
+    });
+    expect(await readAll(result.getStream() as Readable)).toBe(
+      [
+        'id,name,team.id,team.name',
+        '1,Ann,1,Red',
+        '2,Bob,2,"Blue, Inc"',
+        '3,Cid,1,Red',
+        '4,"Dee ""D""",,',
+        '5,Eve,2,"Blue, Inc"',
+        '',
+      ].join('\r\n'),
+    );
+  });
+
+  it('should export NDJSON and JSON arrays', async () => {
+    const query = {
+      fields: 'name',
+      filter: { team: { name: { _eq: 'Red' } } },
+      sort: '-id',
+    };
+
+    const ndjson = await dynamicService.runHandler(
+      exportRequest({ ...query, export: 'ndjson' }),
+    );
+    expect(await readAll(ndjson.getStream() as Readable)).toBe(
+      '{"id":3,"name":"Cid"}\n{"id":1,"name":"Ann"}\n',
+    );
+
+    const json = await dynamicService.runHandler(
+      exportRequest({ ...query, export: 'json' }),
+    );
+    expect(JSON.parse(await readAll(json.getStream() as Readable))).toEqual([
+      { id: 3, name: 'Cid' },
+      { id: 1, name: 'Ann' },
+    ]);
+  });
+
+  it('should write an empty JSON array when nothing matches', async () => {
+    const stream = await createExportStream({
+      batches: (async function* () {})(),
+      format: 'json',
+    });
+    expect(await readAll(stream)).toBe('[]');
+  });
+
+  it('should only export when asked and reject unknown formats', () => {
+    expect(resolveExportFormat({}, 'application/json')).toBeNull();
+    expect(resolveExportFormat({ export: 'csv' })).toBe('csv');
+    expect(resolveExportFormat({}, 'application/x-ndjson')).toBe('ndjson');
+    expect(() => resolveExportFormat({ export: 'xlsx' })).toThrow(
+      'Unknown export format "xlsx"',
+    );
+  });
+
+  it('should refuse to export routes with a custom GET handler', async () => {
+    const req = exportRequest({ export: 'csv' });
+    req.routeData.handler = 'return 1;';
+
+    await expect(dynamicService.runHandler(req)).rejects.toThrow(
+      'Export is only available on routes without a custom GET handler',
+    );
+  });
+});
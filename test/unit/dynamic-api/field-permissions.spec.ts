@@ -0,0 +1,314 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { AuthorizationException } from '../../../src/core/exceptions/custom-exceptions';
+import { createFieldAccess } from '../../../src/shared/utils/field-permission';
+
+@Entity('role_definition')
+class TestRole {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('table_definition')
+class TestTable {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('field_permission_definition')
+class TestFieldPermission {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  field: string;
+
+  @Column('simple-json')
+  actions: string[];
+
+  @Column({ type: 'boolean', default: true })
+  isEnabled: boolean;
+
+  @ManyToOne(() => TestRole, { nullable: true })
+  role: TestRole;
+
+  @ManyToOne(() => TestTable, { nullable: true })
+  table: TestTable;
+}
+
+@Entity('test_department')
+class TestDepartment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @Column({ type: 'int', default: 0 })
+  budget: number;
+
+  @OneToMany(() => TestEmployee, (employee) => employee.department)
+  employees: TestEmployee[];
+}
+
+@Entity('test_employee')
+class TestEmployee {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @Column({ type: 'int', default: 0 })
+  salary: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  notes: string;
+
+  @ManyToOne(() => TestDepartment, (department) => department.employees, {
+    nullable: true,
+  })
+  department: TestDepartment;
+}
+
+describe('Field permissions', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let hr: TestRole;
+  let staff: TestRole;
+  let departmentId: number;
+
+  beforeAll(async () => {
+    const entities = [
+      TestRole,
+      TestTable,
+      TestFieldPermission,
+      TestDepartment,
+      TestEmployee,
+    ];
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities,
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => entities,
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_department', TestDepartment);
+    dsService.entityClassMap.set('test_employee', TestEmployee);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    [hr, staff] = await dataSource
+      .getRepository(TestRole)
+      .save([{ name: 'hr' }, { name: 'staff' }]);
+    const [employeeTable, departmentTable] = await dataSource
+      .getRepository(TestTable)
+      .save([{ name: 'test_employee' }, { name: 'test_department' }]);
+    await dataSource.getRepository(TestFieldPermission).save([
+      {
+        table: employeeTable,
+        field: 'salary',
+        actions: ['read', 'write'],
+        role: hr,
+      },
+      { table: employeeTable, field: 'notes', actions: ['write'], role: hr },
+      {
+        table: departmentTable,
+        field: 'budget',
+        actions: ['read'],
+        role: hr,
+      },
+      {
+        table: departmentTable,
+        field: 'employees',
+        actions: ['read'],
+        role: hr,
+      },
+    ]);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM test_employee');
+    await dataSource.query('DELETE FROM test_department');
+    const department = await dataSource
+      .getRepository(TestDepartment)
+      .save({ name: 'Ops', budget: 1000 });
+    departmentId = department.id;
+    await dataSource.getRepository(TestEmployee).save([
+      { name: 'Ann', salary: 90, notes: 'lead', department },
+      { name: 'Ben', salary: 70, department },
+    ]);
+  });
+
+  const createRepo = (
+    user: any,
+    query: any = {},
+    tableName = 'test_employee',
+  ) => {
+    const repo = new DynamicRepository({
+      context: { $query: query, $user: user } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  const asStaff = () => ({ id: 1, role: { id: staff.id } });
+  const asHr = () => ({ id: 2, role: { id: hr.id } });
+
+  it('should limit a field to the roles of its rules', () => {
+    const rules = [
+      { tableName: 't', field: 'a', actions: ['read' as const], roleId: 1 },
+    ];
+    const access = createFieldAccess(rules, { role: { id: 2 } });
+    expect(access.can('t', 'a', 'read')).toBe(false);
+    expect(access.can('t', 'a', 'write')).toBe(true);
+    expect(access.can('t', 'b', 'read')).toBe(true);
+    const key = createFieldAccess(rules, { role: { id: 1 } }).key;
+    expect(key).toMatch(/^role:1:/);
+    // Changed rules must not reuse results cached under the old ones
+    expect(
+      createFieldAccess([{ ...rules[0], roleId: 2 }], { role: { id: 1 } }).key,
+    ).not.toBe(key);
+    expect(createFieldAccess(rules, { isRootAdmin: true })).toBeUndefined();
+    expect(createFieldAccess([], { role: { id: 2 } })).toBeUndefined();
+  });
+
+  it('should strip unreadable fields from rows and relations', async () => {
+    const { data } = await createRepo(asStaff(), {
+      fields: '*,department.*',
+    }).find({});
+    expect(data).toHaveLength(2);
+    expect(data[0]).toMatchObject({ name: 'Ann', notes: 'lead' });
+    expect(data[0]).not.toHaveProperty('salary');
+    expect(data[0].department).toMatchObject({ name: 'Ops' });
+    expect(data[0].department).not.toHaveProperty('budget');
+
+    const allowed = await createRepo(asHr(), {
+      fields: '*,department.*',
+    }).find({});
+    expect(allowed.data[0]).toMatchObject({
+      salary: 90,
+      department: { budget: 1000 },
+    });
+  });
+
+  it('should let root admins read everything', async () => {
+    const { data } = await createRepo({ id: 3, isRootAdmin: true }).find({});
+    expect(data[0]).toHaveProperty('salary', 90);
+  });
+
+  it('should refuse filters, sorts and aggregates on unreadable fields', async () => {
+    await expect(
+      createRepo(asStaff(), { filter: { salary: { _gt: 80 } } }).find({}),
+    ).rejects.toThrow(AuthorizationException);
+    await expect(
+      createRepo(asStaff(), { sort: '-salary' }).find({}),
+    ).rejects.toThrow('Not allowed to read salary of test_employee');
+    await expect(
+      createRepo(asStaff(), {
+        filter: { department: { budget: { _gt: 0 } } },
+      }).find({}),
+    ).rejects.toThrow('department.budget');
+    await expect(
+      createRepo(asStaff(), { aggregate: { _sum: 'salary' } }).find({}),
+    ).rejects.toThrow(AuthorizationException);
+    await expect(
+      createRepo(asStaff(), {
+        aggregate: {
+          _count: true,
+          groupBy: 'name',
+          having: { _or: [{ _count: { _gt: 0 } }, { _max: { salary: 50 } }] },
+        },
+      }).find({}),
+    ).rejects.toThrow('Not allowed to read salary of test_employee');
+
+    const { data } = await createRepo(asHr(), {
+      filter: { salary: { _gt: 80 } },
+    }).find({});
+    expect(data.map((row: any) => row.name)).toEqual(['Ann']);
+  });
+
+  it('should drop unreadable deep relations', async () => {
+    const { data } = await createRepo(
+      asStaff(),
+      { deep: { employees: {} } },
+      'test_department',
+    ).find({});
+    expect(data[0]).not.toHaveProperty('employees');
+
+    const allowed = await createRepo(
+      asHr(),
+      { deep: { employees: { sort: 'id' } } },
+      'test_department',
+    ).find({});
+    expect(allowed.data[0].employees).toHaveLength(2);
+  });
+
+  it('should refuse writes to unwritable fields', async () => {
+    const ann = await dataSource
+      .getRepository(TestEmployee)
+      .findOneBy({ name: 'Ann' });
+    await expect(
+      createRepo(asStaff()).create({ name: 'Cat', salary: 10 }),
+    ).rejects.toThrow('Not allowed to write salary of test_employee');
+    await expect(
+      createRepo(asStaff()).update(ann.id, { notes: 'x', name: 'y' }),
+    ).rejects.toThrow('Not allowed to write notes of test_employee');
+    await expect(
+      createRepo(asStaff()).createMany([{ name: 'Cat' }, { salary: 1 }]),
+    ).rejects.toThrow(AuthorizationException);
+
+    const { data } = await createRepo(asStaff()).create({ name: 'Cat' });
+    expect(data[0]).toMatchObject({ name: 'Cat' });
+    const created = await createRepo(asHr()).create({
+      name: 'Dan',
+      salary: 50,
+      department: { id: departmentId },
+    });
+    expect(created.data[0]).toMatchObject({ salary: 50 });
+  });
+});
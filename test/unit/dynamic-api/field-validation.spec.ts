@@ -0,0 +1,208 @@
+import { Entity, PrimaryGeneratedColumn, Column, DataSource } from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { FieldValidation } from '../../../src/shared/decorators/field-validation.decorator';
+import { ValidationException } from '../../../src/core/exceptions/custom-exceptions';
+import { assertValidationRules } from '../../../src/shared/utils/field-validation';
+
+@Entity('test_event')
+class TestEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  @FieldValidation({ required: true, minLength: 3, maxLength: 20 })
+  title: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @FieldValidation({ email: true })
+  contact: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @FieldValidation({ url: true, message: 'needs a public link' })
+  website: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @FieldValidation({ pattern: '^[A-Z]{2}-\\d+$', in: ['EU-1', 'US-2'] })
+  region: string;
+
+  @Column({ type: 'int', nullable: true })
+  @FieldValidation({ min: 1, max: 500 })
+  seats: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  startsAt: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  @FieldValidation({ gt: 'startsAt' })
+  endsAt: string;
+}
+
+describe('Column validation rules', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestEvent],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestEvent],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_event', TestEvent);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(TestEvent).clear();
+  });
+
+  const createRepo = ($query: any = {}) => {
+    const repo = new DynamicRepository({
+      context: { $query, $user: { id: 1, isRootAdmin: true } } as any,
+      tableName: 'test_event',
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+    });
+    (repo as any).repo = dsService.getRepository('test_event');
+    return repo;
+  };
+
+  const count = () => dataSource.getRepository(TestEvent).count();
+
+  it('should create records that pass every rule', async () => {
+    const result = await createRepo().create({
+      title: 'Meetup',
+      contact: 'team@example.com',
+      website: 'https://example.com',
+      region: 'EU-1',
+      seats: 40,
+      startsAt: '2026-05-01',
+      endsAt: '2026-05-02',
+    });
+
+    expect(result.data).toMatchObject([{ title: 'Meetup', seats: 40 }]);
+  });
+
+  it('should refuse a record with per-field messages', async () => {
+    const error = await createRepo()
+      .create({
+        title: 'M',
+        contact: 'not-an-email',
+        website: 'ftp://example.com',
+        region: 'eu-1',
+        seats: 900,
+        startsAt: '2026-05-02',
+        endsAt: '2026-05-01',
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationException);
+    expect(error.getStatus()).toBe(422);
+    expect(error.details.fields).toEqual({
+      title: ['must be at least 3 characters'],
+      contact: ['must be a valid email'],
+      website: ['needs a public link'],
+      region: ['must match ^[A-Z]{2}-\\d+$', 'must be one of: EU-1, US-2'],
+      seats: ['must be at most 500'],
+      endsAt: ['must be greater than startsAt'],
+    });
+    expect(await count()).toBe(0);
+  });
+
+  it('should require required fields on create only', async () => {
+    await expect(createRepo().create({ seats: 5 })).rejects.toThrow(
+      'title is required',
+    );
+
+    const { data } = await createRepo().create({ title: 'Meetup' });
+    const updated = await createRepo().update(data[0].id, { seats: 10 });
+    expect(updated.data).toMatchObject([{ title: 'Meetup', seats: 10 }]);
+    await expect(
+      createRepo().update(data[0].id, { title: '' }),
+    ).rejects.toThrow('title is required');
+  });
+
+  it('should check fields compared with the ones an update changes', async () => {
+    const { data } = await createRepo().create({
+      title: 'Meetup',
+      startsAt: '2026-05-01',
+      endsAt: '2026-05-03',
+    });
+
+    await expect(
+      createRepo().update(data[0].id, { startsAt: '2026-05-04' }),
+    ).rejects.toThrow('endsAt must be greater than startsAt');
+    await createRepo().update(data[0].id, { startsAt: '2026-05-02' });
+
+    // Compared with the stored record, not the fields the request selects
+    await expect(
+      createRepo({ fields: 'id' }).update(data[0].id, {
+        startsAt: '2026-05-04',
+      }),
+    ).rejects.toThrow('endsAt must be greater than startsAt');
+    await expect(
+      createRepo({ fields: 'id' }).updateMany([data[0].id], {
+        startsAt: '2026-05-04',
+      }),
+    ).rejects.toThrow('endsAt must be greater than startsAt');
+  });
+
+  it('should report the failing record of a bulk create', async () => {
+    const error = await createRepo()
+      .createMany([{ title: 'Meetup' }, { title: 'Talk', seats: 0 }])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationException);
+    expect(error.message).toBe('Record 1: seats must be at least 1');
+    expect(error.details).toEqual({
+      index: 1,
+      fields: { seats: ['must be at least 1'] },
+    });
+    expect(await count()).toBe(0);
+  });
+
+  it('should reject rules the validator does not know', () => {
+    expect(() =>
+      assertValidationRules('title', { minLength: 3, email: true }),
+    ).not.toThrow();
+    expect(() => assertValidationRules('title', { maxSize: 3 })).toThrow(
+      'Unknown validation rule "maxSize" on "title"',
+    );
+    expect(() => assertValidationRules('title', { min: '3' })).toThrow(
+      'Validation rule "min" on "title" must be a number',
+    );
+    expect(() => assertValidationRules('title', { pattern: '(' })).toThrow(
+      'Invalid pattern on "title"',
+    );
+  });
+});
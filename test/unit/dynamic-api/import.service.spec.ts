@@ -0,0 +1,632 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  DataSource,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  Unique,
+} from 'typeorm';
+import { ImportService } from '../../../src/modules/dynamic-api/services/import.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { ContextTransaction } from '../../../src/shared/utils/context-transaction';
+import { parseImportFile } from '../../../src/shared/utils/import-rows';
+import { FieldValidation } from '../../../src/shared/decorators/field-validation.decorator';
+import { AuthorizationException } from '../../../src/core/exceptions/custom-exceptions';
+
+@Entity('table_definition')
+class TestTableDefinition {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestColumnDefinition, (column) => column.table)
+  columns: TestColumnDefinition[];
+}
+
+@Entity('column_definition')
+class TestColumnDefinition {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @Column('varchar')
+  type: string;
+
+  @Column({ type: 'boolean', default: true })
+  isNullable: boolean;
+
+  @Column({ type: 'boolean', default: false })
+  isGenerated: boolean;
+
+  @Column({ type: 'simple-json', nullable: true })
+  defaultValue: any;
+
+  @Column({ type: 'simple-json', nullable: true })
+  options: any;
+
+  @ManyToOne(() => TestTableDefinition, (table) => table.columns)
+  table: TestTableDefinition;
+}
+
+@Entity('user_definition')
+class TestUser {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  email: string;
+}
+
+@Entity('record_revision')
+class TestRevision {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  action: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  changes: any;
+
+  @Column({ type: 'simple-json', nullable: true })
+  data: any;
+
+  @Column('varchar')
+  recordId: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  route: string;
+
+  @Column('varchar')
+  tableName: string;
+
+  @ManyToOne(() => TestUser, { nullable: true })
+  user: TestUser;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
+
+@Entity('test_brand')
+@Unique(['code'])
+class TestBrand {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  code: string;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('test_product')
+@Unique(['sku'])
+class TestProduct {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  sku: string;
+
+  @Column('varchar')
+  name: string;
+
+  @Column({ type: 'int', nullable: true })
+  @FieldValidation({ min: 0 })
+  price: number;
+
+  @Column({ type: 'boolean', nullable: true })
+  active: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  status: string;
+
+  @Column({ type: 'datetime', nullable: true })
+  releasedAt: Date;
+
+  @ManyToOne(() => TestBrand, { nullable: true })
+  brand: TestBrand;
+
+  @ManyToMany(() => TestBrand)
+  @JoinTable()
+  resellers: TestBrand[];
+
+  @ManyToOne(() => TestUser, { nullable: true })
+  createdBy: TestUser;
+
+  @ManyToOne(() => TestUser, { nullable: true })
+  updatedBy: TestUser;
+}
+
+describe('ImportService', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let service: ImportService;
+  let queryEngine: QueryEngine;
+  let queryCacheService: { invalidate: jest.Mock };
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [
+        TestTableDefinition,
+        TestColumnDefinition,
+        TestUser,
+        TestRevision,
+        TestBrand,
+        TestProduct,
+      ],
+    });
+    await dataSource.initialize();
+
+    const table = await dataSource
+      .getRepository(TestTableDefinition)
+      .save({ name: 'test_product' });
+    await dataSource.getRepository(TestColumnDefinition).save(
+      [
+        { name: 'id', type: 'int', isNullable: false, isGenerated: true },
+        { name: 'sku', type: 'varchar', isNullable: false },
+        { name: 'name', type: 'varchar', isNullable: false },
+        { name: 'price', type: 'int' },
+        { name: 'active', type: 'boolean' },
+        { name: 'status', type: 'enum', options: ['draft', 'live'] },
+        { name: 'releasedAt', type: 'date' },
+      ].map((column) => ({ ...column, table })),
+    );
+    await dataSource.getRepository(TestBrand).save([
+      { code: 'ACME', name: 'Acme' },
+      { code: 'INIT', name: 'Initech' },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_brand', TestBrand);
+    dsService.entityClassMap.set('test_product', TestProduct);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    queryCacheService = { invalidate: jest.fn() };
+    service = new ImportService(
+      dsService,
+      queryCacheService as any,
+      {
+        getOrNil: () => null,
+      } as any,
+    );
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(TestProduct).clear();
+    queryCacheService.invalidate.mockClear();
+  });
+
+  const createRepo = (user?: any, trackRevisions = false, overrides = {}) =>
+    new DynamicRepository({
+      context: { $query: {}, $user: user } as any,
+      tableName: 'test_product',
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+      trackRevisions,
+      ...overrides,
+    });
+
+  const mapping = {
+    SKU: 'sku',
+    Name: 'name',
+    Price: 'price',
+    Active: 'active',
+    Status: 'status',
+    Released: 'releasedAt',
+    Brand: 'brand.code',
+  };
+
+  it('should parse quoted CSV cells into records', () => {
+    const csv =
+      '\uFEFFSKU,Name,Price\r\nA-1,"Anvil, large",10\r\n\r\nA-2,"Rocket ""X""\nskates",\n';
+
+    expect(parseImportFile(Buffer.from(csv), 'csv')).toEqual([
+      { SKU: 'A-1', Name: 'Anvil, large', Price: '10' },
+      { SKU: 'A-2', Name: 'Rocket "X"\nskates', Price: '' },
+    ]);
+  });
+
+  it('should coerce values and resolve relations by a unique field', async () => {
+    const records = parseImportFile(
+      [
+        'SKU,Name,Price,Active,Status,Released,Brand',
+        'A-1,Anvil,10,yes,live,2024-01-02,ACME',
+        'A-2,Rocket,,false,draft,,INIT',
+      ].join('\n'),
+      'csv',
+    );
+
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records,
+      mapping,
+    });
+
+    expect(report).toMatchObject({
+      dryRun: false,
+      total: 2,
+      processed: 2,
+      inserted: 2,
+      failed: 0,
+      errors: [],
+    });
+    const products = await dataSource
+      .getRepository(TestProduct)
+      .find({ relations: ['brand'], order: { id: 'ASC' } });
+    expect(products).toMatchObject([
+      {
+        sku: 'A-1',
+        price: 10,
+        active: true,
+        status: 'live',
+        releasedAt: new Date('2024-01-02'),
+        brand: { code: 'ACME' },
+      },
+      {
+        sku: 'A-2',
+        price: null,
+        active: false,
+        releasedAt: null,
+        brand: { code: 'INIT' },
+      },
+    ]);
+    expect(queryCacheService.invalidate).toHaveBeenCalledWith([
+      'test_product',
+      'test_brand',
+    ]);
+  });
+
+  it('should report every invalid cell on a dry run without inserting', async () => {
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records: [
+        { SKU: 'B-1', Name: 'Ok', Price: '5', Brand: 'ACME' },
+        { SKU: 'B-2', Name: '', Price: '1.5', Status: 'gone', Brand: 'NOPE' },
+        { SKU: 'B-3', Name: 'Bad date', Released: 'soon', Active: 'maybe' },
+      ],
+      mapping,
+      dryRun: true,
+    });
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      total: 3,
+      processed: 3,
+      inserted: 0,
+      failed: 2,
+    });
+    expect(report.errors).toEqual([
+      { row: 2, field: 'Name', message: 'is required' },
+      { row: 2, field: 'Price', message: 'expected an integer, got "1.5"' },
+      {
+        row: 2,
+        field: 'Status',
+        message: 'expected one of draft, live, got "gone"',
+      },
+      { row: 2, field: 'Brand', message: 'no test_brand with code "NOPE"' },
+      { row: 3, field: 'Active', message: 'expected a boolean, got "maybe"' },
+      { row: 3, field: 'Released', message: 'expected a date, got "soon"' },
+    ]);
+    expect(await dataSource.getRepository(TestProduct).count()).toBe(0);
+  });
+
+  it('should reject unknown targets, non-unique lookups and missing required columns', async () => {
+    const records = [{ SKU: 'C-1', Name: 'Thing' }];
+
+    await expect(
+      service.import({
+        tableName: 'test_product',
+        repo: createRepo(),
+        records,
+        mapping: { SKU: 'sku', Name: 'title' },
+      }),
+    ).rejects.toThrow('Unknown import target "title" for column "Name"');
+    await expect(
+      service.import({
+        tableName: 'test_product',
+        repo: createRepo(),
+        records,
+        mapping: { SKU: 'sku', Name: 'name', Brand: 'brand.name' },
+      }),
+    ).rejects.toThrow('"brand.name" must be the id or a unique field');
+    await expect(
+      service.import({
+        tableName: 'test_product',
+        repo: createRepo(),
+        records,
+        mapping: { Name: 'name' },
+      }),
+    ).rejects.toThrow('Required column "sku" is not mapped');
+  });
+
+  it('should keep the valid rows of a batch the database rejects', async () => {
+    await dataSource
+      .getRepository(TestProduct)
+      .save({ sku: 'D-1', name: 'Existing' });
+
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records: [
+        { sku: 'D-2', name: 'New', brand: 1 },
+        { sku: 'D-1', name: 'Duplicate' },
+        { sku: 'D-3', name: 'Also new', brand: { id: 2 } },
+      ],
+    });
+
+    expect(report).toMatchObject({ inserted: 2, failed: 1 });
+    expect(report.errors).toEqual([
+      { row: 2, message: expect.stringContaining('UNIQUE constraint failed') },
+    ]);
+    expect(
+      (await dataSource.getRepository(TestProduct).find()).map((p) => p.sku),
+    ).toEqual(['D-1', 'D-2', 'D-3']);
+  });
+
+  it('should only ever insert new records', async () => {
+    const existing = await dataSource
+      .getRepository(TestProduct)
+      .save({ sku: 'F-1', name: 'Existing' });
+
+    await expect(
+      service.import({
+        tableName: 'test_product',
+        repo: createRepo(),
+        records: [{ ID: existing.id, SKU: 'F-2', Name: 'Takeover' }],
+        mapping: { ID: 'id', SKU: 'sku', Name: 'name' },
+      }),
+    ).rejects.toThrow(
+      'Column "ID" cannot be imported into the primary key "id"',
+    );
+
+    // An exported file still carries ids, they are left out
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records: [
+        { id: existing.id, sku: 'F-2', name: 'Copy', resellers: '1,2' },
+      ],
+    });
+    expect(report).toMatchObject({ inserted: 1, failed: 0 });
+    const products = await dataSource
+      .getRepository(TestProduct)
+      .find({ relations: ['resellers'], order: { id: 'ASC' } });
+    expect(products).toMatchObject([
+      { id: existing.id, name: 'Existing', resellers: [] },
+      {
+        sku: 'F-2',
+        name: 'Copy',
+        resellers: [{ code: 'ACME' }, { code: 'INIT' }],
+      },
+    ]);
+  });
+
+  it('should stamp imported rows and record their revisions', async () => {
+    const [alice, mallory] = await dataSource
+      .getRepository(TestUser)
+      .save([{ email: 'alice@example.com' }, { email: 'mallory@example.com' }]);
+
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo({ id: alice.id }, true),
+      records: [{ SKU: 'G-1', Name: 'Stamped', Author: mallory.id }],
+      mapping: { SKU: 'sku', Name: 'name', Author: 'createdBy' },
+    });
+
+    expect(report).toMatchObject({ inserted: 1, failed: 0 });
+    const product = await dataSource.getRepository(TestProduct).findOne({
+      where: { sku: 'G-1' },
+      relations: ['createdBy', 'updatedBy'],
+    });
+    expect(product.createdBy).toMatchObject({ id: alice.id });
+    expect(product.updatedBy).toMatchObject({ id: alice.id });
+    expect(
+      await dataSource.getRepository(TestRevision).find({
+        where: { recordId: String(product.id) },
+        relations: ['user'],
+      }),
+    ).toMatchObject([
+      {
+        tableName: 'test_product',
+        action: 'create',
+        data: { sku: 'G-1', name: 'Stamped' },
+        user: { id: alice.id },
+      },
+    ]);
+  });
+
+  it('should not link records the importing user cannot read', async () => {
+    jest.spyOn(queryEngine, 'getRowPolicyRules').mockResolvedValue([
+      {
+        tableName: 'test_brand',
+        filter: { code: { _neq: 'INIT' } },
+        actions: ['read'],
+        roleId: null,
+      },
+    ]);
+    try {
+      const report = await service.import({
+        tableName: 'test_product',
+        repo: createRepo(),
+        records: [
+          { SKU: 'I-1', Name: 'Seen', Brand: 'ACME' },
+          { SKU: 'I-2', Name: 'Hidden', Brand: 'INIT' },
+        ],
+        mapping: { SKU: 'sku', Name: 'name', Brand: 'brand.code' },
+      });
+      expect(report).toMatchObject({ inserted: 1, failed: 1 });
+      expect(report.errors).toEqual([
+        { row: 2, field: 'Brand', message: 'no test_brand with code "INIT"' },
+      ]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("should reject rows the repository's write checks refuse", async () => {
+    const access = {
+      key: 'no-price',
+      can: (table: string, field: string, action: string) =>
+        !(field === 'price' && action === 'write'),
+    };
+    const report = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(undefined, false, {
+        queryEngine: { getFieldAccess: async () => access },
+      }),
+      records: [
+        { SKU: 'H-1', Name: 'Priced', Price: '3' },
+        { SKU: 'H-2', Name: 'Unpriced', Price: '' },
+      ],
+      mapping: { SKU: 'sku', Name: 'name', Price: 'price' },
+    });
+    expect(report).toMatchObject({ inserted: 0, failed: 2 });
+    expect(report.errors).toEqual([
+      { row: 1, field: 'Price', message: 'is not writable' },
+      { row: 2, field: 'Price', message: 'is not writable' },
+    ]);
+
+    const invalid = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records: [{ SKU: 'H-3', Name: 'Refund', Price: '-2' }],
+      mapping: { SKU: 'sku', Name: 'name', Price: 'price' },
+      dryRun: true,
+    });
+    expect(invalid.errors).toEqual([
+      { row: 1, field: 'Price', message: 'must be at least 0' },
+    ]);
+
+    const protectedRepo = createRepo(undefined, false, {
+      systemProtectionService: {
+        assertSystemSafe: async ({ data }) => {
+          if (data.sku === 'H-5') {
+            throw new AuthorizationException('Cannot create H-5');
+          }
+        },
+      },
+    });
+    const guarded = await service.import({
+      tableName: 'test_product',
+      repo: protectedRepo,
+      records: [
+        { SKU: 'H-4', Name: 'Allowed' },
+        { SKU: 'H-5', Name: 'Guarded' },
+      ],
+      mapping: { SKU: 'sku', Name: 'name' },
+    });
+    expect(guarded).toMatchObject({ inserted: 1, failed: 1 });
+    expect(guarded.errors).toEqual([{ row: 2, message: 'Cannot create H-5' }]);
+    expect(
+      (await dataSource.getRepository(TestProduct).find()).map((p) => p.sku),
+    ).toEqual(['H-4']);
+  });
+
+  it("should write inside the route's transaction", async () => {
+    const $trx = new ContextTransaction(dsService);
+    const repo = createRepo(undefined, false, {
+      context: { $query: {}, $trx },
+    });
+
+    await $trx.begin();
+    const report = await service.import({
+      tableName: 'test_product',
+      repo,
+      records: [
+        { SKU: 'J-1', Name: 'Rolled back' },
+        { SKU: 'J-1', Name: 'Duplicate' },
+      ],
+      mapping: { SKU: 'sku', Name: 'name' },
+    });
+    expect(report).toMatchObject({ inserted: 1, failed: 1 });
+    expect(queryCacheService.invalidate).not.toHaveBeenCalled();
+    await $trx.rollback();
+
+    expect(await dataSource.getRepository(TestProduct).count()).toBe(0);
+    expect(queryCacheService.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('should forget finished local jobs after their TTL', async () => {
+    const jobs: Map<string, any> = (service as any).localJobs;
+    jobs.set('old', {
+      id: 'old',
+      userId: null,
+      finishedAt: new Date(Date.now() - 2 * 86400 * 1000).toISOString(),
+    });
+    jobs.set('running', { id: 'running', userId: null });
+
+    await expect(service.getJob('old')).rejects.toThrow();
+    expect(await service.getJob('running')).toBeDefined();
+    jobs.delete('running');
+  });
+
+  it('should run large imports as a background job', async () => {
+    (service as any).backgroundThreshold = 2;
+    (service as any).batchSize = 2;
+
+    const job: any = await service.import({
+      tableName: 'test_product',
+      repo: createRepo(),
+      records: ['E-1', 'E-2', 'E-3'].map((sku) => ({ sku, name: sku })),
+      user: { id: 7 },
+    });
+    expect(job).toMatchObject({ status: 'running', total: 3, processed: 0 });
+
+    let progress = await service.getJob(job.id, { id: 7 });
+    for (let i = 0; i < 50 && progress.status === 'running'; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      progress = await service.getJob(job.id, { id: 7 });
+    }
+
+    expect(progress).toMatchObject({
+      status: 'completed',
+      processed: 3,
+      inserted: 3,
+      failed: 0,
+    });
+    await expect(service.getJob(job.id, { id: 8 })).rejects.toThrow();
+    expect(await service.getJob(job.id, { isRootAdmin: true })).toBeDefined();
+
+    (service as any).backgroundThreshold = 5000;
+    (service as any).batchSize = 500;
+  });
+});
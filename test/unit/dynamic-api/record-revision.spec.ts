@@ -0,0 +1,305 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  DeleteDateColumn,
+  ManyToOne,
+  CreateDateColumn,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { HiddenField } from '../../../src/shared/decorators/hidden-field.decorator';
+import { diffRecords } from '../../../src/shared/utils/record-revision';
+import { AuthorizationException } from '../../../src/core/exceptions/custom-exceptions';
+
+@Entity('test_user')
+class TestUser {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  email: string;
+}
+
+@Entity('test_customer')
+class TestCustomer {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @Column({ type: 'int', default: 0 })
+  credit: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  @HiddenField()
+  secret: string;
+
+  @ManyToOne(() => TestUser, { nullable: true })
+  manager: TestUser;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+}
+
+@Entity('record_revision')
+class TestRevision {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  action: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  changes: any;
+
+  @Column({ type: 'simple-json', nullable: true })
+  data: any;
+
+  @Column('varchar')
+  recordId: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  route: string;
+
+  @Column('varchar')
+  tableName: string;
+
+  @ManyToOne(() => TestUser, { nullable: true })
+  user: TestUser;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
+
+describe('Record revisions', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let userId: number;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestUser, TestCustomer, TestRevision],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestUser, TestCustomer, TestRevision],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_user', TestUser);
+    dsService.entityClassMap.set('test_customer', TestCustomer);
+    dsService.entityClassMap.set('record_revision', TestRevision);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM record_revision');
+    await dataSource.query('DELETE FROM test_customer');
+    await dataSource.query('DELETE FROM test_user');
+    const user = await dataSource
+      .getRepository(TestUser)
+      .save({ email: 'ops@example.com' });
+    userId = user.id;
+  });
+
+  const createRepo = (trackRevisions = true, authorizationService?: any) => {
+    const repo = new DynamicRepository({
+      context: {
+        $query: {},
+        $user: { id: userId, isRootAdmin: true },
+        $req: { method: 'PATCH', routeData: { path: '/test_customer' } },
+      } as any,
+      tableName: 'test_customer',
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+      authorizationService,
+      trackRevisions,
+    });
+    (repo as any).repo = dsService.getRepository('test_customer');
+    return repo;
+  };
+
+  const revisionsOf = (recordId: number) =>
+    dataSource.getRepository(TestRevision).find({
+      where: { recordId: String(recordId) },
+      order: { id: 'ASC' },
+      relations: ['user'],
+    });
+
+  it('should diff two states field by field', () => {
+    expect(
+      diffRecords(
+        { name: 'A', credit: 1, manager: { id: 1 } },
+        { name: 'A', credit: 2, manager: null },
+      ),
+    ).toEqual({
+      credit: { from: 1, to: 2 },
+      manager: { from: { id: 1 }, to: null },
+    });
+    expect(diffRecords(null, { name: 'A' })).toEqual({
+      name: { from: null, to: 'A' },
+    });
+  });
+
+  it('should record who changed what on every write', async () => {
+    const { data } = await createRepo().create({
+      name: 'Acme',
+      secret: 'xyz',
+      manager: { id: userId },
+    });
+    const id = data[0].id;
+    await createRepo().update(id, { credit: 50 });
+    await createRepo().update(id, { credit: 50 });
+    await createRepo().delete(id);
+    await createRepo().restore(id);
+
+    const revisions = await revisionsOf(id);
+    expect(revisions.map((revision) => revision.action)).toEqual([
+      'create',
+      'update',
+      'delete',
+      'restore',
+    ]);
+    expect(revisions[0]).toMatchObject({
+      tableName: 'test_customer',
+      route: 'PATCH /test_customer',
+      user: { id: userId },
+      data: { id, name: 'Acme', credit: 0, manager: { id: userId } },
+    });
+    expect(revisions[0].data).not.toHaveProperty('secret');
+    expect(revisions[0].data).not.toHaveProperty('deletedAt');
+    expect(revisions[1].changes).toEqual({ credit: { from: 0, to: 50 } });
+    expect(revisions[2].data).toMatchObject({ name: 'Acme', credit: 50 });
+  });
+
+  it('should leave tables without tracking alone', async () => {
+    await createRepo(false).create({ name: 'Acme' });
+    expect(await dataSource.getRepository(TestRevision).count()).toBe(0);
+  });
+
+  it('should list and compare the revisions of a record', async () => {
+    const { data } = await createRepo().create({ name: 'Acme' });
+    const id = data[0].id;
+    await createRepo().update(id, { name: 'Acme Inc', credit: 10 });
+    await createRepo().update(id, { credit: 20 });
+
+    const listed = await createRepo().revisions(id);
+    expect(listed.data.map((revision: any) => revision.action)).toEqual([
+      'update',
+      'update',
+      'create',
+    ]);
+    expect(listed.data[0].user).toMatchObject({ email: 'ops@example.com' });
+
+    const [first, , last] = await revisionsOf(id);
+    const comparison = await createRepo().compareRevisions(first.id, last.id);
+    expect(comparison.changes).toEqual({
+      name: { from: 'Acme', to: 'Acme Inc' },
+      credit: { from: 0, to: 20 },
+    });
+  });
+
+  it('should roll a record back to a revision', async () => {
+    const { data } = await createRepo().create({ name: 'Acme', credit: 5 });
+    const id = data[0].id;
+    await createRepo().update(id, { name: 'Wrong', credit: 99 });
+    const [created] = await revisionsOf(id);
+
+    const reverted = await createRepo().revert(id, created.id);
+    expect(reverted.data).toMatchObject([{ name: 'Acme', credit: 5 }]);
+
+    const revisions = await revisionsOf(id);
+    expect(revisions[revisions.length - 1]).toMatchObject({
+      action: 'revert',
+      changes: {
+        name: { from: 'Wrong', to: 'Acme' },
+        credit: { from: 99, to: 5 },
+      },
+    });
+    await expect(createRepo().revert(id + 1, created.id)).rejects.toThrow(
+      `Revision ${created.id} does not belong to id ${id + 1}`,
+    );
+  });
+
+  it('should recreate a purged record from its last revision', async () => {
+    const { data } = await createRepo().create({ name: 'Acme', credit: 7 });
+    const id = data[0].id;
+    await createRepo().purge(id);
+    const [created, deleted] = await revisionsOf(id);
+    expect(deleted.action).toBe('delete');
+
+    await expect(createRepo().revert(id, deleted.id)).rejects.toThrow(
+      'deleted the record',
+    );
+    await createRepo().revert(id, created.id);
+    expect(
+      await dataSource.getRepository(TestCustomer).findOneBy({ id }),
+    ).toMatchObject({ name: 'Acme', credit: 7 });
+  });
+
+  it('should check create rights before recreating a purged record', async () => {
+    const { data } = await createRepo().create({ name: 'Acme', credit: 7 });
+    const id = data[0].id;
+    await createRepo().purge(id);
+    const [created] = await revisionsOf(id);
+    const customers = dataSource.getRepository(TestCustomer);
+
+    const noPost = {
+      checkRoute: jest.fn().mockReturnValue({
+        allowed: false,
+        rule: 'no-permission',
+        reason: 'No route permission of /test_customer grants POST',
+      }),
+    };
+    await expect(
+      createRepo(true, noPost).revert(id, created.id),
+    ).rejects.toBeInstanceOf(AuthorizationException);
+    expect(noPost.checkRoute).toHaveBeenCalledWith(
+      { path: '/test_customer' },
+      expect.objectContaining({ id: userId }),
+      'POST',
+    );
+
+    // Only customers with a large credit may be edited
+    const rowAccess = jest
+      .spyOn(queryEngine, 'getRowAccess')
+      .mockResolvedValue({
+        key: 'role:1',
+        filter: () => ({ credit: { _gt: 100 } }),
+      });
+    await expect(createRepo().revert(id, created.id)).rejects.toThrow(
+      `Not allowed to update id ${id} of test_customer`,
+    );
+    rowAccess.mockRestore();
+    expect(await customers.findOneBy({ id })).toBeNull();
+  });
+});
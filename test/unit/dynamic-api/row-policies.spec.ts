@@ -0,0 +1,389 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { AuthorizationException } from '../../../src/core/exceptions/custom-exceptions';
+import { createRowAccess } from '../../../src/shared/utils/row-policy';
+
+@Entity('role_definition')
+class TestRole {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('table_definition')
+class TestTable {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('row_policy_definition')
+class TestRowPolicy {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('simple-json')
+  filter: any;
+
+  @Column('simple-json')
+  actions: string[];
+
+  @Column({ type: 'boolean', default: true })
+  isEnabled: boolean;
+
+  @ManyToOne(() => TestRole, { nullable: true })
+  role: TestRole;
+
+  @ManyToOne(() => TestTable, { nullable: true })
+  table: TestTable;
+}
+
+@Entity('test_rep')
+class TestRep {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestCustomer, (customer) => customer.owner)
+  customers: TestCustomer[];
+}
+
+@Entity('test_customer')
+class TestCustomer {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @Column({ type: 'boolean', default: false })
+  locked: boolean;
+
+  @ManyToOne(() => TestRep, (rep) => rep.customers, { nullable: true })
+  owner: TestRep;
+}
+
+@Entity('test_order')
+class TestOrder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  code: string;
+
+  @ManyToOne(() => TestCustomer, { nullable: true })
+  customer: TestCustomer;
+}
+
+describe('Row policies', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let sales: TestRole;
+  let manager: TestRole;
+  let ann: TestRep;
+  let ben: TestRep;
+  let annCustomer: TestCustomer;
+  let benCustomer: TestCustomer;
+
+  beforeAll(async () => {
+    const entities = [
+      TestRole,
+      TestTable,
+      TestRowPolicy,
+      TestRep,
+      TestCustomer,
+      TestOrder,
+    ];
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities,
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => entities,
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_rep', TestRep);
+    dsService.entityClassMap.set('test_customer', TestCustomer);
+    dsService.entityClassMap.set('test_order', TestOrder);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    [sales, manager] = await dataSource
+      .getRepository(TestRole)
+      .save([{ name: 'sales' }, { name: 'manager' }]);
+    const [customerTable] = await dataSource
+      .getRepository(TestTable)
+      .save([{ name: 'test_customer' }]);
+    await dataSource.getRepository(TestRowPolicy).save([
+      {
+        table: customerTable,
+        role: sales,
+        actions: ['read', 'update', 'delete'],
+        filter: { owner: { id: { _eq: '$CURRENT_USER' } } },
+      },
+      {
+        table: customerTable,
+        role: null,
+        actions: ['update', 'delete'],
+        filter: { locked: { _eq: false } },
+      },
+    ]);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM test_order');
+    await dataSource.query('DELETE FROM test_customer');
+    await dataSource.query('DELETE FROM test_rep');
+    [ann, ben] = await dataSource
+      .getRepository(TestRep)
+      .save([{ name: 'Ann' }, { name: 'Ben' }]);
+    [annCustomer, benCustomer] = await dataSource
+      .getRepository(TestCustomer)
+      .save([
+        { name: 'Acme', owner: ann },
+        { name: 'Globex', owner: ben },
+        { name: 'Initech', owner: ann, locked: true },
+      ]);
+    await dataSource.getRepository(TestOrder).save([
+      { code: 'A-1', customer: annCustomer },
+      { code: 'B-1', customer: benCustomer },
+    ]);
+  });
+
+  const createRepo = (
+    user: any,
+    query: any = {},
+    tableName = 'test_customer',
+  ) => {
+    const repo = new DynamicRepository({
+      context: { $query: query, $user: user } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  // Reps log in as users sharing their id, which policies compare with
+  const asRep = (rep: TestRep) => ({ id: rep.id, role: { id: sales.id } });
+  const asManager = () => ({ id: 99, role: { id: manager.id } });
+  const names = (rows: any[]) => rows.map((row) => row.name).sort();
+
+  it('should combine the policies that apply to a role', () => {
+    const rules = [
+      {
+        tableName: 't',
+        filter: { a: 1 },
+        actions: ['read' as const],
+        roleId: 1,
+      },
+      {
+        tableName: 't',
+        filter: { b: 2 },
+        actions: ['read' as const],
+        roleId: null,
+      },
+      {
+        tableName: 't',
+        filter: { c: 3 },
+        actions: ['read' as const],
+        roleId: 2,
+      },
+    ];
+    const access = createRowAccess(rules, { id: 5, role: { id: 1 } });
+    expect(access.filter('t', 'read')).toEqual({ _or: [{ a: 1 }, { b: 2 }] });
+    expect(access.filter('t', 'delete')).toBeUndefined();
+    expect(access.filter('other', 'read')).toBeUndefined();
+    expect(access.key).toMatch(/^role:1:/);
+    expect(createRowAccess(rules, { isRootAdmin: true })).toBeUndefined();
+    expect(
+      createRowAccess([{ ...rules[0], filter: { owner: '$CURRENT_USER' } }], {
+        id: 5,
+        role: { id: 1 },
+      }).key,
+    ).toMatch(/^user:5:/);
+    // Cached results don't outlive a policy change
+    const tightened = [{ ...rules[0], filter: { a: 2 } }, ...rules.slice(1)];
+    expect(createRowAccess(tightened, { id: 5, role: { id: 1 } }).key).not.toBe(
+      access.key,
+    );
+    expect(createRowAccess(rules, { id: 6, role: { id: 1 } }).key).toBe(
+      access.key,
+    );
+  });
+
+  it('should only return the rows the policies let through', async () => {
+    const { data, meta } = await createRepo(asRep(ann), {
+      meta: 'totalCount,filterCount',
+    }).find({});
+    expect(names(data)).toEqual(['Acme', 'Initech']);
+    expect(meta).toMatchObject({ totalCount: 2, filterCount: 2 });
+
+    const filtered = await createRepo(asRep(ben), {
+      filter: { name: { _eq: 'Acme' } },
+    }).find({});
+    expect(filtered.data).toEqual([]);
+
+    const all = await createRepo(asManager()).find({});
+    expect(names(all.data)).toEqual(['Acme', 'Globex', 'Initech']);
+    const root = await createRepo({ id: 1, isRootAdmin: true }).find({});
+    expect(root.data).toHaveLength(3);
+  });
+
+  it('should hide rows reached through joins and deep relations', async () => {
+    const orders = await createRepo(
+      asRep(ann),
+      { fields: '*,customer.name', sort: 'code' },
+      'test_order',
+    ).find({});
+    expect(orders.data).toHaveLength(2);
+    expect(orders.data[0].customer).toMatchObject({ name: 'Acme' });
+    expect(orders.data[1].customer).toBeNull();
+
+    const reps = await createRepo(
+      asRep(ann),
+      { fields: '*,customers.name', sort: 'id' },
+      'test_rep',
+    ).find({});
+    expect(names(reps.data[0].customers)).toEqual(['Acme', 'Initech']);
+    expect(reps.data[1].customers).toEqual([]);
+
+    const deep = await createRepo(
+      asRep(ben),
+      {
+        sort: 'id',
+        meta: 'totalCount',
+        deep: { customers: { meta: 'totalCount,filterCount' } },
+      },
+      'test_rep',
+    ).find({});
+    expect(deep.data[0].customers).toEqual([]);
+    expect(names(deep.data[1].customers)).toEqual(['Globex']);
+    expect(deep.meta.customers[1]).toMatchObject({
+      totalCount: 1,
+      filterCount: 1,
+    });
+  });
+
+  it('should not match or aggregate rows hidden on joined tables', async () => {
+    const byCustomer = await createRepo(
+      asRep(ann),
+      { filter: { customer: { name: { _eq: 'Globex' } } } },
+      'test_order',
+    ).find({});
+    expect(byCustomer.data).toEqual([]);
+
+    const withGlobex = await createRepo(
+      asRep(ann),
+      { filter: { customers: { _some: { name: { _eq: 'Globex' } } } } },
+      'test_rep',
+    ).find({});
+    expect(withGlobex.data).toEqual([]);
+
+    const byLatest = await createRepo(
+      asRep(ann),
+      { filter: { customers: { _max: { name: { _eq: 'Globex' } } } } },
+      'test_rep',
+    ).find({});
+    expect(byLatest.data).toEqual([]);
+
+    const perRep = await createRepo(
+      asRep(ann),
+      { aggregate: { _count: ['customers.id'], groupBy: ['name'] } },
+      'test_rep',
+    ).find({});
+    expect(perRep.meta.aggregate).toEqual([
+      { name: 'Ann', _count: { 'customers.id': 2 } },
+      { name: 'Ben', _count: { 'customers.id': 0 } },
+    ]);
+
+    const perCustomer = await createRepo(
+      asRep(ann),
+      { aggregate: { _count: true, groupBy: ['customer.name'] } },
+      'test_order',
+    ).find({});
+    expect(perCustomer.meta.aggregate).toEqual([
+      { 'customer.name': null, _count: 1 },
+      { 'customer.name': 'Acme', _count: 1 },
+    ]);
+  });
+
+  it('should refuse updates and deletes the policies do not allow', async () => {
+    await expect(
+      createRepo(asRep(ben)).update(annCustomer.id, { name: 'Mine' }),
+    ).rejects.toThrow('is not exists');
+
+    const initech = await dataSource
+      .getRepository(TestCustomer)
+      .findOneBy({ name: 'Initech' });
+    await expect(
+      createRepo(asManager()).update(initech.id, { name: 'Renamed' }),
+    ).rejects.toThrow(AuthorizationException);
+    await expect(createRepo(asManager()).delete(initech.id)).rejects.toThrow(
+      `Not allowed to delete id ${initech.id} of test_customer`,
+    );
+    // Policies add up: Ann's own policy lets her past the lock
+    await createRepo(asRep(ann)).update(initech.id, { name: 'Initech 2' });
+
+    const { data } = await createRepo(asRep(ann)).update(annCustomer.id, {
+      name: 'Acme Inc',
+    });
+    expect(data[0]).toMatchObject({ name: 'Acme Inc' });
+  });
+
+  it('should skip rows the policies leave out of bulk writes', async () => {
+    const { count } = await createRepo(asManager()).updateMany(
+      { name: { _neq: 'nobody' } },
+      { name: 'Bulk' },
+    );
+    expect(count).toBe(2);
+
+    await dataSource.query('DELETE FROM test_order');
+    const deleted = await createRepo(asRep(ben)).deleteMany({
+      id: { _gt: 0 },
+    });
+    expect(deleted.ids).toEqual([benCustomer.id]);
+    expect(await dataSource.getRepository(TestCustomer).count()).toBe(2);
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  DeleteDateColumn,
+  ManyToOne,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+
+@Entity('test_category')
+class TestCategory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+}
+
+@Entity('test_article')
+class TestArticle {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  title: string;
+
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean;
+
+  @ManyToOne(() => TestCategory, { nullable: true })
+  category: TestCategory;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+}
+
+@Entity('test_tag')
+class TestTag {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  label: string;
+}
+
+describe('DynamicRepository soft delete', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let assertSystemSafe: jest.Mock;
+  let seeded: Record<string, number>;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestCategory, TestArticle, TestTag],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestCategory, TestArticle, TestTag],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_category', TestCategory);
+    dsService.entityClassMap.set('test_article', TestArticle);
+    dsService.entityClassMap.set('test_tag', TestTag);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM test_article');
+    await dataSource.query('DELETE FROM test_category');
+    await dataSource.query('DELETE FROM test_tag');
+    const [news] = await dataSource
+      .getRepository(TestCategory)
+      .save([{ name: 'News' }]);
+    const articles = await dataSource.getRepository(TestArticle).save([
+      { title: 'Launch', category: news },
+      { title: 'Roadmap', category: news },
+      { title: 'About', isSystem: true },
+    ]);
+    seeded = Object.fromEntries(
+      articles.map((article) => [article.title, article.id]),
+    );
+    seeded.News = news.id;
+    assertSystemSafe = jest.fn(async ({ operation, existing }) => {
+      if (operation === 'delete' && existing?.isSystem) {
+        throw new Error('Cannot delete system record!');
+      }
+    });
+  });
+
+  const createRepo = (tableName: string, query: any = {}) => {
+    const repo = new DynamicRepository({
+      context: {
+        $query: query,
+        $user: { id: 1, isRootAdmin: true },
+      } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe } as any,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  const titles = (result: any) =>
+    result.data.map((article: any) => article.title).sort();
+
+  it('should move deleted records to the trash instead of removing them', async () => {
+    await createRepo('test_article').delete(seeded['Launch']);
+
+    expect(titles(await createRepo('test_article').find({}))).toEqual([
+      'About',
+      'Roadmap',
+    ]);
+    expect(
+      titles(
+        await createRepo('test_article', { onlyDeleted: 'true' }).find({}),
+      ),
+    ).toEqual(['Launch']);
+    expect(
+      titles(await createRepo('test_article', { withDeleted: '' }).find({})),
+    ).toEqual(['About', 'Launch', 'Roadmap']);
+    expect(
+      await dataSource.getRepository(TestArticle).count({ withDeleted: true }),
+    ).toBe(3);
+  });
+
+  it('should count only the trash with onlyDeleted', async () => {
+    await createRepo('test_article').deleteMany([
+      seeded['Launch'],
+      seeded['Roadmap'],
+    ]);
+
+    const result = await createRepo('test_article', {
+      onlyDeleted: true,
+      meta: '*',
+    }).find({});
+    expect(result.meta).toMatchObject({ totalCount: 2, filterCount: 2 });
+    expect(await dataSource.getRepository(TestArticle).count()).toBe(1);
+  });
+
+  it('should hide soft-deleted related records', async () => {
+    await createRepo('test_category').delete(seeded['News']);
+
+    const { data } = await createRepo('test_article', {
+      fields: '*,category.name',
+      filter: { title: { _eq: 'Launch' } },
+    }).find({});
+    expect(data).toMatchObject([{ title: 'Launch', category: null }]);
+  });
+
+  it('should restore a record from the trash', async () => {
+    await createRepo('test_article').delete(seeded['Launch']);
+
+    const restored = await createRepo('test_article', {
+      fields: '*,category.name',
+    }).restore(seeded['Launch']);
+    expect(restored.data).toMatchObject([
+      { title: 'Launch', deletedAt: null, category: { name: 'News' } },
+    ]);
+    expect(assertSystemSafe).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        operation: 'update',
+        data: { deletedAt: null },
+      }),
+    );
+
+    await expect(
+      createRepo('test_article').restore(seeded['Roadmap']),
+    ).rejects.toThrow(`id ${seeded['Roadmap']} is not in the trash!`);
+    await expect(createRepo('test_tag').restore(1)).rejects.toThrow(
+      'test_tag does not use soft delete',
+    );
+  });
+
+  it('should purge records for good and keep system records', async () => {
+    await createRepo('test_article').delete(seeded['Launch']);
+
+    await createRepo('test_article').purge(seeded['Launch']);
+    await createRepo('test_article').purge(seeded['Roadmap']);
+    expect(
+      await dataSource.getRepository(TestArticle).count({ withDeleted: true }),
+    ).toBe(1);
+
+    await expect(
+      createRepo('test_article').delete(seeded['About']),
+    ).rejects.toThrow('Cannot delete system record!');
+    await expect(
+      createRepo('test_article').purge(seeded['About']),
+    ).rejects.toThrow('Cannot delete system record!');
+  });
+
+  it('should keep deleting tables without soft delete permanently', async () => {
+    const tag = await dataSource.getRepository(TestTag).save({ label: 'x' });
+
+    await createRepo('test_tag').delete(tag.id);
+    expect(await dataSource.query('SELECT * FROM test_tag')).toEqual([]);
+  });
+});
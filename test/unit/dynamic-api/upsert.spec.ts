@@ -0,0 +1,233 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  DeleteDateColumn,
+  ManyToOne,
+  Unique,
+  VersionColumn,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+
+@Entity('test_locale')
+class TestLocale {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  code: string;
+}
+
+@Entity('test_product')
+@Unique(['sku'])
+@Unique(['slug', 'locale'])
+class TestProduct {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  sku: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  slug: string;
+
+  @Column({ type: 'int', default: 0 })
+  price: number;
+
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean;
+
+  @ManyToOne(() => TestLocale, { nullable: true })
+  locale: TestLocale;
+
+  @VersionColumn()
+  version: number;
+
+  @DeleteDateColumn()
+  deletedAt: Date;
+}
+
+describe('DynamicRepository upsert', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let assertSystemSafe: jest.Mock;
+  let seeded: Record<string, number>;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestLocale, TestProduct],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestLocale, TestProduct],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_locale', TestLocale);
+    dsService.entityClassMap.set('test_product', TestProduct);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM test_product');
+    await dataSource.query('DELETE FROM test_locale');
+    const [en] = await dataSource
+      .getRepository(TestLocale)
+      .save([{ code: 'en' }]);
+    const products = await dataSource.getRepository(TestProduct).save([
+      { sku: 'anvil', slug: 'anvil', price: 10, locale: en },
+      { sku: 'core', price: 1, isSystem: true },
+    ]);
+    seeded = Object.fromEntries(
+      products.map((product) => [product.sku, product.id]),
+    );
+    seeded.en = en.id;
+    assertSystemSafe = jest.fn(async ({ operation, existing }) => {
+      if (operation === 'update' && existing?.isSystem) {
+        throw new Error('Cannot modify system record!');
+      }
+    });
+  });
+
+  const createRepo = () => {
+    const repo = new DynamicRepository({
+      context: { $query: {}, $user: { id: 1, isRootAdmin: true } } as any,
+      tableName: 'test_product',
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe } as any,
+    });
+    (repo as any).repo = dsService.getRepository('test_product');
+    return repo;
+  };
+
+  const product = (sku: string) =>
+    dataSource
+      .getRepository(TestProduct)
+      .findOne({ where: { sku }, withDeleted: true });
+
+  it('should create a record when nothing conflicts', async () => {
+    const result = await createRepo().upsert(
+      { sku: 'rocket', price: 5 },
+      { conflictFields: ['sku'] },
+    );
+
+    expect(result.data).toMatchObject([{ sku: 'rocket', price: 5 }]);
+    expect(await dataSource.getRepository(TestProduct).count()).toBe(3);
+    expect(assertSystemSafe).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'create', existing: null }),
+    );
+  });
+
+  it('should update the record with the same unique key', async () => {
+    const result = await createRepo().upsert(
+      { sku: 'anvil', price: 12 },
+      { conflictFields: 'sku' },
+    );
+
+    expect(result.data).toMatchObject([
+      { id: seeded['anvil'], sku: 'anvil', slug: 'anvil', price: 12 },
+    ]);
+    expect(await product('anvil')).toMatchObject({ price: 12, version: 2 });
+    expect(assertSystemSafe).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: 'update',
+        existing: expect.objectContaining({ id: seeded['anvil'] }),
+      }),
+    );
+  });
+
+  it('should match composite keys with relations by id', async () => {
+    await createRepo().upsert(
+      { slug: 'anvil', locale: seeded.en, sku: 'anvil-2', price: 20 },
+      { conflictFields: ['locale', 'slug'] },
+    );
+
+    const updated = await dataSource
+      .getRepository(TestProduct)
+      .findOneBy({ id: seeded['anvil'] });
+    expect(updated).toMatchObject({ sku: 'anvil-2', price: 20 });
+  });
+
+  it('should pick the unique constraint the body covers', async () => {
+    await createRepo().upsert({ sku: 'anvil', price: 30, id: 999 });
+
+    expect(await product('anvil')).toMatchObject({
+      id: seeded['anvil'],
+      price: 30,
+    });
+  });
+
+  it('should refuse fields that are not a unique constraint', async () => {
+    await expect(
+      createRepo().upsert(
+        { sku: 'anvil', price: 1 },
+        { conflictFields: 'price' },
+      ),
+    ).rejects.toThrow(
+      'conflictFields [price] is not a unique constraint of test_product',
+    );
+    await expect(
+      createRepo().upsert({ slug: 'anvil' }, { conflictFields: 'slug,locale' }),
+    ).rejects.toThrow('Missing value for conflict fields: locale');
+    await expect(createRepo().upsert({ price: 1 })).rejects.toThrow(
+      'No unique constraint of test_product is covered by the body',
+    );
+  });
+
+  it('should refuse MySQL tables with unique keys besides the conflict fields', async () => {
+    const options = dataSource.options;
+    (dataSource as any).options = { ...options, type: 'mysql' };
+    try {
+      await expect(
+        createRepo().upsert({ sku: 'anvil', price: 2 }),
+      ).rejects.toThrow(
+        'Upsert on test_product is not supported on MySQL: it has unique keys besides [sku]',
+      );
+    } finally {
+      (dataSource as any).options = options;
+    }
+    expect(await product('anvil')).toMatchObject({ price: 10 });
+  });
+
+  it('should keep system records and restore trashed ones', async () => {
+    await expect(
+      createRepo().upsert({ sku: 'core', price: 2 }),
+    ).rejects.toThrow('Cannot modify system record!');
+    expect(await product('core')).toMatchObject({ price: 1 });
+
+    await dataSource.getRepository(TestProduct).softDelete(seeded['anvil']);
+    await createRepo().upsert({ sku: 'anvil', price: 11 });
+    expect(await product('anvil')).toMatchObject({
+      price: 11,
+      deletedAt: null,
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  Unique,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { validateUniquePropertyNames } from '../../../src/modules/table-management/utils/duplicate-field-check';
+
+@Entity('user_definition')
+class TestUser {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  email: string;
+}
+
+@Entity('test_note')
+@Unique(['slug'])
+class TestNote {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  slug: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  body: string;
+
+  @ManyToOne(() => TestUser, { nullable: true, onDelete: 'SET NULL' })
+  createdBy: TestUser;
+
+  @ManyToOne(() => TestUser, { nullable: true, onDelete: 'SET NULL' })
+  updatedBy: TestUser;
+}
+
+@Entity('test_plain')
+class TestPlain {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+describe('User stamps', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let alice: number;
+  let bob: number;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestUser, TestNote, TestPlain],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestUser, TestNote, TestPlain],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('user_definition', TestUser);
+    dsService.entityClassMap.set('test_note', TestNote);
+    dsService.entityClassMap.set('test_plain', TestPlain);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM test_note');
+    await dataSource.query('DELETE FROM test_plain');
+    await dataSource.query('DELETE FROM user_definition');
+    const [a, b] = await dataSource
+      .getRepository(TestUser)
+      .save([{ email: 'alice@example.com' }, { email: 'bob@example.com' }]);
+    alice = a.id;
+    bob = b.id;
+  });
+
+  const createRepo = (userId: number | undefined, tableName = 'test_note') => {
+    const repo = new DynamicRepository({
+      context: {
+        $query: {},
+        $user: userId ? { id: userId, isRootAdmin: true } : undefined,
+      } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  const note = (id: number) =>
+    dataSource.getRepository(TestNote).findOne({
+      where: { id },
+      relations: ['createdBy', 'updatedBy'],
+    });
+
+  it('should stamp the acting user on create and update', async () => {
+    const { data } = await createRepo(alice).create({ slug: 'a' });
+    const id = data[0].id;
+    expect(await note(id)).toMatchObject({
+      createdBy: { id: alice },
+      updatedBy: { id: alice },
+    });
+
+    await createRepo(bob).update(id, { body: 'edited' });
+    expect(await note(id)).toMatchObject({
+      body: 'edited',
+      createdBy: { id: alice },
+      updatedBy: { id: bob },
+    });
+  });
+
+  it('should ignore stamps sent in the body', async () => {
+    const { data } = await createRepo(alice).create({
+      slug: 'a',
+      createdBy: { id: bob },
+      updatedBy: bob,
+    });
+    const id = data[0].id;
+    await createRepo(alice).update(id, { createdBy: { id: bob } });
+
+    expect(await note(id)).toMatchObject({
+      createdBy: { id: alice },
+      updatedBy: { id: alice },
+    });
+  });
+
+  it('should leave stamps empty without a user', async () => {
+    const { data } = await createRepo(undefined).create({ slug: 'a' });
+    expect(await note(data[0].id)).toMatchObject({
+      createdBy: null,
+      updatedBy: null,
+    });
+  });
+
+  it('should stamp upserts and bulk writes', async () => {
+    await createRepo(alice).upsert({ slug: 'a', createdBy: bob });
+    await createRepo(bob).upsert({ slug: 'a', body: 'again' });
+    const { ids } = await createRepo(bob).createMany([{ slug: 'b' }]);
+    await createRepo(alice).updateMany(ids, { body: 'bulk' });
+
+    const [upserted, bulk] = await dataSource.getRepository(TestNote).find({
+      relations: ['createdBy', 'updatedBy'],
+      order: { slug: 'ASC' },
+    });
+    expect(upserted).toMatchObject({
+      createdBy: { id: alice },
+      updatedBy: { id: bob },
+    });
+    expect(bulk).toMatchObject({
+      body: 'bulk',
+      createdBy: { id: bob },
+      updatedBy: { id: alice },
+    });
+  });
+
+  it('should not touch tables without stamps', async () => {
+    const { data } = await createRepo(alice, 'test_plain').create({
+      name: 'plain',
+    });
+    expect(data[0]).not.toHaveProperty('createdBy');
+  });
+
+  it('should reserve the stamp fields on the table definition', () => {
+    expect(() =>
+      validateUniquePropertyNames(
+        [{ name: 'id' }],
+        [{ propertyName: 'createdBy' }],
+        ['createdBy', 'updatedBy'],
+      ),
+    ).toThrow('Field name "createdBy" is reserved by the table options');
+  });
+});
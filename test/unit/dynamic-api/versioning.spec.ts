@@ -0,0 +1,213 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  VersionColumn,
+} from 'typeorm';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { DynamicService } from '../../../src/modules/dynamic-api/services/dynamic.service';
+import { PreconditionFailedException } from '../../../src/core/exceptions/custom-exceptions';
+import { parseExpectedVersion } from '../../../src/shared/utils/etag';
+
+@Entity('test_page')
+class TestPage {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  title: string;
+
+  @VersionColumn()
+  version: number;
+}
+
+@Entity('test_note')
+class TestNote {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  text: string;
+}
+
+describe('Versioned records', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let pageId: number;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestPage, TestNote],
+    });
+    await dataSource.initialize();
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestPage, TestNote],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_page', TestPage);
+    dsService.entityClassMap.set('test_note', TestNote);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(TestPage).clear();
+    const page = await dataSource
+      .getRepository(TestPage)
+      .save({ title: 'Draft' });
+    pageId = page.id;
+  });
+
+  const createRepo = (tableName = 'test_page') => {
+    const repo = new DynamicRepository({
+      context: { $query: {}, $user: { id: 1, isRootAdmin: true } } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: { assertSystemSafe: jest.fn() } as any,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  const currentPage = () =>
+    dataSource.getRepository(TestPage).findOneBy({ id: pageId });
+
+  it('should read versions from numbers and If-Match values', () => {
+    expect(parseExpectedVersion(3)).toBe(3);
+    expect(parseExpectedVersion('3')).toBe(3);
+    expect(parseExpectedVersion('"3"')).toBe(3);
+    expect(parseExpectedVersion('W/"12"')).toBe(12);
+    expect(parseExpectedVersion('*')).toBeUndefined();
+    expect(parseExpectedVersion(undefined)).toBeUndefined();
+    expect(() => parseExpectedVersion('abc')).toThrow(
+      PreconditionFailedException,
+    );
+  });
+
+  it('should update when the expected version is current', async () => {
+    const result = await createRepo().update(
+      pageId,
+      { title: 'Published', version: 99 },
+      { expectedVersion: '"1"' },
+    );
+
+    expect(result.data).toMatchObject([{ title: 'Published', version: 2 }]);
+    expect(await currentPage()).toMatchObject({
+      title: 'Published',
+      version: 2,
+    });
+  });
+
+  it('should refuse a stale version with 412 and keep the record', async () => {
+    await createRepo().update(pageId, { title: 'Theirs' });
+
+    const error = await createRepo()
+      .update(pageId, { title: 'Mine' }, { expectedVersion: 1 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(PreconditionFailedException);
+    expect(error.getStatus()).toBe(412);
+    expect(error.details).toEqual({ expected: 1, current: 2 });
+    expect(await currentPage()).toMatchObject({ title: 'Theirs', version: 2 });
+
+    await expect(
+      createRepo().delete(pageId, { expectedVersion: 1 }),
+    ).rejects.toThrow('Version mismatch: expected 1, current is 2');
+    await createRepo().delete(pageId, { expectedVersion: 2 });
+    expect(await currentPage()).toBeNull();
+  });
+
+  it('should check the version of every record a bulk update matches', async () => {
+    const other = await dataSource
+      .getRepository(TestPage)
+      .save({ title: 'Other' });
+    await createRepo().update(other.id, { title: 'Other 2' });
+
+    await expect(
+      createRepo().updateMany(
+        [pageId, other.id],
+        { title: 'Bulk' },
+        { expectedVersion: 1 },
+      ),
+    ).rejects.toBeInstanceOf(PreconditionFailedException);
+    expect(await currentPage()).toMatchObject({ title: 'Draft', version: 1 });
+
+    await createRepo().updateMany([pageId], { title: 'Bulk', version: 50 });
+    expect(await currentPage()).toMatchObject({ title: 'Bulk', version: 2 });
+  });
+
+  it('should ignore versions on tables without a version column', async () => {
+    const note = await dataSource.getRepository(TestNote).save({ text: 'a' });
+
+    const result = await createRepo('test_note').update(
+      note.id,
+      { text: 'b' },
+      { expectedVersion: 5 },
+    );
+    expect(result.data).toMatchObject([{ text: 'b' }]);
+  });
+
+  it('should send the version of a single record as ETag', async () => {
+    const setHeader = jest.fn();
+    const dynamicService = new DynamicService(
+      {
+        run: jest.fn(async () => ({ data: [{ id: pageId, version: 4 }] })),
+      } as any,
+      { error: jest.fn() } as any,
+      dsService,
+      {} as any,
+    );
+    const request = (tableName: string, params: any = { id: pageId }) =>
+      ({
+        method: 'GET',
+        query: {},
+        headers: {},
+        res: { setHeader },
+        routeData: {
+          handler: 'return await $ctx.$repos.main.find();',
+          context: { $repos: { main: {} } },
+          mainTable: { name: tableName },
+          params,
+        },
+      }) as any;
+
+    await dynamicService.runHandler(request('test_page'));
+    expect(setHeader).toHaveBeenCalledWith('ETag', '"4"');
+
+    // A filtered list that matches one row is not that record
+    setHeader.mockClear();
+    await dynamicService.runHandler(request('test_page', {}));
+    expect(setHeader).not.toHaveBeenCalled();
+
+    setHeader.mockClear();
+    await dynamicService.runHandler(request('test_note'));
+    expect(setHeader).not.toHaveBeenCalled();
+  });
+});
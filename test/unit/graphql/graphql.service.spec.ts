@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { GraphqlService } from '../../../src/modules/graphql/services/graphql.service';
 import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
 import { DynamicResolver } from '../../../src/modules/graphql/resolvers/dynamic.resolver';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
 import { createYoga } from 'graphql-yoga';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 
@@ -12,6 +13,7 @@ describe('GraphqlService', () => {
   let service: GraphqlService;
   let dataSourceService: jest.Mocked<DataSourceService>;
   let dynamicResolver: jest.Mocked<DynamicResolver>;
+  let queryEngine: jest.Mocked<QueryEngine>;
 
   const mockEntityMetadata = {
     tableName: 'test_table',
@@ -63,6 +65,11 @@ describe('GraphqlService', () => {
       dynamicResolver: jest.fn(),
     };
 
+    const mockQueryEngine = {
+      getFieldPermissionRules: jest.fn().mockResolvedValue([]),
+      onFieldPermissionsReload: jest.fn(),
+    };
+
     const mockYogaApp = {
       handle: jest.fn(),
     };
@@ -75,12 +82,14 @@ describe('GraphqlService', () => {
         GraphqlService,
         { provide: DataSourceService, useValue: mockDataSourceService },
         { provide: DynamicResolver, useValue: mockDynamicResolver },
+        { provide: QueryEngine, useValue: mockQueryEngine },
       ],
     }).compile();
 
     service = module.get<GraphqlService>(GraphqlService);
     dataSourceService = module.get(DataSourceService);
     dynamicResolver = module.get(DynamicResolver);
+    queryEngine = module.get(QueryEngine);
   });
 
   afterEach(() => {
@@ -93,6 +102,14 @@ describe('GraphqlService', () => {
       await service.onApplicationBootstrap();
       expect(reloadSchemaSpy).toHaveBeenCalled();
     });
+
+    it('should reload schema when field permissions change', async () => {
+      await service.onApplicationBootstrap();
+      const reloadSchemaSpy = jest.spyOn(service, 'reloadSchema');
+      const [listener] = queryEngine.onFieldPermissionsReload.mock.calls[0];
+      await listener();
+      expect(reloadSchemaSpy).toHaveBeenCalled();
+    });
   });
 
   describe('reloadSchema', () => {
@@ -269,6 +286,40 @@ describe('GraphqlService', () => {
       expect(typeDefs).toContain('created: String!');
     });
 
+    it('should make fields with read rules nullable', async () => {
+      const tableWithSalary = {
+        id: 1,
+        name: 'employee',
+        columns: [
+          { name: 'id', type: 'int', isPrimary: true, isNullable: false },
+          { name: 'name', type: 'varchar', isNullable: false },
+          { name: 'salary', type: 'int', isNullable: false },
+        ],
+        relations: [],
+      };
+
+      const dataSource = dataSourceService.getDataSource();
+      const tableRepo = dataSource.getRepository('table_definition');
+      const queryBuilder = tableRepo.createQueryBuilder();
+      queryBuilder.getMany = jest.fn().mockResolvedValue([tableWithSalary]);
+      queryEngine.getFieldPermissionRules.mockResolvedValue([
+        {
+          tableName: 'employee',
+          field: 'salary',
+          actions: ['read'],
+          roleId: 1,
+        },
+      ]);
+
+      await service.reloadSchema();
+
+      const [callArgs] = (makeExecutableSchema as jest.Mock).mock.calls[0];
+      const typeDefs = callArgs.typeDefs;
+
+      expect(typeDefs).toContain('name: String!');
+      expect(typeDefs).toMatch(/salary: Int\n/);
+    });
+
     it('should handle relation types correctly', async () => {
       // Create mock data with actual relations
       const tableWithRelations = {
@@ -0,0 +1,268 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+
+@Entity('test_customer')
+class TestCustomer {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column('int', { default: 0 })
+  credit: number;
+
+  @OneToMany(() => TestOrder, (order) => order.customer)
+  orders: TestOrder[];
+}
+
+@Entity('test_order')
+class TestOrder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  status: string;
+
+  @Column('int')
+  total: number;
+
+  @ManyToOne(() => TestCustomer, (customer) => customer.orders)
+  customer: TestCustomer;
+}
+
+describe('QueryEngine - aggregate option', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestCustomer, TestOrder],
+    });
+    await dataSource.initialize();
+
+    const [alice, bob] = await dataSource.getRepository(TestCustomer).save([
+      { name: 'Alice', credit: 10 },
+      { name: 'Bob', credit: 20 },
+    ]);
+
+    // Alice: 3 paid (100, 200, 300) + 1 pending (50)
+    // Bob:   1 paid (400) + 1 pending (150)
+    await dataSource.getRepository(TestOrder).save([
+      { status: 'paid', total: 100, customer: alice },
+      { status: 'paid', total: 200, customer: alice },
+      { status: 'paid', total: 300, customer: alice },
+      { status: 'pending', total: 50, customer: alice },
+      { status: 'paid', total: 400, customer: bob },
+      { status: 'pending', total: 150, customer: bob },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestCustomer, TestOrder],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_customer', TestCustomer);
+    dsService.entityClassMap.set('test_order', TestOrder);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should compute totals over the whole table', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: {
+        _count: true,
+        _sum: ['total'],
+        _avg: 'total',
+        _min: ['total'],
+        _max: ['total'],
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual({
+      _count: 6,
+      _sum: { total: 1200 },
+      _avg: { total: 200 },
+      _min: { total: 50 },
+      _max: { total: 400 },
+    });
+  });
+
+  it('should only aggregate rows matching the filter', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      filter: { customer: { name: { _eq: 'Alice' } } },
+      aggregate: { _count: true, _sum: ['total'] },
+    });
+
+    expect(result.meta.aggregate).toEqual({
+      _count: 4,
+      _sum: { total: 650 },
+    });
+    expect(result.data).toHaveLength(4);
+  });
+
+  it('should return grouped rows with groupBy', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: { _count: true, _sum: ['total'], groupBy: ['status'] },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      { status: 'paid', _count: 4, _sum: { total: 1000 } },
+      { status: 'pending', _count: 2, _sum: { total: 200 } },
+    ]);
+  });
+
+  it('should group by a relation path', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: { _max: ['total'], groupBy: 'customer.name' },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      { 'customer.name': 'Alice', _max: { total: 300 } },
+      { 'customer.name': 'Bob', _max: { total: 400 } },
+    ]);
+  });
+
+  it('should aggregate over a to-many relation', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_customer',
+      aggregate: {
+        _count: ['orders.id'],
+        _sum: ['orders.total'],
+        groupBy: ['name'],
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      {
+        name: 'Alice',
+        _count: { 'orders.id': 4 },
+        _sum: { 'orders.total': 650 },
+      },
+      {
+        name: 'Bob',
+        _count: { 'orders.id': 2 },
+        _sum: { 'orders.total': 550 },
+      },
+    ]);
+  });
+
+  it('should not repeat root values when mixed with a to-many path', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_customer',
+      aggregate: {
+        _count: true,
+        _sum: ['credit', 'orders.total'],
+        _avg: ['credit', 'orders.total'],
+        _max: ['orders.total'],
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual({
+      _count: 2,
+      _sum: { credit: 30, 'orders.total': 1200 },
+      _avg: { credit: 15, 'orders.total': 200 },
+      _max: { 'orders.total': 400 },
+    });
+  });
+
+  it('should filter groups with having', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: {
+        _count: true,
+        groupBy: ['customer.name'],
+        having: { _count: { _gt: 2 } },
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      { 'customer.name': 'Alice', _count: 4 },
+    ]);
+  });
+
+  it('should support _or and field aggregates in having', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: {
+        _sum: ['total'],
+        groupBy: ['status', 'customer.name'],
+        having: {
+          _or: [
+            { _sum: { total: { _gte: 600 } } },
+            { _max: { total: { _lt: 100 } } },
+          ],
+        },
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      { status: 'paid', 'customer.name': 'Alice', _sum: { total: 600 } },
+      { status: 'pending', 'customer.name': 'Alice', _sum: { total: 50 } },
+    ]);
+  });
+
+  it('should not repeat root values for a to-many path in having', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_customer',
+      aggregate: {
+        _sum: ['credit'],
+        groupBy: ['name'],
+        having: { _sum: { 'orders.total': { _gt: 600 } } },
+      },
+    });
+
+    expect(result.meta.aggregate).toEqual([
+      { name: 'Alice', _sum: { credit: 10 } },
+    ]);
+  });
+
+  it('should not add meta.aggregate when aggregate is empty', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_order',
+      aggregate: {},
+    });
+
+    expect(result.meta).toBeUndefined();
+  });
+
+  it('should reject unknown aggregate fields', async () => {
+    await expect(
+      queryEngine.find({
+        tableName: 'test_order',
+        aggregate: { _sum: ['unknown'] },
+      }),
+    ).rejects.toThrow('Unknown aggregate field "unknown"');
+  });
+});
@@ -0,0 +1,240 @@
+import { Entity, PrimaryGeneratedColumn, Column, DataSource } from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { ValidationException } from '../../../src/core/exceptions/custom-exceptions';
+
+@Entity('test_post')
+class TestPost {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  title: string;
+
+  @Column('int')
+  score: number;
+
+  @Column('int', { nullable: true })
+  rank: number | null;
+}
+
+describe('QueryEngine - cursor pagination', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestPost],
+    });
+    await dataSource.initialize();
+
+    // 25 posts, scores repeat every 5 rows so sorting by score has ties
+    const posts: TestPost[] = [];
+    for (let i = 1; i <= 25; i++) {
+      const post = new TestPost();
+      post.title = `Post ${i}`;
+      post.score = i % 5;
+      post.rank = i % 3 === 0 ? null : i % 4;
+      posts.push(post);
+    }
+    await dataSource.getRepository(TestPost).save(posts);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestPost],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_post', TestPost);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const walkForward = async (sort: string[], limit: number) => {
+    const ids: number[] = [];
+    let after = '';
+    let pages = 0;
+    while (after !== null) {
+      const result = await queryEngine.find({
+        tableName: 'test_post',
+        sort,
+        limit,
+        after,
+      });
+      ids.push(...result.data.map((p) => p.id));
+      after = result.meta.nextCursor;
+      pages++;
+    }
+    return { ids, pages };
+  };
+
+  it('should walk all pages with after without gaps or duplicates', async () => {
+    const { ids, pages } = await walkForward(['id'], 10);
+
+    expect(pages).toBe(3);
+    expect(ids).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+  });
+
+  it('should break ties on the primary key with a DESC sort', async () => {
+    const { ids } = await walkForward(['-score'], 4);
+
+    const expected = (
+      await dataSource
+        .getRepository(TestPost)
+        .find({ order: { score: 'DESC', id: 'ASC' } })
+    ).map((p) => p.id);
+    expect(ids).toEqual(expected);
+  });
+
+  it('should reach rows with a NULL sort value in both directions', async () => {
+    const all = await dataSource.getRepository(TestPost).find();
+    const byRank = (direction: 1 | -1) =>
+      [...all]
+        .sort(
+          (a, b) =>
+            direction * ((a.rank ?? -Infinity) - (b.rank ?? -Infinity)) ||
+            a.id - b.id,
+        )
+        .map((p) => p.id);
+
+    expect((await walkForward(['rank'], 4)).ids).toEqual(byRank(1));
+    expect((await walkForward(['-rank'], 4)).ids).toEqual(byRank(-1));
+
+    const ids: number[] = [];
+    let before = '';
+    while (before !== null) {
+      const result = await queryEngine.find({
+        tableName: 'test_post',
+        sort: ['rank'],
+        limit: 4,
+        before,
+      });
+      ids.unshift(...result.data.map((p) => p.id));
+      before = result.meta.prevCursor;
+    }
+    expect(ids).toEqual(byRank(1));
+  });
+
+  it('should return no prevCursor on the first page', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['id'],
+      limit: 10,
+      after: '',
+    });
+
+    expect(result.meta.prevCursor).toBeNull();
+    expect(result.meta.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should page backwards with before', async () => {
+    const first = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['-score'],
+      limit: 5,
+      after: '',
+    });
+    const second = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['-score'],
+      limit: 5,
+      after: first.meta.nextCursor,
+    });
+    const back = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['-score'],
+      limit: 5,
+      before: second.meta.prevCursor,
+    });
+
+    expect(back.data.map((p) => p.id)).toEqual(first.data.map((p) => p.id));
+    expect(back.meta.prevCursor).toBeNull();
+    expect(back.meta.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should start from the last page with an empty before', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['id'],
+      limit: 10,
+      before: '',
+    });
+
+    expect(result.data.map((p) => p.id)).toEqual(
+      Array.from({ length: 10 }, (_, i) => i + 16),
+    );
+    expect(result.meta.nextCursor).toBeNull();
+  });
+
+  it('should keep the sort field in the rows when not selected', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      fields: 'title',
+      sort: ['-score'],
+      limit: 5,
+      after: '',
+    });
+
+    expect(result.data[0]).toHaveProperty('score');
+  });
+
+  it('should reject a cursor created with a different sort', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      sort: ['id'],
+      limit: 5,
+      after: '',
+    });
+
+    await expect(
+      queryEngine.find({
+        tableName: 'test_post',
+        sort: ['-score'],
+        limit: 5,
+        after: result.meta.nextCursor,
+      }),
+    ).rejects.toThrow('Cursor does not match the current sort');
+  });
+
+  it('should reject a malformed cursor', async () => {
+    const malformed = queryEngine.find({
+      tableName: 'test_post',
+      sort: ['id'],
+      limit: 5,
+      after: 'not-a-cursor',
+    });
+    await expect(malformed).rejects.toThrow(ValidationException);
+    await expect(malformed).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should not allow after and before together', async () => {
+    const both = queryEngine.find({
+      tableName: 'test_post',
+      limit: 5,
+      after: '',
+      before: '',
+    });
+    await expect(both).rejects.toThrow(ValidationException);
+    await expect(both).rejects.toThrow(
+      'Cannot use "after" and "before" in the same query',
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+
+@Entity('test_author')
+class TestAuthor {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @OneToMany(() => TestPost, (post) => post.author)
+  posts: TestPost[];
+}
+
+@Entity('test_post')
+class TestPost {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  title: string;
+
+  @ManyToOne(() => TestAuthor, (author) => author.posts)
+  author: TestAuthor;
+}
+
+describe('QueryEngine - debug mode', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestAuthor, TestPost],
+    });
+    await dataSource.initialize();
+
+    const [john, jane] = await dataSource
+      .getRepository(TestAuthor)
+      .save([{ name: 'John' }, { name: 'Jane' }]);
+    await dataSource.getRepository(TestPost).save([
+      { title: 'First', author: john },
+      { title: 'Second', author: jane },
+      { title: 'Third', author: john },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestAuthor, TestPost],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_author', TestAuthor);
+    dsService.entityClassMap.set('test_post', TestPost);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should not add meta.debug unless requested', async () => {
+    const result = await queryEngine.find({ tableName: 'test_post' });
+    expect(result.meta).toBeUndefined();
+  });
+
+  it('should return the SQL, params, join tree, log and timings', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      fields: 'title,author.name',
+      filter: { author: { name: { _eq: 'John' } } },
+      meta: 'filterCount',
+      sort: '-id',
+      debug: true,
+    });
+
+    expect(result.data.map((p) => p.title)).toEqual(['Third', 'First']);
+    const { debug } = result.meta;
+    expect(debug.sql).toContain('test_post_author');
+    expect(debug.params).toContain('John');
+    expect(debug.queries.map((q) => q.step)).toEqual(['filterCount', 'data']);
+    expect(debug.joinTree.joins).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ alias: 'test_post_author' }),
+      ]),
+    );
+    expect(debug.log).toContain('+ filterCount = 2');
+    expect(debug.timings).toEqual(
+      expect.objectContaining({
+        filterCount: expect.any(Number),
+        data: expect.any(Number),
+        total: expect.any(Number),
+      }),
+    );
+  });
+
+  it('should log skipped filter keys', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      filter: { nope: { _eq: 1 } },
+      debug: true,
+    });
+
+    expect(result.data).toHaveLength(3);
+    expect(result.meta.debug.log).toContain(
+      '! Unknown filter key "nope" skipped',
+    );
+  });
+
+  it('should keep the logs of concurrent queries apart', async () => {
+    const [a, b] = await Promise.all([
+      queryEngine.find({
+        tableName: 'test_post',
+        filter: { title: { _eq: 'First' } },
+        debug: true,
+      }),
+      queryEngine.find({
+        tableName: 'test_author',
+        filter: { name: { _eq: 'Jane' } },
+        debug: true,
+      }),
+    ]);
+
+    expect(a.meta.debug.log.join('\n')).not.toContain('test_author.name');
+    expect(b.meta.debug.log.join('\n')).not.toContain('test_post.title');
+  });
+
+  it('should include the query plan with debug=explain', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_post',
+      filter: { title: { _eq: 'First' } },
+      debug: 'explain',
+    });
+
+    expect(Array.isArray(result.meta.debug.explain)).toBe(true);
+    expect(result.meta.debug.explain.length).toBeGreaterThan(0);
+  });
+
+  it('should only allow root admins to debug through the repository', async () => {
+    const repoFor = (user: any) =>
+      new DynamicRepository({
+        context: { $query: { debug: 'true' }, $user: user } as any,
+        tableName: 'test_post',
+        queryEngine,
+        dataSourceService: dsService,
+        tableHandlerService: {} as any,
+        routeCacheService: {} as any,
+        systemProtectionService: {} as any,
+      });
+
+    await expect(repoFor({ id: 2 }).find({})).rejects.toThrow(
+      'debug is only available to root admins',
+    );
+    const result = await repoFor({ id: 1, isRootAdmin: true }).find({});
+    expect(result.meta.debug.sql).toContain('test_post');
+  });
+});
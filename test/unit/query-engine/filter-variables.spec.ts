@@ -0,0 +1,193 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { resolveFilterVariables } from '../../../src/infrastructure/query-engine/utils/filter-variables';
+
+@Entity('test_owner')
+class TestOwner {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestTask, (task) => task.owner)
+  tasks: TestTask[];
+}
+
+@Entity('test_task')
+class TestTask {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  title: string;
+
+  @Column('datetime')
+  dueAt: Date;
+
+  @ManyToOne(() => TestOwner, (owner) => owner.tasks)
+  owner: TestOwner;
+}
+
+describe('resolveFilterVariables', () => {
+  const now = new Date('2025-03-10T12:00:00.000Z');
+  const user = { id: 7, role: { id: 2, name: 'Editor' } };
+
+  it('should resolve user and role variables', () => {
+    expect(
+      resolveFilterVariables(
+        {
+          owner: { id: { _eq: '$CURRENT_USER' } },
+          _or: [
+            { roleId: { _eq: '$CURRENT_USER.role.id' } },
+            { roleName: { _in: ['$CURRENT_ROLE.name', 'Admin'] } },
+            { role: { _eq: '$CURRENT_ROLE' } },
+          ],
+        },
+        { user, now },
+      ),
+    ).toEqual({
+      owner: { id: { _eq: 7 } },
+      _or: [
+        { roleId: { _eq: 2 } },
+        { roleName: { _in: ['Editor', 'Admin'] } },
+        { role: { _eq: 2 } },
+      ],
+    });
+  });
+
+  it('should resolve $NOW with relative offsets', () => {
+    expect(
+      resolveFilterVariables(
+        {
+          a: '$NOW',
+          b: '$NOW(-7 days)',
+          c: '$NOW(+2 hours)',
+          d: '$NOW(-1 month)',
+          e: '$NOW(1 year)',
+        },
+        { now },
+      ),
+    ).toEqual({
+      a: '2025-03-10T12:00:00.000Z',
+      b: '2025-03-03T12:00:00.000Z',
+      c: '2025-03-10T14:00:00.000Z',
+      d: '2025-02-10T12:00:00.000Z',
+      e: '2026-03-10T12:00:00.000Z',
+    });
+  });
+
+  it('should resolve to null without a user and keep other strings', () => {
+    expect(
+      resolveFilterVariables(
+        { id: { _eq: '$CURRENT_USER' }, price: { _eq: '$100' } },
+        { user: undefined, now },
+      ),
+    ).toEqual({ id: { _eq: null }, price: { _eq: '$100' } });
+  });
+
+  it('should reject malformed $NOW offsets', () => {
+    expect(() =>
+      resolveFilterVariables({ a: '$NOW(-7 fortnights)' }, { now }),
+    ).toThrow('Unknown $NOW unit "fortnight"');
+    expect(() => resolveFilterVariables({ a: '$NOW(soon)' }, { now })).toThrow(
+      'Invalid $NOW offset',
+    );
+  });
+});
+
+describe('QueryEngine - filter variables', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+  let ann: TestOwner;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestOwner, TestTask],
+    });
+    await dataSource.initialize();
+
+    const day = 24 * 60 * 60 * 1000;
+    const owners = await dataSource
+      .getRepository(TestOwner)
+      .save([{ name: 'Ann' }, { name: 'Bob' }]);
+    ann = owners[0];
+    await dataSource.getRepository(TestTask).save([
+      { title: 'Old', dueAt: new Date(Date.now() - 30 * day), owner: ann },
+      { title: 'Recent', dueAt: new Date(Date.now() - 2 * day), owner: ann },
+      { title: 'Other', dueAt: new Date(Date.now() - day), owner: owners[1] },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestOwner, TestTask],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_owner', TestOwner);
+    dsService.entityClassMap.set('test_task', TestTask);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should filter by the current user and a relative date', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_task',
+      filter: {
+        owner: { id: { _eq: '$CURRENT_USER' } },
+        dueAt: { _gte: '$NOW(-7 days)' },
+      },
+      user: { id: ann.id },
+    });
+
+    expect(result.data.map((t) => t.title)).toEqual(['Recent']);
+  });
+
+  it('should resolve variables in deep filters', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_owner',
+      fields: 'name,tasks.title',
+      filter: { id: { _eq: '$CURRENT_USER' } },
+      deep: { tasks: { filter: { dueAt: { _lt: '$NOW(-7 days)' } } } },
+      user: { id: ann.id },
+    });
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].tasks.map((t) => t.title)).toEqual(['Old']);
+  });
+
+  it('should match nothing for anonymous requests', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_task',
+      filter: { owner: { id: { _eq: '$CURRENT_USER' } } },
+    });
+
+    expect(result.data).toEqual([]);
+  });
+});
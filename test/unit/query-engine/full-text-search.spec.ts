@@ -0,0 +1,222 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  Index,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import {
+  buildFullTextSearch,
+  toMysqlBooleanQuery,
+} from '../../../src/infrastructure/query-engine/utils/full-text';
+
+@Entity('test_brand')
+@Index('FTS_test_brand', ['name'], { fulltext: true, synchronize: false })
+class TestBrand {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @OneToMany(() => TestProduct, (product) => product.brand)
+  products: TestProduct[];
+}
+
+@Entity('test_product')
+@Index('FTS_test_product', ['description', 'title'], {
+  fulltext: true,
+  synchronize: false,
+})
+class TestProduct {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  title: string;
+
+  @Column('text')
+  description: string;
+
+  @ManyToOne(() => TestBrand, (brand) => brand.products)
+  brand: TestBrand;
+}
+
+@Entity('test_tag')
+class TestTag {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  label: string;
+}
+
+describe('QueryEngine - _search operator', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestBrand, TestProduct, TestTag],
+    });
+    await dataSource.initialize();
+
+    const [acme, globex] = await dataSource
+      .getRepository(TestBrand)
+      .save([{ name: 'Acme Tools' }, { name: 'Globex' }]);
+    await dataSource.getRepository(TestProduct).save([
+      { title: 'Red apple', description: 'Fresh fruit', brand: acme },
+      { title: 'Green apple', description: 'Sour fruit', brand: globex },
+      { title: 'Hammer', description: 'Steel tool', brand: acme },
+    ]);
+    await dataSource.getRepository(TestTag).save([{ label: 'sale' }]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestBrand, TestProduct, TestTag],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_brand', TestBrand);
+    dsService.entityClassMap.set('test_product', TestProduct);
+    dsService.entityClassMap.set('test_tag', TestTag);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should search a single field', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_product',
+      filter: { title: { _search: 'apple' } },
+      sort: ['id'],
+    });
+
+    expect(result.data.map((p) => p.title)).toEqual([
+      'Red apple',
+      'Green apple',
+    ]);
+  });
+
+  it('should search the full-text index columns at entity level', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_product',
+      filter: { _search: 'fruit -sour' },
+    });
+
+    expect(result.data.map((p) => p.title)).toEqual(['Red apple']);
+  });
+
+  it('should search the index of a related entity', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_product',
+      filter: { brand: { _search: 'acme' } },
+      sort: ['id'],
+    });
+
+    expect(result.data.map((p) => p.title)).toEqual(['Red apple', 'Hammer']);
+  });
+
+  it('should sort by _relevance with joins and limit', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_product',
+      fields: ['title', 'brand.name'],
+      filter: { _search: 'apple' },
+      sort: '_relevance,id',
+      limit: 1,
+    });
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].title).toBe('Red apple');
+  });
+
+  it('should require a full-text index for entity level search', async () => {
+    await expect(
+      queryEngine.find({
+        tableName: 'test_tag',
+        filter: { _search: 'sale' },
+      }),
+    ).rejects.toThrow('_search requires a full-text index on "test_tag"');
+  });
+
+  it('should require a _search filter to sort by _relevance', async () => {
+    await expect(
+      queryEngine.find({ tableName: 'test_product', sort: '-_relevance' }),
+    ).rejects.toThrow('Sorting by _relevance requires a _search filter');
+  });
+});
+
+describe('buildFullTextSearch', () => {
+  const fakeMeta = (type: string) =>
+    ({ connection: { driver: { options: { type } } } }) as any;
+
+  it('should compile MATCH ... AGAINST in boolean mode for MySQL', () => {
+    const search = buildFullTextSearch({
+      meta: fakeMeta('mysql'),
+      alias: 'post',
+      columns: ['title', 'body'],
+      query: 'apple -banana "red fruit"',
+      paramKey: 'p1',
+    });
+
+    expect(search.sql).toBe(
+      'MATCH(post.title, post.body) AGAINST (unaccent(:p1) IN BOOLEAN MODE)',
+    );
+    expect(search.params).toEqual({ p1: '+apple -banana +"red fruit"' });
+    expect(search.relevance).toBe(search.sql);
+  });
+
+  it('should compile a tsvector match for Postgres', () => {
+    const search = buildFullTextSearch({
+      meta: fakeMeta('postgres'),
+      alias: 'post',
+      columns: ['title'],
+      query: 'apple',
+      paramKey: 'p1',
+    });
+
+    const vector =
+      "to_tsvector('simple', immutable_unaccent(coalesce(post.title, '')))";
+    const tsQuery = "websearch_to_tsquery('simple', immutable_unaccent(:p1))";
+    expect(search.sql).toBe(`${vector} @@ ${tsQuery}`);
+    expect(search.relevance).toBe(`ts_rank(${vector}, ${tsQuery})`);
+    expect(search.params).toEqual({ p1: 'apple' });
+  });
+
+  it('should ignore an empty query', () => {
+    expect(
+      buildFullTextSearch({
+        meta: fakeMeta('postgres'),
+        alias: 'post',
+        columns: ['title'],
+        query: '  ',
+        paramKey: 'p1',
+      }),
+    ).toBeNull();
+  });
+
+  it('should strip boolean mode operators from user input', () => {
+    expect(toMysqlBooleanQuery('c++ (tips)* ~x')).toBe('+c +tips +x');
+  });
+});
@@ -0,0 +1,152 @@
+import { Entity, PrimaryGeneratedColumn, Column, DataSource } from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { buildTextComparison } from '../../../src/infrastructure/query-engine/utils/text-compare';
+
+@Entity('test_member')
+class TestMember {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column()
+  email: string;
+}
+
+describe('QueryEngine - case-insensitive operators', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestMember],
+    });
+    await dataSource.initialize();
+
+    await dataSource.getRepository(TestMember).save([
+      { name: 'Alice Walker', email: 'Alice@Example.com' },
+      { name: 'Bob Stone', email: 'bob@example.com' },
+      { name: 'alice cooper', email: 'cooper@music.com' },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestMember],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_member', TestMember);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const names = async (filter: any) =>
+    (
+      await queryEngine.find({ tableName: 'test_member', filter, sort: 'id' })
+    ).data.map((m) => m.name);
+
+  it('should compare equality ignoring case with _ieq', async () => {
+    expect(await names({ email: { _eq: 'alice@example.com' } })).toEqual([]);
+    expect(await names({ email: { _ieq: 'ALICE@example.COM' } })).toEqual([
+      'Alice Walker',
+    ]);
+  });
+
+  it('should match substrings ignoring case', async () => {
+    expect(await names({ name: { _icontains: 'ALICE' } })).toEqual([
+      'Alice Walker',
+      'alice cooper',
+    ]);
+    expect(await names({ name: { _istarts_with: 'BOB' } })).toEqual([
+      'Bob Stone',
+    ]);
+    expect(await names({ email: { _iends_with: '.COM' } })).toHaveLength(3);
+  });
+
+  it('should support _unaccent_contains inside _or', async () => {
+    expect(
+      await names({
+        _or: [
+          { name: { _unaccent_contains: 'COOPER' } },
+          { email: { _ieq: 'BOB@EXAMPLE.COM' } },
+        ],
+      }),
+    ).toEqual(['Bob Stone', 'alice cooper']);
+  });
+});
+
+describe('buildTextComparison', () => {
+  it('should ignore the column collation on MySQL', () => {
+    expect(
+      buildTextComparison({
+        dbType: 'mysql',
+        operator: '_icontains',
+        column: 'user.name',
+        paramKey: 'p1',
+      }),
+    ).toBe(
+      "lower(user.name) COLLATE utf8mb4_bin LIKE CONCAT('%', lower(:p1), '%')",
+    );
+  });
+
+  it('should unaccent both sides for _unaccent_contains', () => {
+    expect(
+      buildTextComparison({
+        dbType: 'postgres',
+        operator: '_unaccent_contains',
+        column: 'user.name',
+        paramKey: 'p1',
+      }),
+    ).toBe(
+      "unaccent(lower(user.name)) LIKE '%' || unaccent(lower(:p1)) || '%'",
+    );
+    expect(
+      buildTextComparison({
+        dbType: 'mysql',
+        operator: '_unaccent_contains',
+        column: 'user.name',
+        paramKey: 'p1',
+      }),
+    ).toBe(
+      "unaccent(lower(user.name)) COLLATE utf8mb4_bin LIKE CONCAT('%', unaccent(lower(:p1)), '%')",
+    );
+  });
+
+  it('should build prefix, suffix and equality comparisons', () => {
+    const build = (operator: string) =>
+      buildTextComparison({
+        dbType: 'postgres',
+        operator,
+        column: 'user.email',
+        paramKey: 'p1',
+      });
+
+    expect(build('_ieq')).toBe('lower(user.email) = lower(:p1)');
+    expect(build('_istarts_with')).toBe(
+      "lower(user.email) LIKE lower(:p1) || '%'",
+    );
+    expect(build('_iends_with')).toBe(
+      "lower(user.email) LIKE '%' || lower(:p1)",
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { buildJsonExtract } from '../../../src/infrastructure/query-engine/utils/json-path';
+
+@Entity('test_team')
+class TestTeam {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column('simple-json', { nullable: true })
+  config: any;
+
+  @OneToMany(() => TestAccount, (account) => account.team)
+  accounts: TestAccount[];
+}
+
+@Entity('test_account')
+class TestAccount {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column('simple-json', { nullable: true })
+  settings: any;
+
+  @ManyToOne(() => TestTeam, (team) => team.accounts)
+  team: TestTeam;
+}
+
+describe('QueryEngine - JSON paths', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestTeam, TestAccount],
+    });
+    await dataSource.initialize();
+
+    const [core, growth] = await dataSource.getRepository(TestTeam).save([
+      { name: 'Core', config: { plan: 'pro', seats: 10 } },
+      { name: 'Growth', config: { plan: 'free', seats: 2 } },
+    ]);
+    await dataSource.getRepository(TestAccount).save([
+      {
+        name: 'Ann',
+        settings: { theme: 'dark', ui: { density: 'compact' }, level: 3 },
+        team: core,
+      },
+      {
+        name: 'Ben',
+        settings: { theme: 'light', ui: { density: 'comfortable' }, level: 12 },
+        team: core,
+      },
+      { name: 'Cat', settings: { theme: 'dark', level: 7 }, team: growth },
+      { name: 'Dan', settings: null, team: growth },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestTeam, TestAccount],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_team', TestTeam);
+    dsService.entityClassMap.set('test_account', TestAccount);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const names = async (filter: any) =>
+    (
+      await queryEngine.find({ tableName: 'test_account', filter, sort: 'id' })
+    ).data.map((a) => a.name);
+
+  it('should filter on a JSON key', async () => {
+    expect(
+      await names({ settings: { _json: { theme: { _eq: 'dark' } } } }),
+    ).toEqual(['Ann', 'Cat']);
+  });
+
+  it('should filter on nested keys and compare numbers numerically', async () => {
+    expect(
+      await names({
+        settings: { _json: { ui: { density: { _starts_with: 'comp' } } } },
+      }),
+    ).toEqual(['Ann']);
+    expect(await names({ settings: { _json: { level: { _gt: 5 } } } })).toEqual(
+      ['Ben', 'Cat'],
+    );
+  });
+
+  it('should combine JSON conditions with _or and relation filters', async () => {
+    expect(
+      await names({
+        team: { config: { _json: { plan: { _eq: 'free' } } } },
+        settings: {
+          _json: {
+            _or: [{ theme: { _eq: 'light' } }, { level: { _is_null: true } }],
+          },
+        },
+      }),
+    ).toEqual(['Dan']);
+  });
+
+  it('should project JSON paths into the row', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_account',
+      fields: 'name,settings.theme,settings.ui.density',
+      sort: 'id',
+      limit: 2,
+    });
+
+    expect(result.data.map((a) => a.settings)).toEqual([
+      { theme: 'dark', ui: { density: 'compact' } },
+      { theme: 'light', ui: { density: 'comfortable' } },
+    ]);
+  });
+
+  it('should project JSON paths of a related table', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_team',
+      fields: 'name,config.seats,accounts.settings.level',
+      sort: 'id',
+    });
+
+    expect(result.data[0].config).toEqual({ seats: 10 });
+    expect(result.data[0].accounts.map((a) => a.settings.level).sort()).toEqual(
+      [12, 3],
+    );
+    expect(result.data[1].accounts.map((a) => a.settings?.level)).toContain(
+      null,
+    );
+  });
+
+  it('should reject _json on a column that is not JSON', async () => {
+    await expect(
+      names({ name: { _json: { first: { _eq: 'A' } } } }),
+    ).rejects.toThrow('_json requires a JSON column, got "name"');
+  });
+
+  it('should reject unsafe JSON path keys', async () => {
+    await expect(
+      names({ settings: { _json: { "x') OR 1=1 --": { _eq: 'a' } } } }),
+    ).rejects.toThrow('Invalid JSON path key');
+  });
+});
+
+describe('buildJsonExtract', () => {
+  it('should use JSON_EXTRACT on MySQL', () => {
+    const build = (as: 'text' | 'json' | 'numeric') =>
+      buildJsonExtract({
+        dbType: 'mysql',
+        column: 'user.settings',
+        columnType: 'simple-json',
+        jsonPath: ['ui', 'theme'],
+        as,
+      });
+
+    expect(build('text')).toBe(
+      "JSON_UNQUOTE(JSON_EXTRACT(user.settings, '$.ui.theme'))",
+    );
+    expect(build('numeric')).toBe("JSON_EXTRACT(user.settings, '$.ui.theme')");
+    expect(build('json')).toBe(
+      "CAST(JSON_EXTRACT(user.settings, '$.ui.theme') AS CHAR)",
+    );
+  });
+
+  it('should use ->> on Postgres and cast simple-json text', () => {
+    expect(
+      buildJsonExtract({
+        dbType: 'postgres',
+        column: 'user.settings',
+        columnType: 'simple-json',
+        jsonPath: ['ui', 'theme'],
+      }),
+    ).toBe("(CAST(user.settings AS jsonb) -> 'ui' ->> 'theme')");
+    expect(
+      buildJsonExtract({
+        dbType: 'postgres',
+        column: 'user.settings',
+        columnType: 'jsonb',
+        jsonPath: ['tags', '0'],
+        as: 'numeric',
+      }),
+    ).toBe("CAST((user.settings -> 'tags' ->> 0) AS numeric)");
+  });
+});
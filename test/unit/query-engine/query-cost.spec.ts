@@ -0,0 +1,238 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { QueryCostExceededException } from '../../../src/core/exceptions/custom-exceptions';
+import {
+  analyzeQueryCost,
+  DEFAULT_QUERY_COST_LIMITS,
+  resolveQueryCostLimits,
+} from '../../../src/infrastructure/query-engine/utils/query-cost';
+
+@Entity('test_country')
+class TestCountry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('test_city')
+class TestCity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @ManyToOne(() => TestCountry)
+  country: TestCountry;
+}
+
+@Entity('test_shop')
+class TestShop {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @ManyToOne(() => TestCity)
+  city: TestCity;
+
+  @OneToMany(() => TestProduct, (product) => product.shop)
+  products: TestProduct[];
+}
+
+@Entity('test_product')
+class TestProduct {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @ManyToOne(() => TestShop, (shop) => shop.products)
+  shop: TestShop;
+}
+
+describe('QueryEngine - query cost limits', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestCountry, TestCity, TestShop, TestProduct],
+    });
+    await dataSource.initialize();
+
+    const country = await dataSource
+      .getRepository(TestCountry)
+      .save({ name: 'VN' });
+    const city = await dataSource
+      .getRepository(TestCity)
+      .save({ name: 'Hanoi', country });
+    const shop = await dataSource
+      .getRepository(TestShop)
+      .save({ name: 'Corner', city });
+    await dataSource.getRepository(TestProduct).save([
+      { name: 'Tea', shop },
+      { name: 'Coffee', shop },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [
+        TestCountry,
+        TestCity,
+        TestShop,
+        TestProduct,
+      ],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_country', TestCountry);
+    dsService.entityClassMap.set('test_city', TestCity);
+    dsService.entityClassMap.set('test_shop', TestShop);
+    dsService.entityClassMap.set('test_product', TestProduct);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should score joins, join depth and page size', () => {
+    expect(
+      analyzeQueryCost({
+        meta: dataSource.getMetadata('test_shop'),
+        fields: 'name,city.country.name',
+        limit: 10,
+      }),
+    ).toEqual({
+      limit: 10,
+      joins: 2,
+      joinDepth: 2,
+      deepDepth: 0,
+      cost: 30,
+      maxDeepLimit: 0,
+    });
+  });
+
+  it('should add the rows read by each deep level', () => {
+    const meta = dataSource.getMetadata('test_shop');
+
+    expect(
+      analyzeQueryCost({
+        meta,
+        fields: 'name',
+        deep: { products: { fields: 'name', limit: 5 } },
+        limit: 10,
+      }),
+    ).toMatchObject({ deepDepth: 1, cost: 10 + 10 * 5, maxDeepLimit: 5 });
+    // Unlimited to-many children are estimated at 100 per parent
+    expect(
+      analyzeQueryCost({
+        meta,
+        fields: 'name',
+        deep: { products: { fields: 'name,shop.city.name' } },
+        limit: 10,
+      }),
+    ).toMatchObject({ joins: 2, deepDepth: 1, cost: 10 + 1000 * 3 });
+  });
+
+  it('should reject over-budget queries before running them', async () => {
+    const error: any = await queryEngine
+      .find({
+        tableName: 'test_shop',
+        fields: 'name,city.country.name',
+        limit: 0,
+        costLimits: { ...DEFAULT_QUERY_COST_LIMITS, maxJoinDepth: 1 },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(QueryCostExceededException);
+    expect(error.message).toBe(
+      'Query is too expensive: maxLimit is 1000, got none; maxJoinDepth is 1, got 2',
+    );
+    expect(error.details.exceeded.map((e) => e.limit)).toEqual([
+      'maxLimit',
+      'maxJoinDepth',
+    ]);
+  });
+
+  it('should run queries within the limits and expose the cost in debug', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_shop',
+      fields: 'name,city.name',
+      deep: { products: { fields: 'name', limit: 1 } },
+      limit: 10,
+      debug: true,
+      costLimits: DEFAULT_QUERY_COST_LIMITS,
+    });
+
+    expect(result.data[0].city.name).toBe('Hanoi');
+    expect(result.data[0].products).toHaveLength(1);
+    expect(result.meta.debug.cost).toMatchObject({ joins: 1, cost: 30 });
+  });
+
+  it('should merge role limits over the defaults', () => {
+    expect(resolveQueryCostLimits(undefined)).toEqual(
+      DEFAULT_QUERY_COST_LIMITS,
+    );
+    expect(
+      resolveQueryCostLimits({ queryLimits: { maxLimit: 50, maxCost: 0 } }),
+    ).toEqual({ ...DEFAULT_QUERY_COST_LIMITS, maxLimit: 50, maxCost: 0 });
+  });
+
+  it('should apply role limits in DynamicRepository except for root admins', async () => {
+    const repoFor = (user: any) =>
+      new DynamicRepository({
+        context: { $query: { limit: 100 }, $user: user } as any,
+        tableName: 'test_shop',
+        queryEngine,
+        dataSourceService: dsService,
+        tableHandlerService: {} as any,
+        routeCacheService: {} as any,
+        systemProtectionService: {} as any,
+      });
+
+    await expect(
+      repoFor({ id: 2, role: { queryLimits: { maxLimit: 20 } } }).find({}),
+    ).rejects.toThrow('maxLimit is 20, got 100');
+    await expect(
+      repoFor({ id: 3, role: { queryLimits: null } }).find({}),
+    ).resolves.toHaveProperty('data');
+    await expect(
+      repoFor({
+        id: 1,
+        isRootAdmin: true,
+        role: { queryLimits: { maxLimit: 20 } },
+      }).find({}),
+    ).resolves.toHaveProperty('data');
+  });
+});
@@ -279,6 +279,21 @@ describe('QueryEngine - Real Integration with DataSourceService', () => {
       expect(notResult.data).toBeDefined();
     });
 
+    it('should keep _not conditions apart from their siblings', async () => {
+      const result = await queryEngine.find({
+        tableName: 'user',
+        filter: {
+          age: { _gt: 30 },
+          _not: { age: { _gt: 60 } },
+        },
+        limit: 0,
+      });
+      expect(result.data.length).toBeGreaterThan(0);
+      expect(result.data.every((user) => user.age > 30 && user.age <= 60)).toBe(
+        true,
+      );
+    });
+
     it('should handle _in and _not_in operators', async () => {
       // _in operator - Test if results contain only specified ages
       const inResult = await queryEngine.find({
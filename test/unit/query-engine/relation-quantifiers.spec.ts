@@ -0,0 +1,216 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+  ManyToMany,
+  JoinTable,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+
+@Entity('test_customer')
+class TestCustomer {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestOrder, (order) => order.customer)
+  orders: TestOrder[];
+}
+
+@Entity('test_label')
+class TestLabel {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+}
+
+@Entity('test_order')
+class TestOrder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  number: string;
+
+  @ManyToOne(() => TestCustomer, (customer) => customer.orders)
+  customer: TestCustomer;
+
+  @OneToMany(() => TestInvoice, (invoice) => invoice.order)
+  invoices: TestInvoice[];
+
+  @ManyToMany(() => TestLabel)
+  @JoinTable()
+  labels: TestLabel[];
+}
+
+@Entity('test_invoice')
+class TestInvoice {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('boolean')
+  paid: boolean;
+
+  @Column('int')
+  amount: number;
+
+  @ManyToOne(() => TestOrder, (order) => order.invoices)
+  order: TestOrder;
+}
+
+describe('QueryEngine - relation quantifiers', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestCustomer, TestLabel, TestOrder, TestInvoice],
+    });
+    await dataSource.initialize();
+
+    const [ann, bob, cid] = await dataSource
+      .getRepository(TestCustomer)
+      .save([{ name: 'Ann' }, { name: 'Bob' }, { name: 'Cid' }]);
+    const [rush, gift] = await dataSource
+      .getRepository(TestLabel)
+      .save([{ name: 'rush' }, { name: 'gift' }]);
+    // A1: all paid, A2: one unpaid, B1: no invoices, C1: all unpaid
+    const [a1, a2, , c1] = await dataSource.getRepository(TestOrder).save([
+      { number: 'A1', customer: ann, labels: [rush, gift] },
+      { number: 'A2', customer: ann, labels: [gift] },
+      { number: 'B1', customer: bob, labels: [] },
+      { number: 'C1', customer: cid, labels: [rush] },
+    ]);
+    await dataSource.getRepository(TestInvoice).save([
+      { paid: true, amount: 100, order: a1 },
+      { paid: true, amount: 50, order: a1 },
+      { paid: true, amount: 20, order: a2 },
+      { paid: false, amount: 80, order: a2 },
+      { paid: false, amount: 10, order: c1 },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [
+        TestCustomer,
+        TestLabel,
+        TestOrder,
+        TestInvoice,
+      ],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_customer', TestCustomer);
+    dsService.entityClassMap.set('test_label', TestLabel);
+    dsService.entityClassMap.set('test_order', TestOrder);
+    dsService.entityClassMap.set('test_invoice', TestInvoice);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const find = (tableName: string, filter: any) =>
+    queryEngine.find({
+      tableName,
+      filter,
+      sort: 'id',
+      meta: 'filterCount',
+    });
+  const orderNumbers = async (filter: any) =>
+    (await find('test_order', filter)).data.map((o) => o.number);
+
+  it('should match orders with at least one matching child using _some', async () => {
+    expect(
+      await orderNumbers({ invoices: { _some: { paid: { _eq: false } } } }),
+    ).toEqual(['A2', 'C1']);
+  });
+
+  it('should match orders with no unpaid invoices using _none', async () => {
+    expect(
+      await orderNumbers({ invoices: { _none: { paid: { _eq: false } } } }),
+    ).toEqual(['A1', 'B1']);
+  });
+
+  it('should match orders whose children all match using _every', async () => {
+    expect(
+      await orderNumbers({ invoices: { _every: { amount: { _gte: 50 } } } }),
+    ).toEqual(['A1', 'B1']);
+    expect(await orderNumbers({ invoices: { _some: {} } })).toEqual([
+      'A1',
+      'A2',
+      'C1',
+    ]);
+    expect(await orderNumbers({ invoices: { _none: {} } })).toEqual(['B1']);
+  });
+
+  it('should not duplicate parent rows', async () => {
+    const result = await find('test_customer', {
+      orders: { _some: { number: { _starts_with: 'A' } } },
+    });
+
+    expect(result.data.map((c) => c.name)).toEqual(['Ann']);
+    expect(result.meta.filterCount).toBe(1);
+  });
+
+  it('should support many-to-many relations and nesting', async () => {
+    expect(
+      await orderNumbers({ labels: { _some: { name: { _eq: 'rush' } } } }),
+    ).toEqual(['A1', 'C1']);
+
+    const result = await find('test_customer', {
+      orders: {
+        _some: {
+          labels: { _some: { name: { _eq: 'rush' } } },
+          invoices: { _every: { paid: { _eq: true } } },
+        },
+      },
+    });
+    expect(result.data.map((c) => c.name)).toEqual(['Ann']);
+  });
+
+  it('should join to-one relations inside the subquery', async () => {
+    expect(
+      await orderNumbers({
+        _or: [
+          {
+            invoices: {
+              _some: { order: { customer: { name: { _eq: 'Cid' } } } },
+            },
+          },
+          { number: { _eq: 'B1' } },
+        ],
+      }),
+    ).toEqual(['B1', 'C1']);
+  });
+
+  it('should reject quantifiers on to-one relations', async () => {
+    await expect(
+      find('test_order', { customer: { _some: { name: { _eq: 'Ann' } } } }),
+    ).rejects.toThrow('_some requires a to-many relation, got "customer"');
+  });
+});
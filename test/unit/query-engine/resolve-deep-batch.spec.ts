@@ -0,0 +1,225 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  DataSource,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+
+@Entity('author')
+class Author {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @OneToMany(() => Article, (article) => article.author)
+  articles: Article[];
+}
+
+@Entity('article')
+class Article {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  title: string;
+
+  @Column('int')
+  views: number;
+
+  @ManyToOne(() => Author, (author) => author.articles)
+  author: Author;
+
+  @OneToMany(() => Note, (note) => note.article)
+  notes: Note[];
+}
+
+@Entity('note')
+class Note {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  content: string;
+
+  @ManyToOne(() => Article, (article) => article.notes)
+  article: Article;
+}
+
+describe('resolveDeepRelations - batched loading', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [Author, Article, Note],
+    });
+    await dataSource.initialize();
+
+    // 5 authors x 4 articles (views = authorIndex * 100 + j) x 3 notes
+    const authors = await dataSource
+      .getRepository(Author)
+      .save([1, 2, 3, 4, 5].map((i) => ({ name: `Author ${i}` })));
+    for (const [i, author] of authors.entries()) {
+      const articles = await dataSource.getRepository(Article).save(
+        [0, 1, 2, 3].map((j) => ({
+          title: `Article ${i + 1}.${j}`,
+          views: (i + 1) * 100 + j,
+          author,
+        })),
+      );
+      for (const article of articles) {
+        await dataSource
+          .getRepository(Note)
+          .save(
+            [0, 1, 2].map((k) => ({
+              content: `Note ${article.id}.${k}`,
+              article,
+            })),
+          );
+      }
+    }
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [Author, Article, Note],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    for (const entity of [Author, Article, Note]) {
+      const table = dataSource.getMetadata(entity).tableName;
+      dsService.entityClassMap.set(table, entity);
+    }
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should run one find per relation and level', async () => {
+    const findSpy = jest.spyOn(queryEngine, 'find');
+
+    const result = await queryEngine.find({
+      tableName: 'author',
+      deep: {
+        articles: {
+          fields: ['title'],
+          deep: { notes: { fields: ['content'] } },
+        },
+      },
+    });
+
+    // root + articles + notes
+    expect(findSpy).toHaveBeenCalledTimes(3);
+    findSpy.mockRestore();
+
+    expect(result.data).toHaveLength(5);
+    for (const author of result.data) {
+      expect(author.articles).toHaveLength(4);
+      for (const article of author.articles) {
+        expect(article.notes).toHaveLength(3);
+      }
+    }
+  });
+
+  it('should apply sort, limit and page per parent', async () => {
+    const result = await queryEngine.find({
+      tableName: 'author',
+      sort: ['id'],
+      deep: {
+        articles: { fields: ['views'], sort: ['-views'], limit: 2, page: 2 },
+      },
+    });
+
+    result.data.forEach((author, i) => {
+      const base = (i + 1) * 100;
+      expect(author.articles.map((a) => a.views)).toEqual([base + 1, base]);
+    });
+  });
+
+  it('should apply the deep filter before limiting', async () => {
+    const result = await queryEngine.find({
+      tableName: 'author',
+      sort: ['id'],
+      filter: { id: { _eq: 1 } },
+      deep: {
+        articles: {
+          fields: ['views'],
+          filter: { views: { _gte: 102 } },
+          sort: ['views'],
+          limit: 1,
+        },
+      },
+    });
+
+    expect(result.data[0].articles.map((a) => a.views)).toEqual([102]);
+  });
+
+  it('should keep per-parent meta keyed by parent id', async () => {
+    const result = await queryEngine.find({
+      tableName: 'author',
+      sort: ['id'],
+      limit: 2,
+      deep: {
+        articles: {
+          fields: ['title'],
+          filter: { views: { _gte: 102 } },
+          limit: 1,
+          meta: 'filterCount,totalCount',
+          deep: { notes: { limit: 1, meta: 'filterCount' } },
+        },
+      },
+    });
+
+    const [first, second] = result.data;
+    expect(result.meta.articles).toEqual([
+      {
+        id: first.id,
+        totalCount: 20,
+        filterCount: 2,
+        notes: [{ id: first.articles[0].id, filterCount: 3 }],
+      },
+      {
+        id: second.id,
+        totalCount: 20,
+        filterCount: 4,
+        notes: [{ id: second.articles[0].id, filterCount: 3 }],
+      },
+    ]);
+  });
+
+  it('should load a to-one relation as a single item array', async () => {
+    const result = await queryEngine.find({
+      tableName: 'article',
+      fields: 'title',
+      limit: 3,
+      deep: { author: { fields: ['name'] } },
+    });
+
+    for (const article of result.data) {
+      expect(article.author).toHaveLength(1);
+      expect(article.author[0]).toHaveProperty('name');
+    }
+  });
+});
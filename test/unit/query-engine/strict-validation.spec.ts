@@ -0,0 +1,223 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { ValidationException } from '../../../src/core/exceptions/custom-exceptions';
+import { validateQuery } from '../../../src/infrastructure/query-engine/utils/validate-query';
+
+@Entity('test_writer')
+class TestWriter {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestArticle, (article) => article.writer)
+  articles: TestArticle[];
+}
+
+@Entity('test_article')
+class TestArticle {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  title: string;
+
+  @Column('int')
+  views: number;
+
+  @Column('boolean', { default: false })
+  published: boolean;
+
+  @Column('simple-json', { nullable: true })
+  extra: any;
+
+  @ManyToOne(() => TestWriter, (writer) => writer.articles)
+  writer: TestWriter;
+}
+
+@Entity('setting_definition')
+class TestSetting {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('boolean', { default: false })
+  strictQueryValidation: boolean;
+}
+
+describe('QueryEngine - strict validation', () => {
+  let dataSource: DataSource;
+  let queryEngine: QueryEngine;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestWriter, TestArticle, TestSetting],
+    });
+    await dataSource.initialize();
+
+    const [ann] = await dataSource
+      .getRepository(TestWriter)
+      .save([{ name: 'Ann' }]);
+    await dataSource.getRepository(TestArticle).save([
+      { title: 'One', views: 10, published: true, writer: ann },
+      { title: 'Two', views: 3, writer: ann },
+    ]);
+    await dataSource
+      .getRepository(TestSetting)
+      .save({ strictQueryValidation: false });
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestWriter, TestArticle, TestSetting],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_writer', TestWriter);
+    dsService.entityClassMap.set('test_article', TestArticle);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  const typo = { titel: { _eq: 'One' } };
+
+  it('should skip unknown keys when not strict', async () => {
+    const result = await queryEngine.find({
+      tableName: 'test_article',
+      filter: typo,
+    });
+    expect(result.data).toHaveLength(2);
+  });
+
+  it('should reject unknown keys with strict=true', async () => {
+    await expect(
+      queryEngine.find({
+        tableName: 'test_article',
+        filter: typo,
+        strict: true,
+      }),
+    ).rejects.toBeInstanceOf(ValidationException);
+  });
+
+  it('should list every problem in the exception details', async () => {
+    const error: any = await queryEngine
+      .find({
+        tableName: 'test_article',
+        fields: 'title,writer.nmae',
+        filter: {
+          titel: { _eq: 'One' },
+          views: { _gt: 'many', _like: 'x' },
+          writer: { name: { _in: 'Ann' }, _sum: { age: { _gt: 1 } } },
+        },
+        sort: '-writer',
+        strict: true,
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationException);
+    expect(error.details.errors).toEqual([
+      {
+        path: 'fields.writer.nmae',
+        message: 'Unknown field or relation "nmae" on "test_writer"',
+      },
+      { path: 'sort.writer', message: 'Cannot sort by relation "writer"' },
+      {
+        path: 'filter.titel',
+        message: 'Unknown field or relation "titel" on "test_article"',
+      },
+      {
+        path: 'filter.views._gt',
+        message: 'expected a number, got "many"',
+      },
+      { path: 'filter.views._like', message: 'Unknown operator "_like"' },
+      // Aggregate blocks ignore anything else on the relation
+      { path: 'filter.writer.name', message: 'Unknown aggregate "name"' },
+      {
+        path: 'filter.writer._sum.age',
+        message: 'Unknown field "age" on "test_writer"',
+      },
+    ]);
+  });
+
+  it('should follow the global setting when strict is not given', async () => {
+    await dataSource
+      .getRepository(TestSetting)
+      .update({ id: 1 }, { strictQueryValidation: true });
+    (queryEngine as any).strictSetting = undefined;
+
+    await expect(
+      queryEngine.find({ tableName: 'test_article', filter: typo }),
+    ).rejects.toThrow('filter.titel');
+    const result = await queryEngine.find({
+      tableName: 'test_article',
+      filter: typo,
+      strict: false,
+    });
+    expect(result.data).toHaveLength(2);
+
+    await dataSource
+      .getRepository(TestSetting)
+      .update({ id: 1 }, { strictQueryValidation: false });
+    (queryEngine as any).strictSetting = undefined;
+  });
+
+  it('should accept valid queries', () => {
+    expect(
+      validateQuery({
+        meta: dataSource.getMetadata('test_article'),
+        fields: 'title,writer.*,extra.a.b',
+        filter: {
+          _or: [
+            { views: { _between: '1,20' }, published: { _eq: 'true' } },
+            { writer: { name: { _icontains: 'an' } } },
+            { extra: { _json: { theme: { _eq: 'dark' } } } },
+            { writer: { _count: { _gte: 1 } } },
+          ],
+        },
+        sort: '-views,writer.name',
+        deep: { writer: { fields: 'name' } },
+      }),
+    ).toEqual([]);
+  });
+
+  it('should reject input that could not be parsed as JSON', () => {
+    expect(
+      validateQuery({
+        meta: dataSource.getMetadata('test_article'),
+        filter: '{"title":{"_eq":',
+        deep: { comments: {} },
+      }),
+    ).toEqual([
+      { path: 'filter', message: 'expected a JSON object' },
+      {
+        path: 'deep.comments',
+        message: 'Unknown relation "comments" on "test_article"',
+      },
+    ]);
+  });
+});
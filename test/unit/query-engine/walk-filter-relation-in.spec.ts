@@ -201,6 +201,35 @@ describe('walkFilter - Relation _in/_not_in Operators', () => {
       expect(part.params).toHaveProperty('p1', categories[2].id);
     });
 
+    it('should not match categories the read policy hides', async () => {
+      const postMeta = dataSource.getMetadata(Post);
+      const readPolicy = (tableName: string) =>
+        tableName === 'category' ? { name: { _neq: 'Sports' } } : undefined;
+      const titlesFor = async (filter: any) => {
+        const { parts } = walkFilter({
+          filter,
+          currentMeta: postMeta,
+          currentAlias: 'post',
+          readPolicy,
+        });
+        const rows = await dataSource
+          .createQueryBuilder(Post, 'post')
+          .where(parts[0].sql, parts[0].params)
+          .orderBy('post.id')
+          .getMany();
+        return rows.map((post) => post.title);
+      };
+
+      expect(
+        await titlesFor({
+          categories: { _in: [categories[0].id, categories[1].id] },
+        }),
+      ).toEqual(['Tech Post 1', 'Tech Post 2']);
+      expect(
+        await titlesFor({ categories: { _not_in: [categories[1].id] } }),
+      ).toHaveLength(5);
+    });
+
     it('should handle _in operator for user roles', () => {
       const userMeta = dataSource.getMetadata(User);
       const filter = {
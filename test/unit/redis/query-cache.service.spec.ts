@@ -0,0 +1,313 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  DataSource,
+  ManyToOne,
+  OneToMany,
+} from 'typeorm';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { QueryCacheService } from '../../../src/infrastructure/redis/services/query-cache.service';
+import { QueryEngine } from '../../../src/infrastructure/query-engine/services/query-engine.service';
+import { DataSourceService } from '../../../src/core/database/data-source/data-source.service';
+import { DynamicRepository } from '../../../src/modules/dynamic-api/repositories/dynamic.repository';
+import { collectQueryTables } from '../../../src/infrastructure/query-engine/utils/collect-query-tables';
+
+@Entity('test_brand')
+class TestBrand {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @OneToMany(() => TestItem, (item) => item.brand)
+  items: TestItem[];
+}
+
+@Entity('test_item')
+class TestItem {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  name: string;
+
+  @ManyToOne(() => TestBrand, (brand) => brand.items)
+  brand: TestBrand;
+}
+
+@Entity('test_note')
+class TestNote {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column('varchar')
+  text: string;
+}
+
+// Just enough of ioredis for the cache: strings, sets and hashes
+function createFakeRedis() {
+  const store = new Map<string, any>();
+  const redis: any = {
+    store,
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+    sadd: jest.fn(async (key: string, member: string) => {
+      if (!store.has(key)) store.set(key, new Set());
+      store.get(key).add(member);
+    }),
+    smembers: jest.fn(async (key: string) => [...(store.get(key) ?? [])]),
+    expire: jest.fn(async () => 1),
+    del: jest.fn(async (...keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    }),
+    hincrby: jest.fn(async (key: string, field: string, by: number) => {
+      const hash = store.get(key) ?? {};
+      hash[field] = String(Number(hash[field] ?? 0) + by);
+      store.set(key, hash);
+    }),
+    hgetall: jest.fn(async (key: string) => store.get(key) ?? {}),
+  };
+  redis.pipeline = () => {
+    const calls: (() => Promise<any>)[] = [];
+    const pipeline: any = {
+      exec: async () => {
+        for (const call of calls) await call();
+      },
+    };
+    for (const method of ['set', 'sadd', 'expire']) {
+      pipeline[method] = (...args: any[]) => {
+        calls.push(() => redis[method](...args));
+        return pipeline;
+      };
+    }
+    return pipeline;
+  };
+  return redis;
+}
+
+describe('QueryCacheService', () => {
+  let dataSource: DataSource;
+  let dsService: DataSourceService;
+  let queryEngine: QueryEngine;
+  let service: QueryCacheService;
+  let redis: any;
+
+  beforeAll(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      dropSchema: true,
+      synchronize: true,
+      entities: [TestBrand, TestItem, TestNote],
+    });
+    await dataSource.initialize();
+
+    const [acme] = await dataSource
+      .getRepository(TestBrand)
+      .save([{ name: 'Acme' }]);
+    await dataSource.getRepository(TestItem).save([
+      { name: 'Anvil', brand: acme },
+      { name: 'Rocket', brand: acme },
+    ]);
+
+    const fakeCommonService = {
+      loadDynamicEntities: async () => [TestBrand, TestItem, TestNote],
+    };
+    const mockLoggingService = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    dsService = new DataSourceService(
+      fakeCommonService as any,
+      mockLoggingService as any,
+    );
+    (dsService as any).dataSource = dataSource;
+    dsService.entityClassMap.set('test_brand', TestBrand);
+    dsService.entityClassMap.set('test_item', TestItem);
+    dsService.entityClassMap.set('test_note', TestNote);
+
+    queryEngine = new QueryEngine(dsService, mockLoggingService as any);
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    redis = createFakeRedis();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueryCacheService,
+        {
+          provide: RedisService,
+          useValue: { getOrNil: jest.fn().mockReturnValue(redis) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QueryCacheService>(QueryCacheService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  const repoFor = (tableName: string, $query: any = {}, cacheTtl = 60) => {
+    const repo = new DynamicRepository({
+      context: { $query, $user: { id: 1, isRootAdmin: true } } as any,
+      tableName,
+      queryEngine,
+      dataSourceService: dsService,
+      tableHandlerService: {} as any,
+      routeCacheService: {} as any,
+      systemProtectionService: {
+        assertSystemSafe: jest.fn(),
+      } as any,
+      queryCacheService: service,
+      cacheTtl,
+    });
+    (repo as any).repo = dsService.getRepository(tableName);
+    return repo;
+  };
+
+  it('should key equal queries the same regardless of key order', () => {
+    expect(
+      service.buildKey({ tableName: 't', filter: { a: 1, b: { c: 2 } } }),
+    ).toBe(service.buildKey({ filter: { b: { c: 2 }, a: 1 }, tableName: 't' }));
+    expect(service.buildKey({ tableName: 't', page: 1 })).not.toBe(
+      service.buildKey({ tableName: 't', page: 2 }),
+    );
+  });
+
+  it('should cache results with a TTL and count hits and misses', async () => {
+    const load = jest.fn(async () => ({ data: [1] }));
+    const request = { query: { tableName: 't' }, tables: ['t'], ttl: 30 };
+
+    expect(await service.getOrLoad(request, load)).toEqual({ data: [1] });
+    expect(await service.getOrLoad(request, load)).toEqual({ data: [1] });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(redis.set).toHaveBeenCalledWith(
+      service.buildKey(request.query),
+      '{"data":[1]}',
+      'EX',
+      30,
+    );
+    expect(await service.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+    });
+  });
+
+  it('should list every table a query reads', () => {
+    expect(
+      collectQueryTables({
+        meta: dataSource.getMetadata('test_brand'),
+        fields: 'name',
+        filter: { items: { _some: { name: { _eq: 'Anvil' } } } },
+      }),
+    ).toEqual(['test_brand', 'test_item']);
+    expect(
+      collectQueryTables({
+        meta: dataSource.getMetadata('test_item'),
+        fields: 'name',
+        deep: { brand: { fields: 'name' } },
+      }),
+    ).toEqual(['test_item', 'test_brand']);
+  });
+
+  it('should list the tables read policies filter on', () => {
+    const readPolicy = (table: string) =>
+      table === 'test_item' ? { brand: { name: { _eq: 'Acme' } } } : undefined;
+    expect(
+      collectQueryTables({
+        meta: dataSource.getMetadata('test_item'),
+        fields: 'name',
+        readPolicy,
+      }),
+    ).toEqual(['test_item', 'test_brand']);
+  });
+
+  it('should serve repeated finds from the cache until a write', async () => {
+    const find = jest.spyOn(queryEngine, 'find');
+    const query = { fields: 'name,brand.name', sort: 'id' };
+
+    const first = await repoFor('test_item', query).find({});
+    const second = await repoFor('test_item', query).find({});
+    expect(second).toEqual(first);
+    expect(find).toHaveBeenCalledTimes(1);
+
+    // Renaming the brand invalidates item queries joining it
+    await repoFor('test_brand').update(1, { name: 'Acme Corp' });
+    find.mockClear();
+    const third = await repoFor('test_item', query).find({});
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(third.data[0].brand.name).toBe('Acme Corp');
+
+    find.mockRestore();
+  });
+
+  it('should cache $NOW queries until the TTL moves on', async () => {
+    const find = jest.spyOn(queryEngine, 'find');
+    const clock = jest.spyOn(Date, 'now');
+    const query = { filter: { name: { _neq: '$NOW(-1 day)' } } };
+
+    clock.mockReturnValue(Date.UTC(2024, 0, 1, 12, 0, 10));
+    await repoFor('test_item', query).find({});
+    clock.mockReturnValue(Date.UTC(2024, 0, 1, 12, 0, 50));
+    await repoFor('test_item', query).find({});
+    expect(find).toHaveBeenCalledTimes(1);
+    expect(find.mock.calls[0][0].now).toEqual(
+      new Date(Date.UTC(2024, 0, 1, 12, 0, 0)),
+    );
+
+    clock.mockReturnValue(Date.UTC(2024, 0, 1, 12, 1, 5));
+    await repoFor('test_item', query).find({});
+    expect(find).toHaveBeenCalledTimes(2);
+
+    clock.mockRestore();
+    find.mockRestore();
+  });
+
+  it('should keep entries of unrelated tables and skip uncached repos', async () => {
+    const find = jest.spyOn(queryEngine, 'find');
+
+    await repoFor('test_item', { fields: 'name' }).find({});
+    await repoFor('test_note').create({ text: 'hello' });
+    find.mockClear();
+    await repoFor('test_item', { fields: 'name' }).find({});
+    expect(find).not.toHaveBeenCalled();
+
+    await repoFor('test_item', { fields: 'name' }, 0).find({});
+    expect(find).toHaveBeenCalledTimes(1);
+
+    find.mockRestore();
+  });
+
+  it('should check existence against the stored row, not the cache', async () => {
+    const notes = dataSource.getRepository(TestNote);
+    const [gone, kept] = await notes.save([{ text: 'gone' }, { text: 'kept' }]);
+    await repoFor('test_note').find({ where: { id: { _eq: gone.id } } });
+    await notes.delete(gone.id);
+
+    await expect(
+      repoFor('test_note').update(gone.id, { text: 'back' }),
+    ).rejects.toThrow('is not exists');
+    expect(await notes.findOneBy({ id: gone.id })).toBeNull();
+
+    // The request's paging is for its own result, not the lookup
+    await repoFor('test_note', { page: 2, fields: 'id' }).update(kept.id, {
+      text: 'changed',
+    });
+    expect((await notes.findOneBy({ id: kept.id })).text).toBe('changed');
+  });
+});
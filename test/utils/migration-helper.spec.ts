@@ -1,4 +1,5 @@
 import { Logger } from '@nestjs/common';
+import { buildFullTextIndexQueries } from '../../src/modules/code-generation/utils/migration-helper';
 
 // Mock logger for testing
 const mockLogger = {
@@ -206,6 +207,74 @@ describe('Migration Optimization Logic', () => {
   });
 });
 
+describe('Full-text index queries', () => {
+  const fakeDataSource = (type: string, existing: any[]) =>
+    ({
+      options: { type },
+      query: jest.fn().mockResolvedValue(existing),
+      entityMetadatas: [
+        {
+          tableName: 'post',
+          indices: [
+            {
+              isFulltext: true,
+              name: 'FTS_post',
+              columns: [],
+              givenColumnNames: ['body', 'title'],
+            },
+          ],
+          findColumnWithPropertyPath: (name: string) => ({
+            propertyName: name,
+            databaseName: name,
+          }),
+        },
+      ],
+    }) as any;
+
+  test('should create missing MySQL FULLTEXT indexes', async () => {
+    const result = await buildFullTextIndexQueries(fakeDataSource('mysql', []));
+
+    expect(result.upQueries).toEqual([
+      { query: 'CREATE FULLTEXT INDEX `FTS_post` ON `post` (`body`, `title`)' },
+    ]);
+    expect(result.downQueries).toEqual([
+      { query: 'DROP INDEX `FTS_post` ON `post`' },
+    ]);
+  });
+
+  test('should skip indexes that already exist', async () => {
+    const result = await buildFullTextIndexQueries(
+      fakeDataSource('mysql', [{ TABLE_NAME: 'post', INDEX_NAME: 'FTS_post' }]),
+    );
+
+    expect(result.upQueries).toEqual([]);
+  });
+
+  test('should build Postgres GIN indexes and drop stale ones', async () => {
+    const result = await buildFullTextIndexQueries(
+      fakeDataSource('postgres', [
+        {
+          tablename: 'post',
+          indexname: 'FTS_old',
+          indexdef: 'CREATE INDEX "FTS_old" ON public.post USING gin (...)',
+        },
+      ]),
+    );
+
+    const queries = result.upQueries.map((q) => q.query);
+    expect(queries[0]).toBe('CREATE EXTENSION IF NOT EXISTS unaccent');
+    expect(queries[1]).toContain('FUNCTION immutable_unaccent');
+    expect(queries[2]).toBe(
+      `CREATE INDEX "FTS_post" ON "post" USING GIN (to_tsvector('simple', immutable_unaccent(coalesce("body", '') || ' ' || coalesce("title", ''))))`,
+    );
+    expect(queries[3]).toBe('DROP INDEX "FTS_old"');
+    expect(result.downQueries.map((q) => q.query)).toEqual([
+      'CREATE INDEX "FTS_old" ON public.post USING gin (...)',
+      'DROP INDEX "FTS_post"',
+    ]);
+  });
+});
+
 // Helper function to test the optimization logic
 function processQueries(upQueries: any[], dbType: string) {
   const optimizedUpQueries: any[] = [];